@@ -0,0 +1,189 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BotConfig, getTokenConfig } from './config';
+import { WalletManager } from './utils/wallet';
+import { PumpFunService } from './services/pumpfun';
+import { PumpSwapService } from './services/pumpswap';
+import { BuybackService } from './services/buyback';
+import { CycleRunner } from './services/cycle-runner';
+import { TokenBuyback } from './services/token-buyback';
+import { CycleLedger, CycleRecord } from './utils/ledger';
+import { logger } from './utils/logger';
+import { ProcessLock } from './utils/process-lock';
+import { createSigner } from './utils/signer';
+import { verifyClusterPrograms } from './cluster';
+
+/**
+ * Services shared by the daemon and the operator CLI
+ */
+export interface BotContext {
+  config: BotConfig;
+  // Effective configuration of each token (global settings with its overrides), in `config.tokens` order
+  tokenConfigs: BotConfig[];
+  wallet: WalletManager;
+  buybackService: BuybackService;
+  ledger: CycleLedger;
+  runner: CycleRunner;
+}
+
+/**
+ * Settings the running bot picks up on reload; changes to any other setting need a restart
+ * All of them are read from the shared config objects when used, so they are updated in place.
+ */
+export const RELOADABLE_SETTINGS: (keyof BotConfig)[] = [
+  'minBuybackAmount',
+  'minClaimAmount',
+  'feeApiCrossCheck',
+  'checkIntervalMinutes',
+  'slippageBps',
+  'maxPriceImpactBps',
+  'maxSpotPriceSol',
+  'maDeviationBps',
+  'maWindowSamples',
+  'usePriorityFee',
+  'priorityFeeMode',
+  'priorityFeeMicroLamports',
+  'priorityFeePercentile',
+  'priorityFeeMinMicroLamports',
+  'priorityFeeMaxMicroLamports',
+  'priorityFeeRetryStepPct',
+  'executionMode',
+  'twapSlices',
+  'twapWindowMinutes',
+  'twapJitterPct',
+  'healthMaxMissedIntervals',
+  'notifyBatchSeconds',
+  'notifyMaxPerMinute',
+  'claimFailureAlertCount',
+  'lowBalanceAlertSol',
+];
+
+/**
+ * Outcome of reloading the configuration
+ */
+export interface ReloadResult {
+  // Reloadable settings that changed and were applied
+  applied: (keyof BotConfig)[];
+  // Settings that changed but only take effect after a restart
+  restartRequired: (keyof BotConfig)[];
+}
+
+/**
+ * Apply the reloadable settings of a freshly loaded configuration to the running services
+ * Tokens keep their overrides: a token overriding a setting keeps its own value.
+ */
+export function applyConfigReload(context: BotContext, next: BotConfig): ReloadResult {
+  const result: ReloadResult = { applied: [], restartRequired: [] };
+  for (const key of Object.keys(next) as (keyof BotConfig)[]) {
+    if (JSON.stringify(next[key]) === JSON.stringify(context.config[key])) {
+      continue;
+    }
+    (RELOADABLE_SETTINGS.includes(key) ? result.applied : result.restartRequired).push(key);
+  }
+
+  const pick = (source: BotConfig): Partial<BotConfig> =>
+    Object.fromEntries(result.applied.map((key) => [key, source[key]]));
+  Object.assign(context.config, pick(next));
+  context.config.tokens.forEach((token, index) => {
+    Object.assign(context.tokenConfigs[index], pick(getTokenConfig(next, token)));
+  });
+
+  return result;
+}
+
+/**
+ * Apply the logging settings, registering the configured secrets for redaction
+ */
+export function configureLogger(config: BotConfig): void {
+  logger.configure({
+    format: config.logFormat,
+    filePath: config.logFile,
+    maxFileBytes: config.logMaxSizeMb * 1024 * 1024,
+    maxFiles: config.logMaxFiles,
+    explorerTxUrl: config.network.explorerTxUrl,
+    secrets: [
+      ...[config.privateKey, config.keystorePassphrase, config.remoteSignerToken, config.controlToken].filter(
+        (secret): secret is string => secret !== null
+      ),
+      // Webhook URLs and the Telegram Bot API URL carry their credentials
+      ...config.notificationSinks.map((sink) => sink.url),
+    ],
+  });
+}
+
+/**
+ * Set up the wallet's signer and create the services, with one set of pump.fun / PumpSwap services per token
+ * The keystore passphrase may be prompted for on the terminal.
+ * @throws Error if the configured programs are not deployed on the connected cluster
+ */
+export async function createBotContext(config: BotConfig): Promise<BotContext> {
+  const wallet = new WalletManager(config, await createSigner(config));
+  try {
+    await verifyClusterPrograms(wallet.getConnection(), config.network);
+  } catch (error) {
+    wallet.dispose();
+    throw error;
+  }
+  const tokenConfigs = config.tokens.map((token) => getTokenConfig(config, token));
+  const tokenBuybacks = tokenConfigs.map(
+    (tokenConfig) =>
+      new TokenBuyback(
+        wallet,
+        tokenConfig,
+        new PumpFunService(wallet, tokenConfig),
+        new PumpSwapService(wallet, tokenConfig)
+      )
+  );
+  const buybackService = new BuybackService(wallet, config, tokenBuybacks);
+  const ledger = new CycleLedger(config.ledgerPath);
+  const runner = new CycleRunner(buybackService, ledger, config.dryRun);
+
+  return { config, tokenConfigs, wallet, buybackService, ledger, runner };
+}
+
+/**
+ * Lock held by the process that claims and buys with the ledger: the bot, or a CLI claim or buy
+ */
+export function createLedgerLock(config: BotConfig): ProcessLock {
+  return new ProcessLock(`${config.ledgerPath}.lock`);
+}
+
+/**
+ * Restore the pending buyback balance and owed allocations from the cycle ledger
+ * @returns The records that count towards this run's statistics
+ */
+export async function restoreFromLedger(context: BotContext): Promise<CycleRecord[]> {
+  const { ledger, buybackService, config } = context;
+
+  // Simulated cycles never moved funds, so they only count towards a dry run's own picture
+  const records = (await ledger.readAll()).filter((record) => config.dryRun || !record.simulated);
+  logger.info(`Loaded ${records.length} cycles from ledger ${ledger.getFilePath()}`);
+
+  // Balances come from the last real cycle: simulated claims were only expected amounts
+  const last = records.filter((record) => !record.simulated).pop();
+
+  // Multi-token records keep a pending balance per token; older records only the total
+  for (const token of buybackService.getTokens()) {
+    const tokenRecord = last?.tokens?.find((candidate) => candidate.mint === token.getMint());
+    if (tokenRecord) {
+      token.setPendingLamports(tokenRecord.pendingLamports);
+      token.setOwedPostBuybackTokens(BigInt(tokenRecord.owedPostBuybackTokens ?? 0));
+    } else if (!last?.tokens && token === buybackService.getToken()) {
+      token.setPendingLamports(last?.pendingLamports ?? 0);
+      token.setOwedPostBuybackTokens(BigInt(last?.owedPostBuybackTokens ?? 0));
+    }
+    const owedTokens = token.getOwedPostBuybackTokens();
+    if (owedTokens > 0n) {
+      logger.info(`Restored ${owedTokens} tokens of ${token.getMint()} still to be burned or moved`);
+    }
+  }
+  if (buybackService.getPendingLamports() > 0) {
+    logger.info(`Restored pending buyback balance: ${buybackService.getPendingBalance().toFixed(6)} SOL`);
+  }
+
+  buybackService.setOwedAllocations(last?.owedAllocations ?? {});
+  for (const [name, lamports] of Object.entries(buybackService.getOwedAllocations())) {
+    logger.info(`Restored ${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL owed to allocation "${name}"`);
+  }
+
+  return records;
+}
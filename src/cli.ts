@@ -0,0 +1,689 @@
+/**
+ * Operator CLI for the buyback bot
+ *
+ * Usage: npm run cli -- <command> [options] (see USAGE below)
+ * With --json the result is printed as JSON on stdout and log lines go to stderr
+ * Exit codes: see EXIT_CODES
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BotConfig, PUMPFUN_CONSTANTS, loadConfig } from './config';
+import { SettingsReader } from './settings';
+import { BotContext, configureLogger, createBotContext, createLedgerLock, restoreFromLedger } from './bootstrap';
+import { runDaemon } from './index';
+import { printHistory } from './history';
+import { GraduationState } from './services/graduation';
+import { TokenBuyback } from './services/token-buyback';
+import { CycleLedger, CycleRecord } from './utils/ledger';
+import { logger } from './utils/logger';
+import {
+  MIN_PASSPHRASE_LENGTH,
+  PassphraseSource,
+  decryptKeystore,
+  encryptSecretKey,
+  parseSecretKey,
+  promptSecret,
+  readKeystore,
+  readPassphrase,
+  writeKeystore,
+} from './utils/keystore';
+
+/**
+ * Process exit codes, stable so scripts can rely on them
+ */
+const EXIT_CODES = {
+  // The command succeeded
+  OK: 0,
+  // The command failed (e.g. the buy or claim transaction failed, or the RPC was unreachable)
+  ACTION_FAILED: 1,
+  // Unknown command, bad arguments or options
+  USAGE: 2,
+  // Configuration, wallet or ledger could not be loaded
+  SETUP_FAILED: 3,
+};
+
+// Options that take a value
+const VALUE_OPTIONS = ['--mint', '--from', '--to', '--key-file', '--passphrase-file', '--out', '--format'];
+
+// Options that are flags
+const FLAG_OPTIONS = ['--json', '--help', '--force'];
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  status          Wallet balance, claimable fees, curve state and graduation of each token
+  claim           Run a cycle now, claiming regardless of the claim threshold
+  buy <sol>       Buy a token with SOL from the wallet
+  quote <sol>     Quote the tokens a buy would receive
+  history         Print ledger cycles
+  run             Start the bot
+  keystore create <file>  Create an encrypted keystore with a new wallet
+  keystore import <file>  Encrypt an existing key (from --key-file, WALLET_PRIVATE_KEY or a prompt)
+  keystore export <file>  Decrypt a keystore's key to --out, or to stdout
+
+Options:
+  --json            Print the result as JSON on stdout
+  --mint <address>  Token for buy and quote (default: first configured token)
+  --from <date>     History start date
+  --to <date>       History end date
+  --key-file <path>         Key to import (base58 or JSON array, e.g. a solana-keygen file)
+  --passphrase-file <path>  Keystore passphrase file (default: WALLET_KEYSTORE_PASSPHRASE(_FILE), or a prompt)
+  --out <path>              File the exported key is written to
+  --format <json|base58>    Format of the exported key (default: json)
+  --force                   Replace an existing keystore or export file`;
+
+/**
+ * Error in the command line, answered with the usage exit code
+ */
+class UsageError extends Error {}
+
+/**
+ * Error while loading configuration, wallet or ledger, answered with the setup exit code
+ */
+class SetupError extends Error {}
+
+/**
+ * Parsed command line
+ */
+interface CliArgs {
+  command: string | undefined;
+  positionals: string[];
+  options: Record<string, string>;
+  json: boolean;
+  help: boolean;
+  force: boolean;
+}
+
+/**
+ * Outcome of a command: the data to print and the exit code
+ */
+interface CommandResult {
+  data: Record<string, unknown>;
+  exitCode: number;
+  // Lines printed in text mode
+  lines: string[];
+}
+
+/**
+ * Parse the command line arguments
+ */
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: undefined,
+    positionals: [],
+    options: {},
+    json: false,
+    help: false,
+    force: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (VALUE_OPTIONS.includes(arg)) {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new UsageError(`Missing value for ${arg}`);
+      }
+      args.options[arg] = value;
+    } else if (FLAG_OPTIONS.includes(arg)) {
+      args.json = args.json || arg === '--json';
+      args.help = args.help || arg === '--help';
+      args.force = args.force || arg === '--force';
+    } else if (arg.startsWith('--')) {
+      throw new UsageError(`Unknown option: ${arg}`);
+    } else if (args.command === undefined) {
+      args.command = arg;
+    } else {
+      args.positionals.push(arg);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Read the SOL amount positional of buy and quote
+ */
+function parseSolArg(args: CliArgs): number {
+  if (args.positionals.length !== 1) {
+    throw new UsageError(`Usage: npm run cli -- ${args.command} <sol> [--mint <address>] [--json]`);
+  }
+  const sol = Number(args.positionals[0]);
+  if (!Number.isFinite(sol) || sol <= 0) {
+    throw new UsageError(`Invalid SOL amount: ${args.positionals[0]}`);
+  }
+  return sol;
+}
+
+/**
+ * Read a date option
+ */
+function parseDateOption(args: CliArgs, name: string): Date | undefined {
+  const value = args.options[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new UsageError(`Invalid date for ${name}: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Serialize command output; token amounts are bigints and are printed as strings
+ */
+function toJson(body: unknown): string {
+  return JSON.stringify(body, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+}
+
+/**
+ * Format a raw token amount in whole tokens
+ */
+function formatTokens(amount: bigint): string {
+  return (Number(amount) / 10 ** PUMPFUN_CONSTANTS.TOKEN_DECIMALS).toLocaleString('en-US', {
+    maximumFractionDigits: PUMPFUN_CONSTANTS.TOKEN_DECIMALS,
+  });
+}
+
+/**
+ * Load configuration and apply its logging settings
+ */
+function loadCliConfig(): BotConfig {
+  let config: BotConfig;
+  try {
+    config = loadConfig();
+    configureLogger(config);
+  } catch (error: any) {
+    throw new SetupError(`Failed to load configuration: ${error.message || error}`);
+  }
+  return config;
+}
+
+/**
+ * Create the services and restore the pending balance from the ledger
+ */
+async function loadContext(config: BotConfig): Promise<BotContext> {
+  let context: BotContext;
+  try {
+    context = await createBotContext(config);
+  } catch (error: any) {
+    throw new SetupError(`Failed to initialize wallet: ${error.message || error}`);
+  }
+  try {
+    await restoreFromLedger(context);
+  } catch (error: any) {
+    throw new SetupError(`Failed to read cycle ledger: ${error.message || error}`);
+  }
+  return context;
+}
+
+/**
+ * Take the ledger lock for a command that claims or buys, so it never runs beside the bot
+ */
+function lockLedger(config: BotConfig): void {
+  try {
+    createLedgerLock(config).acquire();
+  } catch (error: any) {
+    throw new Error(
+      `Could not lock the cycle ledger: ${error.message || error}. While the bot runs, use its control API instead`
+    );
+  }
+}
+
+/**
+ * Find where a token trades, the way the daemon's graduation watcher would on startup
+ * Graduated tokens with a live pool buy on PumpSwap; tokens still migrating are paused
+ */
+async function detectVenue(config: BotConfig, token: TokenBuyback): Promise<GraduationState> {
+  if (!(await token.getPumpFun().hasGraduated())) {
+    return 'bonding-curve';
+  }
+  if (config.graduationRoute === 'stop') {
+    token.pause('graduated with GRADUATION_ROUTE=stop');
+    return 'migrating';
+  }
+  if (!(await token.getPumpSwap().hasPool())) {
+    token.pause('token is migrating to PumpSwap');
+    return 'migrating';
+  }
+  token.setVenue('pumpswap');
+  return 'migrated';
+}
+
+/**
+ * Look up the token selected with --mint
+ */
+function selectToken(context: BotContext, args: CliArgs): TokenBuyback {
+  const mint = args.options['--mint'];
+  const token = context.buybackService.getToken(mint);
+  if (!token) {
+    throw new UsageError(`Token ${mint} is not configured`);
+  }
+  return token;
+}
+
+/**
+ * Exit code of a cycle or manual buyback record
+ */
+function recordExitCode(record: CycleRecord): number {
+  return record.status === 'error' || record.status === 'buy-failed' ? EXIT_CODES.ACTION_FAILED : EXIT_CODES.OK;
+}
+
+/**
+ * Summarize a cycle or manual buyback record in text mode
+ */
+function describeRecord(record: CycleRecord): string[] {
+  const lines = [
+    `Status: ${record.status}${record.simulated ? ' (simulated)' : ''}`,
+    `Claimed: ${(record.claimedLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`,
+    `Spent: ${(record.solSpentLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`,
+    `Tokens received: ${record.tokensReceived ?? '-'}`,
+  ];
+  for (const signature of record.claimSignatures ?? (record.claimSignature ? [record.claimSignature] : [])) {
+    lines.push(`Claim signature: ${signature}`);
+  }
+  for (const signature of record.buySignatures ?? (record.buySignature ? [record.buySignature] : [])) {
+    lines.push(`Buy signature: ${signature}`);
+  }
+  if (record.failureReason) {
+    lines.push(`Reason: ${record.failureReason}`);
+  }
+  return lines;
+}
+
+/**
+ * status: wallet balance, claimable fees, curve state and graduation of each token
+ */
+async function statusCommand(context: BotContext): Promise<CommandResult> {
+  const { config, wallet, buybackService } = context;
+  const balance = await wallet.getBalance();
+
+  const tokens = [];
+  for (const token of buybackService.getTokens()) {
+    const graduation = await detectVenue(config, token);
+    const curve = await token.getPumpFun().getBondingCurveData();
+    tokens.push({
+      mint: token.getMint(),
+      graduation,
+      venue: token.getVenue(),
+      pendingSol: token.getPendingBalance(),
+      curve: curve && {
+        virtualSolReserves: curve.virtualSolReserves,
+        virtualTokenReserves: curve.virtualTokenReserves,
+        realSolReserves: curve.realSolReserves,
+        realTokenReserves: curve.realTokenReserves,
+        complete: curve.complete,
+      },
+    });
+  }
+
+  // Both creator vaults collect the fees of every token created by the wallet
+  const claimableSol = await buybackService.getTokens()[0].getPumpFun().getClaimableFees();
+  const migrated = buybackService.getTokens().find((token) => token.getVenue() === 'pumpswap');
+  const claimablePumpSwapSol = migrated ? await migrated.getPumpSwap().getClaimableFees() : 0;
+
+  const owedAllocationsSol = Object.fromEntries(
+    Object.entries(buybackService.getOwedAllocations()).map(([name, lamports]) => [name, lamports / LAMPORTS_PER_SOL])
+  );
+
+  const lines = [
+    ...(config.network.cluster !== 'mainnet' ? [`Cluster: ${config.network.cluster}`] : []),
+    `Wallet: ${wallet.getPublicKey().toBase58()}` + (config.signer !== 'keypair' ? ` (${config.signer} signer)` : ''),
+    `Balance: ${balance.toFixed(6)} SOL`,
+    `Claimable fees: ${claimableSol.toFixed(6)} SOL` +
+      (migrated ? ` (PumpSwap: ${claimablePumpSwapSol.toFixed(6)} SOL)` : ''),
+    `Pending buyback balance: ${buybackService.getPendingBalance().toFixed(6)} SOL`,
+  ];
+  for (const [name, sol] of Object.entries(owedAllocationsSol)) {
+    lines.push(`Owed to allocation "${name}": ${sol.toFixed(6)} SOL`);
+  }
+  for (const token of tokens) {
+    lines.push(`Token ${token.mint}: ${token.graduation}, buying on ${token.venue}`);
+    if (token.curve) {
+      lines.push(
+        `  Curve: virtual ${(Number(token.curve.virtualSolReserves) / LAMPORTS_PER_SOL).toFixed(6)} SOL / ` +
+          `${formatTokens(token.curve.virtualTokenReserves)} tokens, ` +
+          `real ${(Number(token.curve.realSolReserves) / LAMPORTS_PER_SOL).toFixed(6)} SOL / ` +
+          `${formatTokens(token.curve.realTokenReserves)} tokens` +
+          (token.curve.complete ? ', complete' : '')
+      );
+    }
+    if (buybackService.getTokens().length > 1) {
+      lines.push(`  Pending: ${token.pendingSol.toFixed(6)} SOL`);
+    }
+  }
+  if (config.dryRun) {
+    lines.push('DRY RUN: transactions are simulated, nothing is sent');
+  }
+
+  return {
+    data: {
+      cluster: config.network.cluster,
+      wallet: wallet.getPublicKey().toBase58(),
+      signer: config.signer,
+      balanceSol: balance,
+      claimableSol,
+      claimablePumpSwapSol: migrated ? claimablePumpSwapSol : undefined,
+      pendingSol: buybackService.getPendingBalance(),
+      owedAllocationsSol,
+      dryRun: config.dryRun,
+      tokens,
+    },
+    exitCode: EXIT_CODES.OK,
+    lines,
+  };
+}
+
+/**
+ * claim: run a cycle now, claiming regardless of the claim threshold
+ */
+async function claimCommand(context: BotContext): Promise<CommandResult> {
+  for (const token of context.buybackService.getTokens()) {
+    await detectVenue(context.config, token);
+  }
+
+  const record = await context.runner.runCycle({ forceClaim: true });
+  return { data: { record }, exitCode: recordExitCode(record), lines: describeRecord(record) };
+}
+
+/**
+ * buy <sol>: buy a token with SOL from the wallet, outside the cycle
+ */
+async function buyCommand(context: BotContext, args: CliArgs): Promise<CommandResult> {
+  const sol = parseSolArg(args);
+  const token = selectToken(context, args);
+
+  await detectVenue(context.config, token);
+  const pauseReason = token.getPauseReason();
+  if (pauseReason !== null) {
+    return {
+      data: { error: `Buybacks of ${token.getMint()} are paused: ${pauseReason}` },
+      exitCode: EXIT_CODES.ACTION_FAILED,
+      lines: [`Buybacks of ${token.getMint()} are paused: ${pauseReason}`],
+    };
+  }
+
+  const record = await context.runner.runManualBuyback(sol, token.getMint());
+  return { data: { record }, exitCode: recordExitCode(record), lines: describeRecord(record) };
+}
+
+/**
+ * quote <sol>: quote the tokens a buy would receive on the token's current venue
+ */
+async function quoteCommand(context: BotContext, args: CliArgs): Promise<CommandResult> {
+  const sol = parseSolArg(args);
+  const token = selectToken(context, args);
+
+  // Tokens still migrating have neither a live curve nor a pool, so they get no quote
+  const graduation = await detectVenue(context.config, token);
+  const tokens = await token.quoteBuy(sol);
+  if (tokens === null) {
+    return {
+      data: { mint: token.getMint(), sol, graduation, error: 'No market to quote against' },
+      exitCode: EXIT_CODES.ACTION_FAILED,
+      lines: [`No market to quote ${token.getMint()} against (${graduation})`],
+    };
+  }
+
+  const wholeTokens = Number(tokens) / 10 ** PUMPFUN_CONSTANTS.TOKEN_DECIMALS;
+  const pricePerToken = wholeTokens > 0 ? sol / wholeTokens : null;
+  return {
+    data: { mint: token.getMint(), venue: token.getVenue(), sol, tokens, pricePerToken },
+    exitCode: EXIT_CODES.OK,
+    lines: [
+      `${sol} SOL buys ~${formatTokens(tokens)} tokens of ${token.getMint()} on ${token.getVenue()}`,
+      `Price: ${pricePerToken !== null ? pricePerToken.toExponential(6) : '-'} SOL per token`,
+    ],
+  };
+}
+
+/**
+ * history: print ledger cycles and their totals
+ */
+async function historyCommand(config: BotConfig, args: CliArgs): Promise<CommandResult | null> {
+  const from = parseDateOption(args, '--from');
+  const to = parseDateOption(args, '--to');
+
+  let records: CycleRecord[];
+  try {
+    records = await new CycleLedger(config.ledgerPath).query(from, to);
+  } catch (error: any) {
+    throw new SetupError(`Failed to read cycle ledger: ${error.message || error}`);
+  }
+
+  if (!args.json) {
+    printHistory(records);
+    return null;
+  }
+  return { data: { records, totals: CycleLedger.summarize(records) }, exitCode: EXIT_CODES.OK, lines: [] };
+}
+
+/**
+ * Where keystore commands read the passphrase: --passphrase-file, else the configured passphrase or file
+ */
+function getPassphraseSource(args: CliArgs): PassphraseSource {
+  if (args.options['--passphrase-file']) {
+    return { passphraseFile: args.options['--passphrase-file'] };
+  }
+  try {
+    const settings = new SettingsReader();
+    return {
+      passphrase: settings.string('WALLET_KEYSTORE_PASSPHRASE'),
+      passphraseFile: settings.string('WALLET_KEYSTORE_PASSPHRASE_FILE'),
+    };
+  } catch (error: any) {
+    throw new SetupError(`Failed to load configuration: ${error.message || error}`);
+  }
+}
+
+/**
+ * Write a file readable by the owner only, refusing to replace an existing one without --force
+ */
+function writePrivateFile(filePath: string, args: CliArgs, write: (overwrite: boolean) => void): void {
+  try {
+    write(args.force);
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      throw new Error(`${filePath} already exists (use --force to replace it)`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * keystore create|import|export <file>: manage encrypted wallet keystores
+ * Secret key bytes are cleared once written or encrypted.
+ */
+async function keystoreCommand(args: CliArgs): Promise<CommandResult | null> {
+  const [action, filePath, ...rest] = args.positionals;
+  if (!['create', 'import', 'export'].includes(action) || !filePath || rest.length > 0) {
+    throw new UsageError('Usage: npm run cli -- keystore <create|import|export> <file> [options]');
+  }
+  const format = args.options['--format'] ?? 'json';
+  if (format !== 'json' && format !== 'base58') {
+    throw new UsageError(`Invalid --format: ${format}`);
+  }
+  const source = getPassphraseSource(args);
+
+  if (action === 'export') {
+    const keystore = readKeystore(filePath);
+    const passphrase = await readPassphrase(source, `Passphrase for keystore ${filePath} (${keystore.publicKey}): `);
+    const secretKey = await decryptKeystore(keystore, passphrase);
+    const exported = format === 'base58' ? bs58.encode(secretKey) : JSON.stringify(Array.from(secretKey));
+    secretKey.fill(0);
+
+    const out = args.options['--out'];
+    if (out) {
+      writePrivateFile(out, args, (overwrite) =>
+        fs.writeFileSync(out, exported + '\n', { mode: 0o600, flag: overwrite ? 'w' : 'wx' })
+      );
+      return {
+        data: { publicKey: keystore.publicKey, out },
+        exitCode: EXIT_CODES.OK,
+        lines: [`Exported the key of ${keystore.publicKey} to ${out}`],
+      };
+    }
+    if (args.json) {
+      return { data: { publicKey: keystore.publicKey, secretKey: exported }, exitCode: EXIT_CODES.OK, lines: [] };
+    }
+    // Printed directly, since log lines redact key material
+    logger.warn(`Printing the secret key of ${keystore.publicKey}`);
+    process.stdout.write(exported + '\n');
+    return null;
+  }
+
+  // create and import: get the key to protect
+  let secretKey: Uint8Array;
+  if (action === 'create') {
+    const seed = crypto.randomBytes(32);
+    secretKey = Keypair.fromSeed(seed).secretKey;
+    seed.fill(0);
+  } else if (args.options['--key-file']) {
+    secretKey = parseSecretKey(fs.readFileSync(args.options['--key-file'], 'utf8'));
+  } else if (process.env.WALLET_PRIVATE_KEY) {
+    secretKey = parseSecretKey(process.env.WALLET_PRIVATE_KEY);
+  } else {
+    secretKey = parseSecretKey(await promptSecret('Private key (base58 or JSON array): '));
+  }
+
+  try {
+    const passphrase = await readPassphrase(source, 'New keystore passphrase: ', true);
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    const keystore = await encryptSecretKey(secretKey, passphrase);
+    writePrivateFile(filePath, args, (overwrite) => writeKeystore(filePath, keystore, overwrite));
+    return {
+      data: { publicKey: keystore.publicKey, keystore: filePath },
+      exitCode: EXIT_CODES.OK,
+      lines: [
+        `${action === 'create' ? 'Created' : 'Imported'} wallet ${keystore.publicKey} into ${filePath}`,
+        `Set WALLET_KEYSTORE=${filePath} and remove WALLET_PRIVATE_KEY to use it`,
+      ],
+    };
+  } finally {
+    secretKey.fill(0);
+  }
+}
+
+/**
+ * Run a command
+ * @returns The result to print, or null if the command printed its own output
+ */
+async function runCommand(args: CliArgs): Promise<CommandResult | null> {
+  const checkNoPositionals = () => {
+    if (args.positionals.length > 0) {
+      throw new UsageError(`Unexpected argument: ${args.positionals[0]}`);
+    }
+  };
+
+  switch (args.command) {
+    case 'status':
+      checkNoPositionals();
+      return statusCommand(await loadContext(loadCliConfig()));
+    case 'claim': {
+      checkNoPositionals();
+      const config = loadCliConfig();
+      lockLedger(config);
+      return claimCommand(await loadContext(config));
+    }
+    case 'buy': {
+      parseSolArg(args);
+      const config = loadCliConfig();
+      lockLedger(config);
+      return buyCommand(await loadContext(config), args);
+    }
+    case 'quote':
+      parseSolArg(args);
+      return quoteCommand(await loadContext(loadCliConfig()), args);
+    case 'history':
+      checkNoPositionals();
+      return historyCommand(loadCliConfig(), args);
+    case 'keystore':
+      return keystoreCommand(args);
+    case undefined:
+      throw new UsageError('Missing command');
+    default:
+      throw new UsageError(`Unknown command: ${args.command}`);
+  }
+}
+
+/**
+ * Print a command result or error in the selected output mode
+ */
+function print(json: boolean, result: CommandResult): void {
+  if (json) {
+    process.stdout.write(toJson({ ok: result.exitCode === EXIT_CODES.OK, ...result.data }) + '\n');
+    return;
+  }
+  for (const line of result.lines) {
+    logger.info(line);
+  }
+}
+
+async function main(): Promise<void> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error: any) {
+    logger.error(error.message);
+    console.error(USAGE);
+    process.exit(EXIT_CODES.USAGE);
+  }
+
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  // The daemon keeps its log output on stdout and exits on its own
+  if (args.command === 'run') {
+    if (args.json || args.positionals.length > 0) {
+      logger.error('The run command takes no arguments or options');
+      process.exit(EXIT_CODES.USAGE);
+    }
+    await runDaemon();
+    return;
+  }
+
+  if (args.json) {
+    logger.useStderr();
+  }
+
+  let exitCode: number;
+  try {
+    const result = await runCommand(args);
+    if (result) {
+      print(args.json, result);
+    }
+    exitCode = result?.exitCode ?? EXIT_CODES.OK;
+  } catch (error: any) {
+    exitCode =
+      error instanceof UsageError
+        ? EXIT_CODES.USAGE
+        : error instanceof SetupError
+          ? EXIT_CODES.SETUP_FAILED
+          : EXIT_CODES.ACTION_FAILED;
+    const message = error.message || String(error);
+    if (args.json) {
+      process.stdout.write(toJson({ ok: false, error: message }) + '\n');
+    } else {
+      logger.error(message);
+    }
+    if (exitCode === EXIT_CODES.USAGE && !args.json) {
+      console.error(USAGE);
+    }
+  }
+
+  // Open RPC websockets and timers would keep one-shot commands alive
+  process.exit(exitCode);
+}
+
+main().catch((error) => {
+  logger.error('Fatal error:', error);
+  process.exit(EXIT_CODES.ACTION_FAILED);
+});
@@ -0,0 +1,184 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import type { SettingsReader } from './settings';
+
+/**
+ * Supported Solana clusters
+ */
+export type Cluster = 'mainnet' | 'devnet' | 'localnet';
+
+/**
+ * Programs and accounts the bot calls, as deployed on a cluster
+ */
+export interface ClusterPrograms {
+  pumpfun: PublicKey;
+  // Pump.fun fee program, whose fee config the bonding curve `buy` reads
+  pumpfunFeeProgram: PublicKey;
+  // Pump.fun global state account
+  pumpfunGlobal: PublicKey;
+  // Pump.fun fee account where trading fees are collected
+  pumpfunFeeRecipient: PublicKey;
+  pumpswap: PublicKey;
+  token: PublicKey;
+  associatedToken: PublicKey;
+}
+
+/**
+ * Program IDs, API endpoints and explorer links of the cluster the bot runs against
+ */
+export interface ClusterConfig {
+  cluster: Cluster;
+  programs: ClusterPrograms;
+  // PumpPortal local trade API, or null where PumpPortal is not available
+  pumpPortalUrl: string | null;
+  // Base URL of the pump.fun website API, or null where it is not available
+  feeApiUrl: string | null;
+  // Explorer link of a transaction, with `{signature}` standing for its signature
+  explorerTxUrl: string;
+}
+
+/**
+ * Defaults of a cluster, each overridable by its own setting
+ */
+interface ClusterDefaults {
+  rpcEndpoint: string;
+  bundleEndpoint: string | null;
+  pumpPortalUrl: string | null;
+  feeApiUrl: string | null;
+  explorerTxUrl: string;
+  programs: Record<keyof ClusterPrograms, string>;
+}
+
+// Pump.fun, PumpSwap and SPL programs at their mainnet addresses; devnet deploys them at the same
+// addresses and a local validator clones them from mainnet
+const PUMP_PROGRAMS: Record<keyof ClusterPrograms, string> = {
+  pumpfun: '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P',
+  pumpfunFeeProgram: 'pfeeUxB6jkeY1Hxd7CsFCAjcbHA9rWtchMGdZ6VojVZ',
+  pumpfunGlobal: '4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf',
+  pumpfunFeeRecipient: 'CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM',
+  pumpswap: 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA',
+  token: TOKEN_PROGRAM_ID.toBase58(),
+  associatedToken: ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+};
+
+/**
+ * Built-in defaults of each cluster
+ * PumpPortal, the pump.fun website API and Jito bundles only serve mainnet.
+ */
+export const CLUSTER_DEFAULTS: Record<Cluster, ClusterDefaults> = {
+  mainnet: {
+    rpcEndpoint: 'https://api.mainnet-beta.solana.com',
+    bundleEndpoint: 'https://mainnet.block-engine.jito.wtf/api/v1/bundles',
+    pumpPortalUrl: 'https://pumpportal.fun/api/trade-local',
+    feeApiUrl: 'https://frontend-api.pump.fun',
+    explorerTxUrl: 'https://solscan.io/tx/{signature}',
+    programs: PUMP_PROGRAMS,
+  },
+  devnet: {
+    rpcEndpoint: 'https://api.devnet.solana.com',
+    bundleEndpoint: null,
+    pumpPortalUrl: null,
+    feeApiUrl: null,
+    explorerTxUrl: 'https://solscan.io/tx/{signature}?cluster=devnet',
+    programs: PUMP_PROGRAMS,
+  },
+  localnet: {
+    rpcEndpoint: 'http://127.0.0.1:8899',
+    bundleEndpoint: null,
+    pumpPortalUrl: null,
+    feeApiUrl: null,
+    explorerTxUrl: 'https://explorer.solana.com/tx/{signature}?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899',
+    programs: PUMP_PROGRAMS,
+  },
+};
+
+// Setting overriding each program or account of the cluster
+const PROGRAM_SETTINGS: Record<keyof ClusterPrograms, string> = {
+  pumpfun: 'PUMPFUN_PROGRAM_ID',
+  pumpfunFeeProgram: 'PUMPFUN_FEE_PROGRAM_ID',
+  pumpfunGlobal: 'PUMPFUN_GLOBAL_ACCOUNT',
+  pumpfunFeeRecipient: 'PUMPFUN_FEE_RECIPIENT',
+  pumpswap: 'PUMPSWAP_PROGRAM_ID',
+  token: 'TOKEN_PROGRAM_ID',
+  associatedToken: 'ASSOCIATED_TOKEN_PROGRAM_ID',
+};
+
+/**
+ * Read the selected cluster and apply the per-setting overrides of its program IDs, endpoints and explorer link
+ */
+export function readClusterConfig(settings: SettingsReader): ClusterConfig {
+  const cluster = settings.choice<Cluster>('CLUSTER');
+  const defaults = CLUSTER_DEFAULTS[cluster];
+
+  const programs = {} as ClusterPrograms;
+  for (const [field, name] of Object.entries(PROGRAM_SETTINGS) as [keyof ClusterPrograms, string][]) {
+    const address = settings.string(name) ?? defaults.programs[field];
+    try {
+      programs[field] = new PublicKey(address);
+    } catch {
+      throw new Error(`Invalid ${name} "${address}" - must be a valid Solana public key`);
+    }
+  }
+
+  for (const name of ['PUMPPORTAL_API_URL', 'PUMPFUN_FEE_API_URL', 'EXPLORER_TX_URL']) {
+    const url = settings.string(name);
+    if (url && !/^https?:\/\//.test(url)) {
+      throw new Error(`Invalid ${name} "${url}" - must be an http(s):// URL`);
+    }
+  }
+  const explorerTxUrl = settings.string('EXPLORER_TX_URL') ?? defaults.explorerTxUrl;
+  if (!explorerTxUrl.includes('{signature}')) {
+    throw new Error(`Invalid EXPLORER_TX_URL "${explorerTxUrl}" - must contain {signature}`);
+  }
+
+  return {
+    cluster,
+    programs,
+    pumpPortalUrl: settings.string('PUMPPORTAL_API_URL') ?? defaults.pumpPortalUrl,
+    feeApiUrl: (settings.string('PUMPFUN_FEE_API_URL') ?? defaults.feeApiUrl)?.replace(/\/+$/, '') ?? null,
+    explorerTxUrl,
+  };
+}
+
+/**
+ * Build the explorer link of a transaction
+ */
+export function formatExplorerTxUrl(template: string, signature: string): string {
+  return template.replace('{signature}', signature);
+}
+
+/**
+ * Check that the configured programs are deployed on the connected cluster, and the pump.fun global account exists
+ * Catches an RPC endpoint of another cluster, or a local validator started without the cloned programs.
+ * @throws Error listing every missing program or account
+ */
+export async function verifyClusterPrograms(connection: Connection, config: ClusterConfig): Promise<void> {
+  const { programs } = config;
+  const expected: { name: string; address: PublicKey; executable: boolean }[] = [
+    { name: 'pump.fun program', address: programs.pumpfun, executable: true },
+    { name: 'pump.fun fee program', address: programs.pumpfunFeeProgram, executable: true },
+    { name: 'pump.fun global account', address: programs.pumpfunGlobal, executable: false },
+    { name: 'PumpSwap program', address: programs.pumpswap, executable: true },
+    { name: 'SPL Token program', address: programs.token, executable: true },
+    { name: 'Associated Token program', address: programs.associatedToken, executable: true },
+  ];
+
+  const accounts = await connection.getMultipleAccountsInfo(expected.map((entry) => entry.address));
+  const problems = expected.flatMap((entry, i) => {
+    const account = accounts[i];
+    if (!account) {
+      return [`${entry.name} ${entry.address.toBase58()} not found`];
+    }
+    if (entry.executable && !account.executable) {
+      return [`${entry.name} ${entry.address.toBase58()} is not executable`];
+    }
+    return [];
+  });
+
+  if (problems.length > 0) {
+    throw new Error(
+      `The RPC endpoint does not look like ${config.cluster}: ${problems.join('; ')}. ` +
+        'Check SOLANA_RPC_ENDPOINT, CLUSTER and the program ID overrides'
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import dotenv from 'dotenv';
 import { PublicKey } from '@solana/web3.js';
+import { SettingsReader, checkNumber, toFileKey } from './settings';
+import { CLUSTER_DEFAULTS, ClusterConfig, readClusterConfig } from './cluster';
 
 dotenv.config();
 
@@ -7,84 +9,880 @@ dotenv.config();
  * Configuration interface for the buyback bot
  */
 export interface BotConfig {
-  // Solana RPC endpoint (mainnet-beta recommended for production)
+  // Program IDs, API endpoints and explorer links of the cluster the bot runs against
+  // ('mainnet', 'devnet' or 'localnet'), with any per-setting overrides applied
+  network: ClusterConfig;
+
+  // Solana RPC endpoint (the cluster's public endpoint unless set; a private one is recommended for production)
   rpcEndpoint: string;
 
   // Private key of the wallet that created the token and receives fees
   // This wallet will be used to claim fees and execute buybacks
-  privateKey: string;
+  // Null when the key is loaded from an encrypted keystore instead
+  privateKey: string | null;
+
+  // Encrypted keystore file holding the wallet's secret key (replaces privateKey)
+  keystorePath: string | null;
+
+  // Passphrase of the keystore, if not read from a file or prompted for
+  keystorePassphrase: string | null;
+
+  // File containing the keystore passphrase, if not set directly or prompted for
+  keystorePassphraseFile: string | null;
+
+  // Who signs the wallet's transactions: 'keypair' (key in this process), 'remote' (signer service)
+  // or 'multisig' (Squads vault; the local key proposes, approves and executes)
+  signer: SignerKind;
+
+  // Remote signer endpoint: an http(s) URL or unix:/path/to/socket (remote signer)
+  remoteSignerUrl: string | null;
+
+  // Bearer token of the remote signer (remote signer)
+  remoteSignerToken: string | null;
+
+  // Public key the remote signer must sign for, or null to accept the one it reports
+  remoteSignerPublicKey: string | null;
 
-  // The mint address of your token on pump.fun
+  // Squads multisig whose vault is the wallet (multisig signer)
+  multisigAddress: string | null;
+
+  // Index of the multisig vault used as the wallet
+  multisigVaultIndex: number;
+
+  // Squads (v4) program the multisig belongs to
+  multisigProgramId: string;
+
+  // How long to wait for a proposal to be approved and executable (in minutes)
+  multisigApprovalTimeoutMinutes: number;
+
+  // The mint address of your token on pump.fun (the first of `tokens` when several are configured)
   tokenMintAddress: string;
 
+  // Tokens created by this wallet to buy back, each with optional settings overrides
+  tokens: TokenConfig[];
+
+  // How claimed fees are attributed to tokens: 'weight' (configured weights) or 'trades' (on-chain creator fees)
+  feeAttribution: FeeAttribution;
+
   // Minimum SOL balance to trigger a buyback (in SOL)
   minBuybackAmount: number;
 
+  // Minimum claimable creator fees to send a claim transaction (in SOL)
+  minClaimAmount: number;
+
+  // Whether to cross-check on-chain claimable fees against the pump.fun website API
+  feeApiCrossCheck: boolean;
+
   // How often to check for claimable fees (in minutes)
   checkIntervalMinutes: number;
 
   // Slippage tolerance for buyback swaps (in percentage, e.g., 5 = 5%)
   slippageBps: number;
 
+  // Maximum price impact of a single buy (in basis points, 0 = disabled); larger buys are resized
+  maxPriceImpactBps: number;
+
+  // Maximum spot price to buy at (in SOL per token, 0 = disabled); buys above it are deferred
+  maxSpotPriceSol: number;
+
+  // Maximum deviation of the spot price above its moving average (in basis points, 0 = disabled)
+  maDeviationBps: number;
+
+  // Number of price samples (one per buy attempt) in the moving average
+  maWindowSamples: number;
+
   // Whether to use priority fees for faster transactions
   usePriorityFee: boolean;
 
-  // Priority fee in microlamports (if usePriorityFee is true)
+  // How the priority fee is set: 'fixed' (priorityFeeMicroLamports) or 'dynamic' (from recent network fees)
+  priorityFeeMode: PriorityFeeMode;
+
+  // Priority fee in microlamports per compute unit (if usePriorityFee is true); the fallback in dynamic mode
   priorityFeeMicroLamports: number;
+
+  // Percentile of recent prioritization fees on the touched accounts to pay in dynamic mode (0-100)
+  priorityFeePercentile: number;
+
+  // Floor of the dynamic priority fee (in microlamports per compute unit)
+  priorityFeeMinMicroLamports: number;
+
+  // Cap of the priority fee, including retry step-ups (in microlamports per compute unit)
+  priorityFeeMaxMicroLamports: number;
+
+  // Increase of the priority fee for each retry after a dropped transaction (in percent)
+  priorityFeeRetryStepPct: number;
+
+  // Transactions to try when the previous one expired before landing (fresh blockhash each time)
+  txMaxAttempts: number;
+
+  // How often unconfirmed transactions are rebroadcast and checked (in milliseconds)
+  txRebroadcastIntervalMs: number;
+
+  // How claim transactions are submitted: 'rpc', 'fanout' (send-only RPCs) or 'bundle' (Jito-style bundle)
+  claimSubmission: SubmissionBackendKind;
+
+  // How buy transactions are submitted: 'rpc', 'fanout' (send-only RPCs) or 'bundle' (Jito-style bundle)
+  buySubmission: SubmissionBackendKind;
+
+  // Send-only RPC endpoints transactions are fanned out to with the 'fanout' backend
+  sendOnlyRpcEndpoints: string[];
+
+  // Bundle endpoint (JSON-RPC `sendBundle`) used by the 'bundle' backend, or null where the cluster has none
+  bundleEndpoint: string | null;
+
+  // Tip paid with each bundle (in lamports)
+  bundleTipLamports: number;
+
+  // Accounts bundle tips are paid to, one picked at random per bundle
+  bundleTipAccounts: string[];
+
+  // Dry-run mode: build and sign claim/buy transactions but only simulate them
+  dryRun: boolean;
+
+  // How buybacks are executed: 'market' (one buy) or 'twap' (sliced over a time window)
+  executionMode: ExecutionMode;
+
+  // Number of slices a TWAP buyback is split into
+  twapSlices: number;
+
+  // Time window a TWAP buyback is spread over (in minutes, must be shorter than the check interval)
+  twapWindowMinutes: number;
+
+  // Maximum randomization of TWAP slice sizes and intervals (in percent, 0-100)
+  twapJitterPct: number;
+
+  // How claimed fees are split before the buyback, applied in order; the rest is bought back
+  feeAllocations: FeeAllocationRule[];
+
+  // What to do with repurchased tokens: 'none' (keep), 'burn' or 'transfer' (to lockAddress)
+  postBuybackAction: PostBuybackAction;
+
+  // Lock/treasury address that receives repurchased tokens when postBuybackAction is 'transfer'
+  lockAddress: string | null;
+
+  // How buy transactions are built: 'pumpportal' (hosted API) or 'native' (built locally)
+  buyMethod: BuyMethod;
+
+  // What to do once the token graduates: 'pumpswap' (continue on the migrated pool) or 'stop'
+  graduationRoute: GraduationRoute;
+
+  // How often to poll the bonding curve and migration status (in seconds)
+  graduationPollSeconds: number;
+
+  // Path of the append-only JSONL ledger recording every buyback cycle
+  ledgerPath: string;
+
+  // Port of the metrics and health check HTTP server (0 = disabled)
+  metricsPort: number;
+
+  // Host/interface the metrics server binds to
+  metricsHost: string;
+
+  // Check intervals without a completed cycle before health checks fail
+  healthMaxMissedIntervals: number;
+
+  // Port of the control API (0 = disabled)
+  controlPort: number;
+
+  // Host/interface the control API binds to (loopback by default)
+  controlHost: string;
+
+  // Bearer token required by the control API (required when it is enabled)
+  controlToken: string | null;
+
+  // Path of the append-only JSONL audit log of operator actions
+  auditLogPath: string;
+
+  // Telegram, Discord and webhook notification sinks, each with the events it receives
+  notificationSinks: NotificationSinkConfig[];
+
+  // How long notifications are collected into one message per sink (in seconds, 0 = send right away)
+  notifyBatchSeconds: number;
+
+  // Maximum messages sent to each sink per minute; further notifications wait for the next batch
+  notifyMaxPerMinute: number;
+
+  // Consecutive cycles with a failed claim before a 'claim-failed' notification is sent
+  claimFailureAlertCount: number;
+
+  // Wallet balance below which a 'low-balance' notification is sent (in SOL, 0 = disabled)
+  lowBalanceAlertSol: number;
+
+  // Log output: 'text' (colored lines) or 'json' (one JSON object per line with structured fields)
+  logFormat: LogFormat;
+
+  // File log lines are also written to, or null for console only
+  logFile: string | null;
+
+  // Size at which the log file is rotated (in megabytes)
+  logMaxSizeMb: number;
+
+  // Rotated log files kept next to the log file
+  logMaxFiles: number;
+
+  // YAML/JSON config file the settings were read from (CONFIG_FILE), or null for environment only
+  configFile: string | null;
+
+  // Named settings profile in use (CONFIG_PROFILE, e.g. 'mainnet', 'devnet', 'dry-run'), or null for none
+  profile: string | null;
 }
 
 /**
- * Load and validate configuration from environment variables
+ * Supported buyback execution modes
+ */
+export type ExecutionMode = 'market' | 'twap';
+
+/**
+ * Supported log output formats
+ */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Supported ways of setting the priority fee
+ */
+export type PriorityFeeMode = 'fixed' | 'dynamic';
+
+/**
+ * Supported transaction signers
+ */
+export type SignerKind = 'keypair' | 'remote' | 'multisig';
+
+/**
+ * Supported transaction submission backends
+ */
+export type SubmissionBackendKind = 'rpc' | 'fanout' | 'bundle';
+
+/**
+ * Events that can be sent to notification sinks
+ * - startup: the bot started, or failed to start after loading its configuration
+ * - buyback: a buyback landed
+ * - claim-failed: claims failed in several consecutive cycles
+ * - low-balance: the wallet balance dropped below the alert threshold
+ * - graduated: a token graduated from the bonding curve or its PumpSwap pool went live
+ */
+export type NotificationEvent = 'startup' | 'buyback' | 'claim-failed' | 'low-balance' | 'graduated';
+
+/**
+ * All notification events, the default selection of every sink
+ */
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  'startup',
+  'buyback',
+  'claim-failed',
+  'low-balance',
+  'graduated',
+];
+
+/**
+ * Supported notification sinks
+ */
+export type NotificationSinkKind = 'telegram' | 'discord' | 'webhook';
+
+/**
+ * A notification sink and the events it receives
+ */
+export interface NotificationSinkConfig {
+  kind: NotificationSinkKind;
+  // URL notifications are posted to (for Telegram, the Bot API sendMessage URL including the bot token)
+  url: string;
+  // Telegram chat to send to (Telegram only)
+  chatId: string | null;
+  events: NotificationEvent[];
+}
+
+/**
+ * Buyback settings that can be overridden per token
+ */
+export type TokenSettings = Partial<
+  Pick<
+    BotConfig,
+    | 'minBuybackAmount'
+    | 'slippageBps'
+    | 'maxPriceImpactBps'
+    | 'maxSpotPriceSol'
+    | 'maDeviationBps'
+    | 'executionMode'
+    | 'twapSlices'
+    | 'twapWindowMinutes'
+    | 'postBuybackAction'
+    | 'lockAddress'
+    | 'buyMethod'
+  >
+>;
+
+/**
+ * A token to buy back with its share of the claimed fees
+ */
+export interface TokenConfig {
+  mint: string;
+  // Relative share of claimed fees when they are attributed by weight
+  weight: number;
+  // Settings overriding the global ones for this token
+  settings: TokenSettings;
+}
+
+/**
+ * Supported ways of attributing claimed fees to tokens
+ */
+export type FeeAttribution = 'weight' | 'trades';
+
+/**
+ * Rule assigning part of each claim to a destination instead of the buyback
+ */
+export interface FeeAllocationRule {
+  // Name used in logs and the ledger (e.g. 'dev', 'gas')
+  name: string;
+  // 'percent' of the claimed total, or a 'fixed' amount in SOL per claim
+  kind: 'percent' | 'fixed';
+  value: number;
+  // Address the share is sent to, or null to keep it in the wallet (e.g. as a gas reserve)
+  destination: string | null;
+}
+
+/**
+ * Supported actions for repurchased tokens
+ */
+export type PostBuybackAction = 'none' | 'burn' | 'transfer';
+
+/**
+ * Supported ways of building buy transactions
+ */
+export type BuyMethod = 'pumpportal' | 'native';
+
+/**
+ * Supported post-graduation routes
+ */
+export type GraduationRoute = 'pumpswap' | 'stop';
+
+/**
+ * Parse the events selected for a notification sink: a list of events, or 'all' (the default)
+ */
+function parseNotificationEvents(name: string, values: string[]): NotificationEvent[] {
+  const entries = values.map((value) => value.toLowerCase());
+  if (entries.length === 0 || (entries.length === 1 && entries[0] === 'all')) {
+    return [...NOTIFICATION_EVENTS];
+  }
+  for (const entry of entries) {
+    if (!(NOTIFICATION_EVENTS as string[]).includes(entry)) {
+      throw new Error(`Invalid ${name} entry "${entry}" - must be "all" or one of ${NOTIFICATION_EVENTS.join(', ')}`);
+    }
+  }
+  return entries as NotificationEvent[];
+}
+
+/**
+ * Build the notification sinks configured through TELEGRAM_*, DISCORD_* and NOTIFY_WEBHOOK_*
+ */
+function parseNotificationSinks(settings: SettingsReader): NotificationSinkConfig[] {
+  const sinks: NotificationSinkConfig[] = [];
+
+  const telegramToken = settings.string('TELEGRAM_BOT_TOKEN');
+  const telegramChatId = settings.string('TELEGRAM_CHAT_ID');
+  if (telegramToken || telegramChatId) {
+    if (!telegramToken || !telegramChatId) {
+      throw new Error('TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID must be set together');
+    }
+    sinks.push({
+      kind: 'telegram',
+      url: `https://api.telegram.org/bot${telegramToken}/sendMessage`,
+      chatId: telegramChatId,
+      events: parseNotificationEvents('TELEGRAM_EVENTS', settings.list('TELEGRAM_EVENTS')),
+    });
+  }
+
+  const webhooks = [
+    { kind: 'discord', url: settings.string('DISCORD_WEBHOOK_URL'), name: 'DISCORD' },
+    { kind: 'webhook', url: settings.string('NOTIFY_WEBHOOK_URL'), name: 'NOTIFY_WEBHOOK' },
+  ] as const;
+  for (const webhook of webhooks) {
+    if (!webhook.url) {
+      continue;
+    }
+    if (!/^https?:\/\//.test(webhook.url)) {
+      throw new Error(`Invalid ${webhook.name}_URL - must be an http(s) URL`);
+    }
+    sinks.push({
+      kind: webhook.kind,
+      url: webhook.url,
+      chatId: null,
+      events: parseNotificationEvents(`${webhook.name}_EVENTS`, settings.list(`${webhook.name}_EVENTS`)),
+    });
+  }
+
+  return sinks;
+}
+
+/**
+ * Parse the `TOKENS` list: an array of `{ "mint": "...", "weight": 1, ...settings }` objects
+ * (JSON in the environment, a list in the config file)
+ * Falls back to the single TOKEN_MINT_ADDRESS when it is not set
+ */
+function parseTokens(entries: unknown, fallbackMint: string | null): TokenConfig[] {
+  if (entries === null || entries === undefined) {
+    return fallbackMint ? [{ mint: fallbackMint, weight: 1, settings: {} }] : [];
+  }
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('Invalid TOKENS - must be a non-empty array');
+  }
+
+  // Overrides are checked against the ranges of the global settings they replace
+  const numberSettings = {
+    minBuybackAmount: 'MIN_BUYBACK_AMOUNT',
+    slippageBps: 'SLIPPAGE_BPS',
+    maxPriceImpactBps: 'MAX_PRICE_IMPACT_BPS',
+    maxSpotPriceSol: 'MAX_SPOT_PRICE_SOL',
+    maDeviationBps: 'MA_DEVIATION_BPS',
+    twapSlices: 'TWAP_SLICES',
+    twapWindowMinutes: 'TWAP_WINDOW_MINUTES',
+  } as const;
+  const enumSettings = {
+    executionMode: ['market', 'twap'],
+    postBuybackAction: ['none', 'burn', 'transfer'],
+    buyMethod: ['pumpportal', 'native'],
+  } as const;
+
+  const tokens: TokenConfig[] = [];
+  for (const entry of entries as Record<string, unknown>[]) {
+    const mint = entry?.mint;
+    if (typeof mint !== 'string') {
+      throw new Error('Invalid TOKENS entry - every token needs a "mint"');
+    }
+    try {
+      new PublicKey(mint);
+    } catch {
+      throw new Error(`Invalid TOKENS mint "${mint}" - must be a valid Solana public key`);
+    }
+    if (tokens.some((token) => token.mint === mint)) {
+      throw new Error(`Duplicate TOKENS mint "${mint}"`);
+    }
+
+    const weight = entry.weight ?? 1;
+    if (typeof weight !== 'number' || !(weight >= 0)) {
+      throw new Error(`Invalid TOKENS weight for ${mint} - must be a non-negative number`);
+    }
+
+    const settings: Record<string, unknown> = {};
+    for (const [key, name] of Object.entries(numberSettings)) {
+      if (entry[key] !== undefined) {
+        if (typeof entry[key] !== 'number') {
+          throw new Error(`Invalid TOKENS ${key} for ${mint} - must be a number`);
+        }
+        settings[key] = checkNumber(name, entry[key], `TOKENS ${key} for ${mint}`);
+      }
+    }
+    for (const [key, allowed] of Object.entries(enumSettings)) {
+      if (entry[key] !== undefined) {
+        if (!(allowed as readonly unknown[]).includes(entry[key])) {
+          throw new Error(`Invalid TOKENS ${key} for ${mint} - must be one of ${allowed.join(', ')}`);
+        }
+        settings[key] = entry[key];
+      }
+    }
+    if (entry.lockAddress !== undefined) {
+      try {
+        new PublicKey(entry.lockAddress as string);
+      } catch {
+        throw new Error(`Invalid TOKENS lockAddress for ${mint} - must be a valid Solana public key`);
+      }
+      settings.lockAddress = entry.lockAddress;
+    }
+
+    tokens.push({ mint, weight, settings: settings as TokenSettings });
+  }
+
+  if (tokens.every((token) => token.weight === 0)) {
+    throw new Error('Invalid TOKENS - at least one token needs a weight above 0');
+  }
+  return tokens;
+}
+
+/**
+ * Get the effective configuration of a token: the global config with its overrides applied
+ */
+export function getTokenConfig(config: BotConfig, token: TokenConfig): BotConfig {
+  return { ...config, ...token.settings, tokenMintAddress: token.mint };
+}
+
+/**
+ * Parse fee allocation rules in the form `name:amount[:destination]`
+ * The amount is a percentage of the claim (e.g. `20%`) or a fixed amount in SOL (e.g. `0.05`)
+ */
+function parseFeeAllocations(entries: string[]): FeeAllocationRule[] {
+  const rules: FeeAllocationRule[] = [];
+  for (const entry of entries) {
+    const [name, amount, destination] = entry.split(':').map((part) => part.trim());
+    if (!name || !amount) {
+      throw new Error(`Invalid FEE_ALLOCATIONS entry "${entry.trim()}" - expected name:amount[:destination]`);
+    }
+    if (rules.some((rule) => rule.name === name)) {
+      throw new Error(`Duplicate FEE_ALLOCATIONS name "${name}"`);
+    }
+
+    const kind = amount.endsWith('%') ? 'percent' : 'fixed';
+    const number = Number(kind === 'percent' ? amount.slice(0, -1) : amount);
+    if (!isFinite(number) || number <= 0 || (kind === 'percent' && number > 100)) {
+      throw new Error(`Invalid FEE_ALLOCATIONS amount "${amount}" for "${name}"`);
+    }
+
+    if (destination) {
+      try {
+        new PublicKey(destination);
+      } catch {
+        throw new Error(`Invalid FEE_ALLOCATIONS destination for "${name}" - must be a valid Solana public key`);
+      }
+    }
+
+    rules.push({ name, kind, value: number, destination: destination || null });
+  }
+
+  const totalPercent = rules
+    .filter((rule) => rule.kind === 'percent')
+    .reduce((sum, rule) => sum + rule.value, 0);
+  if (totalPercent > 100) {
+    throw new Error('FEE_ALLOCATIONS percentages add up to more than 100%');
+  }
+
+  return rules;
+}
+
+/**
+ * Build the cron expression running a task every `minutes` minutes
+ * Cron steps restart every hour (or day), so only intervals that divide an hour, or whole hours
+ * that divide a day, repeat evenly; a 90-minute step is not valid cron at all.
+ */
+export function buildCronExpression(minutes: number): string {
+  if (Number.isInteger(minutes) && minutes >= 1 && minutes <= 60 && 60 % minutes === 0) {
+    return minutes === 60 ? '0 * * * *' : `*/${minutes} * * * *`;
+  }
+  const hours = minutes / 60;
+  if (Number.isInteger(hours) && hours >= 1 && hours <= 24 && 24 % hours === 0) {
+    return hours === 24 ? '0 0 * * *' : `0 */${hours} * * *`;
+  }
+  throw new Error(
+    `Invalid CHECK_INTERVAL_MINUTES ${minutes} - must divide an hour (e.g. 5, 15, 30) or be whole hours dividing a day (e.g. 120, 360)`
+  );
+}
+
+/**
+ * Load and validate configuration from environment variables and the optional config file
+ * Environment variables take precedence over the selected profile and the config file (see settings.ts)
  */
 export function loadConfig(): BotConfig {
-  const requiredEnvVars = [
-    'SOLANA_RPC_ENDPOINT',
-    'WALLET_PRIVATE_KEY',
-    'TOKEN_MINT_ADDRESS'
+  const settings = new SettingsReader();
+  const tokenList = settings.json('TOKENS');
+
+  const keystorePath = settings.string('WALLET_KEYSTORE');
+  if (keystorePath && settings.has('WALLET_PRIVATE_KEY')) {
+    throw new Error('Set either WALLET_PRIVATE_KEY or WALLET_KEYSTORE, not both');
+  }
+  if (settings.has('WALLET_KEYSTORE_PASSPHRASE') && settings.has('WALLET_KEYSTORE_PASSPHRASE_FILE')) {
+    throw new Error('Set either WALLET_KEYSTORE_PASSPHRASE or WALLET_KEYSTORE_PASSPHRASE_FILE, not both');
+  }
+
+  const signer = settings.choice<SignerKind>('SIGNER');
+  if (signer === 'remote' && (keystorePath || settings.has('WALLET_PRIVATE_KEY'))) {
+    throw new Error('WALLET_PRIVATE_KEY and WALLET_KEYSTORE must not be set with SIGNER=remote - the key stays with the signer');
+  }
+
+  const requiredSettings = [
+    // An encrypted keystore can replace the plain private key; a remote signer needs neither
+    ...(keystorePath || signer === 'remote' ? [] : ['WALLET_PRIVATE_KEY']),
+    ...(signer === 'remote' ? ['REMOTE_SIGNER_URL', 'REMOTE_SIGNER_TOKEN'] : []),
+    ...(signer === 'multisig' ? ['MULTISIG_ADDRESS'] : []),
+    // A token list can replace the single mint address
+    ...(tokenList !== null ? [] : ['TOKEN_MINT_ADDRESS']),
   ];
 
-  // Check for required environment variables
-  for (const envVar of requiredEnvVars) {
-    if (!process.env[envVar]) {
-      throw new Error(`Missing required environment variable: ${envVar}`);
+  // Check for required settings
+  for (const name of requiredSettings) {
+    if (!settings.has(name)) {
+      const inFile = settings.filePath && name !== 'WALLET_PRIVATE_KEY';
+      throw new Error(
+        `Missing required environment variable: ${name}` + (inFile ? ` (or "${toFileKey(name)}" in the config file)` : '')
+      );
     }
   }
 
   // Validate token mint address
-  try {
-    new PublicKey(process.env.TOKEN_MINT_ADDRESS!);
-  } catch {
-    throw new Error('Invalid TOKEN_MINT_ADDRESS - must be a valid Solana public key');
+  const tokenMintAddress = settings.string('TOKEN_MINT_ADDRESS');
+  if (tokenList === null) {
+    try {
+      new PublicKey(tokenMintAddress!);
+    } catch {
+      throw new Error('Invalid TOKEN_MINT_ADDRESS - must be a valid Solana public key');
+    }
+  }
+  const tokens = parseTokens(tokenList, tokenMintAddress);
+
+  const feeAttribution = settings.choice<FeeAttribution>('FEE_ATTRIBUTION');
+  const buyMethod = settings.choice<BuyMethod>('BUY_METHOD');
+  const executionMode = settings.choice<ExecutionMode>('EXECUTION_MODE');
+  const priorityFeeMode = settings.choice<PriorityFeeMode>('PRIORITY_FEE_MODE');
+
+  const priorityFeeMinMicroLamports = settings.number('PRIORITY_FEE_MIN_MICRO_LAMPORTS');
+  const priorityFeeMaxMicroLamports = settings.number('PRIORITY_FEE_MAX_MICRO_LAMPORTS');
+  if (priorityFeeMinMicroLamports > priorityFeeMaxMicroLamports) {
+    throw new Error('PRIORITY_FEE_MIN_MICRO_LAMPORTS must not exceed PRIORITY_FEE_MAX_MICRO_LAMPORTS');
+  }
+
+  const network = readClusterConfig(settings);
+  const clusterDefaults = CLUSTER_DEFAULTS[network.cluster];
+  const feeApiCrossCheck = settings.boolean('FEE_API_CROSS_CHECK');
+  if (feeApiCrossCheck && !network.feeApiUrl) {
+    throw new Error(`PUMPFUN_FEE_API_URL is required for FEE_API_CROSS_CHECK on ${network.cluster}`);
+  }
+
+  const claimSubmission = settings.choice<SubmissionBackendKind>('CLAIM_SUBMISSION');
+  const buySubmission = settings.choice<SubmissionBackendKind>('BUY_SUBMISSION');
+  const sendOnlyRpcEndpoints = settings.list('SEND_ONLY_RPC_ENDPOINTS');
+  if ((claimSubmission === 'fanout' || buySubmission === 'fanout') && sendOnlyRpcEndpoints.length === 0) {
+    throw new Error('SEND_ONLY_RPC_ENDPOINTS is required for the "fanout" submission backend');
+  }
+
+  const bundleEndpoint = settings.string('BUNDLE_ENDPOINT') ?? clusterDefaults.bundleEndpoint;
+  if ((claimSubmission === 'bundle' || buySubmission === 'bundle') && !bundleEndpoint) {
+    throw new Error(`BUNDLE_ENDPOINT is required for the "bundle" submission backend on ${network.cluster}`);
+  }
+
+  if (signer === 'multisig' && (claimSubmission === 'bundle' || buySubmission === 'bundle')) {
+    throw new Error('The "bundle" submission backend cannot be used with SIGNER=multisig');
+  }
+
+  const remoteSignerUrl = settings.string('REMOTE_SIGNER_URL');
+  if (remoteSignerUrl && !/^(https?:\/\/|unix:\/)/.test(remoteSignerUrl)) {
+    throw new Error('Invalid REMOTE_SIGNER_URL - must be an http(s):// URL or unix:/path/to/socket');
+  }
+  const remoteSignerToken = settings.string('REMOTE_SIGNER_TOKEN');
+  if (signer === 'remote' && remoteSignerToken!.length < 16) {
+    throw new Error('REMOTE_SIGNER_TOKEN must be at least 16 characters');
+  }
+  for (const name of ['REMOTE_SIGNER_PUBLIC_KEY', 'MULTISIG_ADDRESS', 'MULTISIG_PROGRAM_ID']) {
+    const address = settings.string(name);
+    if (address) {
+      try {
+        new PublicKey(address);
+      } catch {
+        throw new Error(`Invalid ${name} - must be a valid Solana public key`);
+      }
+    }
+  }
+
+  const bundleTipAccounts = settings.list('BUNDLE_TIP_ACCOUNTS');
+  for (const address of bundleTipAccounts) {
+    try {
+      new PublicKey(address);
+    } catch {
+      throw new Error(`Invalid BUNDLE_TIP_ACCOUNTS entry "${address}" - must be a valid Solana public key`);
+    }
+  }
+  if (bundleTipAccounts.length === 0) {
+    throw new Error('BUNDLE_TIP_ACCOUNTS must list at least one account');
+  }
+
+  const logFormat = settings.choice<LogFormat>('LOG_FORMAT');
+
+  const controlPort = settings.number('CONTROL_PORT');
+  const controlToken = settings.string('CONTROL_API_TOKEN');
+  if (controlPort > 0 && (!controlToken || controlToken.length < 16)) {
+    throw new Error('CONTROL_API_TOKEN of at least 16 characters is required when CONTROL_PORT is set');
+  }
+
+  const checkIntervalMinutes = settings.number('CHECK_INTERVAL_MINUTES');
+  buildCronExpression(checkIntervalMinutes);
+  const twapWindowMinutes = settings.number('TWAP_WINDOW_MINUTES');
+  if (executionMode === 'twap' && twapWindowMinutes >= checkIntervalMinutes) {
+    throw new Error('TWAP_WINDOW_MINUTES must be shorter than CHECK_INTERVAL_MINUTES');
+  }
+
+  const postBuybackAction = settings.choice<PostBuybackAction>('POST_BUYBACK_ACTION');
+  const lockAddress = settings.string('LOCK_ADDRESS');
+  if (postBuybackAction === 'transfer' && !lockAddress) {
+    throw new Error('LOCK_ADDRESS is required when POST_BUYBACK_ACTION is "transfer"');
+  }
+  if (lockAddress) {
+    try {
+      new PublicKey(lockAddress);
+    } catch {
+      throw new Error('Invalid LOCK_ADDRESS - must be a valid Solana public key');
+    }
+  }
+
+  const graduationRoute = settings.choice<GraduationRoute>('GRADUATION_ROUTE');
+
+  // Per-token overrides must still make a valid configuration
+  for (const token of tokens) {
+    const tokenSettings = token.settings;
+    if (
+      (tokenSettings.postBuybackAction ?? postBuybackAction) === 'transfer' &&
+      !(tokenSettings.lockAddress ?? lockAddress)
+    ) {
+      throw new Error(`A lock address is required for ${token.mint} since its post-buyback action is "transfer"`);
+    }
+    if ((tokenSettings.buyMethod ?? buyMethod) === 'pumpportal' && !network.pumpPortalUrl) {
+      throw new Error(
+        `PUMPPORTAL_API_URL is required for the "pumpportal" buy method of ${token.mint} on ${network.cluster} ` +
+          '- use BUY_METHOD=native'
+      );
+    }
+  }
+
+  // Tokens are bought back one after another, so all their TWAP windows must fit in one check interval
+  const totalTwapMinutes = tokens.reduce(
+    (sum, token) =>
+      (token.settings.executionMode ?? executionMode) === 'twap'
+        ? sum + (token.settings.twapWindowMinutes ?? twapWindowMinutes)
+        : sum,
+    0
+  );
+  if (totalTwapMinutes >= checkIntervalMinutes) {
+    throw new Error(
+      `The TWAP windows of all tokens add up to ${totalTwapMinutes} minutes, ` +
+        `which must be shorter than CHECK_INTERVAL_MINUTES (${checkIntervalMinutes})`
+    );
   }
 
   return {
-    rpcEndpoint: process.env.SOLANA_RPC_ENDPOINT!,
-    privateKey: process.env.WALLET_PRIVATE_KEY!,
-    tokenMintAddress: process.env.TOKEN_MINT_ADDRESS!,
-    minBuybackAmount: parseFloat(process.env.MIN_BUYBACK_AMOUNT || '0.01'),
-    checkIntervalMinutes: parseInt(process.env.CHECK_INTERVAL_MINUTES || '5', 10),
-    slippageBps: parseInt(process.env.SLIPPAGE_BPS || '500', 10), // 5% default
-    usePriorityFee: process.env.USE_PRIORITY_FEE === 'true',
-    priorityFeeMicroLamports: parseInt(process.env.PRIORITY_FEE_MICRO_LAMPORTS || '50000', 10),
+    network,
+    rpcEndpoint: settings.string('SOLANA_RPC_ENDPOINT') ?? clusterDefaults.rpcEndpoint,
+    privateKey: settings.string('WALLET_PRIVATE_KEY'),
+    keystorePath,
+    keystorePassphrase: settings.string('WALLET_KEYSTORE_PASSPHRASE'),
+    keystorePassphraseFile: settings.string('WALLET_KEYSTORE_PASSPHRASE_FILE'),
+    signer,
+    remoteSignerUrl,
+    remoteSignerToken,
+    remoteSignerPublicKey: settings.string('REMOTE_SIGNER_PUBLIC_KEY'),
+    multisigAddress: settings.string('MULTISIG_ADDRESS'),
+    multisigVaultIndex: settings.number('MULTISIG_VAULT_INDEX'),
+    multisigProgramId: settings.string('MULTISIG_PROGRAM_ID')!,
+    multisigApprovalTimeoutMinutes: settings.number('MULTISIG_APPROVAL_TIMEOUT_MINUTES'),
+    tokenMintAddress: tokens[0].mint,
+    tokens,
+    feeAttribution,
+    minBuybackAmount: settings.number('MIN_BUYBACK_AMOUNT'),
+    minClaimAmount: settings.number('MIN_CLAIM_AMOUNT'),
+    feeApiCrossCheck,
+    checkIntervalMinutes,
+    slippageBps: settings.number('SLIPPAGE_BPS'),
+    maxPriceImpactBps: settings.number('MAX_PRICE_IMPACT_BPS'),
+    maxSpotPriceSol: settings.number('MAX_SPOT_PRICE_SOL'),
+    maDeviationBps: settings.number('MA_DEVIATION_BPS'),
+    maWindowSamples: settings.number('MA_WINDOW_SAMPLES'),
+    usePriorityFee: settings.boolean('USE_PRIORITY_FEE'),
+    priorityFeeMode,
+    priorityFeeMicroLamports: settings.number('PRIORITY_FEE_MICRO_LAMPORTS'),
+    priorityFeePercentile: settings.number('PRIORITY_FEE_PERCENTILE'),
+    priorityFeeMinMicroLamports,
+    priorityFeeMaxMicroLamports,
+    priorityFeeRetryStepPct: settings.number('PRIORITY_FEE_RETRY_STEP_PCT'),
+    txMaxAttempts: settings.number('TX_MAX_ATTEMPTS'),
+    txRebroadcastIntervalMs: settings.number('TX_REBROADCAST_INTERVAL_MS'),
+    claimSubmission,
+    buySubmission,
+    sendOnlyRpcEndpoints,
+    bundleEndpoint,
+    bundleTipLamports: settings.number('BUNDLE_TIP_LAMPORTS'),
+    bundleTipAccounts,
+    dryRun: settings.boolean('DRY_RUN'),
+    executionMode,
+    twapSlices: settings.number('TWAP_SLICES'),
+    twapWindowMinutes,
+    twapJitterPct: settings.number('TWAP_JITTER_PCT'),
+    feeAllocations: parseFeeAllocations(settings.list('FEE_ALLOCATIONS')),
+    postBuybackAction,
+    lockAddress,
+    buyMethod,
+    graduationRoute,
+    graduationPollSeconds: settings.number('GRADUATION_POLL_SECONDS'),
+    ledgerPath: settings.string('LEDGER_PATH')!,
+    metricsPort: settings.number('METRICS_PORT'),
+    metricsHost: settings.string('METRICS_HOST')!,
+    healthMaxMissedIntervals: settings.number('HEALTH_MAX_MISSED_INTERVALS'),
+    controlPort,
+    controlHost: settings.string('CONTROL_HOST')!,
+    controlToken,
+    auditLogPath: settings.string('AUDIT_LOG_PATH')!,
+    notificationSinks: parseNotificationSinks(settings),
+    notifyBatchSeconds: settings.number('NOTIFY_BATCH_SECONDS'),
+    notifyMaxPerMinute: settings.number('NOTIFY_MAX_PER_MINUTE'),
+    claimFailureAlertCount: settings.number('CLAIM_FAILURE_ALERT_COUNT'),
+    lowBalanceAlertSol: settings.number('LOW_BALANCE_ALERT_SOL'),
+    logFormat,
+    logFile: settings.string('LOG_FILE'),
+    logMaxSizeMb: settings.number('LOG_MAX_SIZE_MB'),
+    logMaxFiles: settings.number('LOG_MAX_FILES'),
+    configFile: settings.filePath,
+    profile: settings.profile,
   };
 }
 
 /**
- * Pump.fun program addresses and constants
+ * Pump.fun seeds and constants; program and account addresses depend on the cluster (see cluster.ts)
  */
 export const PUMPFUN_CONSTANTS = {
-  // Pump.fun program ID on Solana mainnet
-  PROGRAM_ID: new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P'),
-
-  // Pump.fun fee account where trading fees are collected
-  FEE_ACCOUNT: new PublicKey('CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM'),
-
-  // Pump.fun global state account
-  GLOBAL_STATE: new PublicKey('4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf'),
-
   // Bonding curve seed for PDA derivation
   BONDING_CURVE_SEED: 'bonding-curve',
 
   // Creator vault seed for PDA derivation
   CREATOR_VAULT_SEED: 'creator-vault',
+
+  // Anchor event authority seed for PDA derivation
+  EVENT_AUTHORITY_SEED: '__event_authority',
+
+  // Volume accumulator seeds for PDA derivation
+  GLOBAL_VOLUME_ACCUMULATOR_SEED: 'global_volume_accumulator',
+  USER_VOLUME_ACCUMULATOR_SEED: 'user_volume_accumulator',
+
+  // Fee config seed (derived under the pump.fun fee program)
+  FEE_CONFIG_SEED: 'fee_config',
+
+  // Anchor discriminator of the bonding curve `buy` instruction
+  BUY_DISCRIMINATOR: Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]),
+
+  // Anchor discriminator of the `collect_creator_fee` instruction of PumpPortal's claim transactions
+  COLLECT_CREATOR_FEE_DISCRIMINATOR: Buffer.from([20, 22, 86, 123, 198, 28, 219, 132]),
+
+  // Anchor discriminator of the `TradeEvent` emitted on every buy and sell
+  TRADE_EVENT_DISCRIMINATOR: Buffer.from([189, 219, 127, 211, 78, 230, 97, 238]),
+
+  // Prefix of Anchor self-CPI event instructions (emit_cpi)
+  EVENT_IX_TAG: Buffer.from([228, 69, 165, 46, 81, 203, 154, 29]),
+
+  // Decimals of tokens launched on pump.fun
+  TOKEN_DECIMALS: 6,
+
+  // Total trading fee charged on top of the curve price (protocol + creator), in basis points
+  TRADE_FEE_BPS: 125,
+};
+
+/**
+ * PumpSwap AMM seeds and constants
+ * Tokens that complete the bonding curve are migrated to a canonical PumpSwap pool
+ */
+export const PUMPSWAP_CONSTANTS = {
+  // Pool seed for PDA derivation
+  POOL_SEED: 'pool',
+
+  // Pool authority seed (derived under the pump.fun program) for the canonical migrated pool
+  POOL_AUTHORITY_SEED: 'pool-authority',
+
+  // Index of the canonical pool created on migration
+  CANONICAL_POOL_INDEX: 0,
+
+  // Global config seed for PDA derivation
+  GLOBAL_CONFIG_SEED: 'global_config',
+
+  // Coin creator vault authority seed for PDA derivation
+  CREATOR_VAULT_SEED: 'creator_vault',
+
+  // Anchor event authority seed for PDA derivation
+  EVENT_AUTHORITY_SEED: '__event_authority',
+
+  // Volume accumulator seeds for PDA derivation
+  GLOBAL_VOLUME_ACCUMULATOR_SEED: 'global_volume_accumulator',
+  USER_VOLUME_ACCUMULATOR_SEED: 'user_volume_accumulator',
+
+  // Anchor discriminators of the instructions used by the bot
+  BUY_DISCRIMINATOR: Buffer.from([102, 6, 61, 18, 1, 218, 235, 234]),
+  COLLECT_COIN_CREATOR_FEE_DISCRIMINATOR: Buffer.from([160, 57, 89, 42, 181, 139, 43, 66]),
 };
@@ -0,0 +1,101 @@
+/**
+ * Print buyback cycles from the ledger
+ *
+ * Usage: npm run history -- [--from <date>] [--to <date>]
+ * (also available as `npm run cli -- history`)
+ */
+
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { loadConfig } from './config';
+import { CycleLedger, CycleRecord } from './utils/ledger';
+import { logger } from './utils/logger';
+
+/**
+ * Read a `--name <value>` option as a date
+ */
+function parseDateArg(args: string[], name: string): Date | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) {
+    return undefined;
+  }
+  const date = new Date(args[index + 1]);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date for ${name}: ${args[index + 1]}`);
+  }
+  return date;
+}
+
+/**
+ * Print ledger records followed by their totals
+ */
+export function printHistory(records: CycleRecord[]): void {
+  for (const record of records) {
+    logger.info(
+      `${record.startedAt} ${record.simulated ? '[SIMULATED] ' : ''}` +
+        (record.manual ? `[MANUAL ${record.manual.toUpperCase()}] ` : '') +
+        `${record.status} claimed=${(record.claimedLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL ` +
+        (record.claimFailed ? 'claim=failed ' : '') +
+        `spent=${(record.solSpentLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL ` +
+        `tokens=${record.tokensReceived ?? '-'}` +
+        (record.tokensBurned ? ` burned=${record.tokensBurned}` : '') +
+        (record.tokensLocked ? ` locked=${record.tokensLocked}` : '') +
+        (record.failureReason ? ` reason="${record.failureReason}"` : '')
+    );
+    for (const token of record.tokens ?? []) {
+      logger.info(
+        `    ${token.mint}: ${token.status} attributed=${(token.attributedLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL ` +
+          `spent=${(token.solSpentLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL tokens=${token.tokensReceived ?? '-'}` +
+          (token.tokensBurned ? ` burned=${token.tokensBurned}` : '') +
+          (token.tokensLocked ? ` locked=${token.tokensLocked}` : '')
+      );
+    }
+    for (const allocation of record.allocations ?? []) {
+      const status = allocation.destination === null ? 'kept' : allocation.signature ? 'sent' : 'failed';
+      logger.info(
+        `    ${allocation.retry ? 'retry ' : ''}${allocation.name}: ${(allocation.lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL ${status}` +
+          (allocation.signature ? ` ${allocation.signature}` : '')
+      );
+    }
+  }
+
+  const totals = CycleLedger.summarize(records);
+  logger.separator();
+  logger.info(`Cycles: ${totals.cycles}`);
+  logger.info(`Total SOL claimed: ${(totals.totalClaimedLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
+  for (const [name, lamports] of Object.entries(totals.allocatedLamports)) {
+    logger.info(`Total allocated to "${name}": ${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
+  }
+  if (Object.keys(totals.allocatedLamports).length > 0) {
+    logger.info(`Total transferred to allocations: ${(totals.totalTransferredLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
+  }
+  logger.info(`Total SOL spent: ${(totals.totalSpentLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
+  logger.info(`Total network fees: ${(totals.totalNetworkFeeLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`);
+  logger.info(`Total tokens received: ${totals.totalTokensReceived}`);
+  logger.info(`Total tokens burned: ${totals.totalTokensBurned}`);
+  logger.info(`Total tokens locked: ${totals.totalTokensLocked}`);
+  for (const [mint, mintTotals] of Object.entries(totals.byMint)) {
+    logger.info(
+      `  ${mint}: attributed ${(mintTotals.attributedLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL, ` +
+        `spent ${(mintTotals.spentLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL, ` +
+        `received ${mintTotals.tokensReceived}, burned ${mintTotals.tokensBurned}, locked ${mintTotals.tokensLocked}`
+    );
+  }
+  logger.info(`Successful buybacks: ${totals.successfulBuybacks}`);
+  logger.info(`Failed buybacks: ${totals.failedBuybacks}`);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const from = parseDateArg(args, '--from');
+  const to = parseDateArg(args, '--to');
+
+  const ledger = new CycleLedger(loadConfig().ledgerPath);
+  printHistory(await ledger.query(from, to));
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Failed to read ledger:', error);
+    process.exit(1);
+  });
+}
@@ -10,19 +10,34 @@
  */
 
 import cron from 'node-cron';
-import { loadConfig } from './config';
-import { WalletManager } from './utils/wallet';
-import { PumpFunService } from './services/pumpfun';
-import { BuybackService } from './services/buyback';
+import { PublicKey, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BotConfig, buildCronExpression, loadConfig } from './config';
+import {
+  BotContext,
+  applyConfigReload,
+  configureLogger,
+  createBotContext,
+  createLedgerLock,
+  restoreFromLedger,
+} from './bootstrap';
+import { GraduationWatcher } from './services/graduation';
+import { MetricsServer } from './services/metrics';
+import { ControlServer } from './services/control';
+import { Notifier } from './services/notifier';
 import { logger } from './utils/logger';
+import { AuditLog } from './utils/audit';
+import { CycleLedger, CycleRecord } from './utils/ledger';
 
-// Statistics tracking
+// Statistics tracking (rebuilt from the ledger at startup)
 interface BotStats {
   totalClaimed: number;
   totalBuybacks: number;
   successfulBuybacks: number;
   failedBuybacks: number;
+  tokensBurned: bigint;
+  tokensLocked: bigint;
   startTime: Date;
+  dryRun: boolean;
 }
 
 const stats: BotStats = {
@@ -30,7 +45,10 @@ const stats: BotStats = {
   totalBuybacks: 0,
   successfulBuybacks: 0,
   failedBuybacks: 0,
+  tokensBurned: 0n,
+  tokensLocked: 0n,
   startTime: new Date(),
+  dryRun: false,
 };
 
 /**
@@ -38,120 +56,314 @@ const stats: BotStats = {
  */
 function displayStats(): void {
   const uptime = Math.floor((Date.now() - stats.startTime.getTime()) / 1000 / 60);
-  logger.info('=== Bot Statistics ===');
+  logger.info(`=== Bot Statistics${stats.dryRun ? ' (including simulated cycles)' : ''} ===`);
   logger.info(`Uptime: ${uptime} minutes`);
   logger.info(`Total SOL claimed: ${stats.totalClaimed.toFixed(6)} SOL`);
   logger.info(`Total buyback attempts: ${stats.totalBuybacks}`);
   logger.info(`Successful buybacks: ${stats.successfulBuybacks}`);
   logger.info(`Failed buybacks: ${stats.failedBuybacks}`);
+  if (stats.tokensBurned > 0n) {
+    logger.info(`Tokens burned: ${stats.tokensBurned}`);
+  }
+  if (stats.tokensLocked > 0n) {
+    logger.info(`Tokens locked: ${stats.tokensLocked}`);
+  }
 }
 
 /**
- * Main entry point for the buyback bot
+ * Add cycle records to the running statistics
  */
-async function main(): Promise<void> {
-  logger.banner();
-  logger.info('Initializing Pump.fun Buyback Bot...');
+function addToStats(records: CycleRecord[]): void {
+  const totals = CycleLedger.summarize(records);
+  stats.totalClaimed += totals.totalClaimedLamports / LAMPORTS_PER_SOL;
+  stats.totalBuybacks += totals.totalBuybacks;
+  stats.successfulBuybacks += totals.successfulBuybacks;
+  stats.failedBuybacks += totals.failedBuybacks;
+  stats.tokensBurned += totals.totalTokensBurned;
+  stats.tokensLocked += totals.totalTokensLocked;
+}
 
-  // Load configuration
-  let config;
+/**
+ * Run the buyback bot until it is stopped
+ */
+export async function runDaemon(): Promise<void> {
+  // Load configuration, which also sets the log format and file
+  let config: BotConfig;
   try {
     config = loadConfig();
-    logger.success('Configuration loaded successfully');
+    configureLogger(config);
   } catch (error) {
     logger.error('Failed to load configuration:', error);
     process.exit(1);
   }
 
-  // Initialize wallet
-  let wallet;
+  logger.banner();
+  logger.info('Initializing Pump.fun Buyback Bot...');
+  logger.success('Configuration loaded successfully');
+
+  // Alerts to Telegram, Discord and webhooks; startup failures from here on are reported too
+  const notifier = new Notifier(config);
+  const abort = async (message: string, error: any): Promise<never> => {
+    logger.error(`${message}:`, error);
+    notifier.notify('startup', 'Bot failed to start', `${message}: ${error?.message || error}`);
+    await notifier.flush();
+    process.exit(1);
+  };
+
+  // Keep CLI claims and buys (and a second bot) off the ledger while the bot runs
+  try {
+    createLedgerLock(config).acquire();
+  } catch (error) {
+    return abort('Another bot or CLI command is using the cycle ledger', error);
+  }
+
+  // Initialize wallet and services
+  let context: BotContext;
   try {
-    wallet = new WalletManager(config);
-    const balance = await wallet.getBalance();
+    context = await createBotContext(config);
+    const balance = await context.wallet.getBalance();
     logger.success(`Wallet connected with ${balance.toFixed(6)} SOL`);
+    notifier.checkBalance(balance);
   } catch (error) {
-    logger.error('Failed to initialize wallet:', error);
-    process.exit(1);
+    return abort('Failed to initialize wallet', error);
   }
+  const { wallet, buybackService, runner } = context;
 
-  // Initialize services
-  const pumpfunService = new PumpFunService(wallet, config);
-  const buybackService = new BuybackService(wallet, config, pumpfunService);
+  // Rebuild statistics and the pending buyback balance from the cycle ledger
+  stats.dryRun = config.dryRun;
+  try {
+    addToStats(await restoreFromLedger(context));
+  } catch (error) {
+    return abort('Failed to read cycle ledger', error);
+  }
 
   // Display configuration
   logger.separator();
   logger.info('Configuration:');
-  logger.info(`  Token Mint: ${config.tokenMintAddress}`);
+  if (config.configFile || config.profile) {
+    logger.info(
+      `  Settings: ${config.configFile ?? 'environment'}` + (config.profile ? ` (profile ${config.profile})` : '')
+    );
+  }
+  logger.info(`  Cluster: ${config.network.cluster}`);
+  if (!config.network.pumpPortalUrl) {
+    // Bonding curve claims are only built by PumpPortal
+    logger.warn(
+      `  PumpPortal is not available on ${config.network.cluster}: bonding curve claims need PUMPPORTAL_API_URL`
+    );
+  }
+  if (config.tokens.length === 1) {
+    logger.info(`  Token Mint: ${config.tokenMintAddress}`);
+  } else {
+    logger.info(`  Tokens (fees attributed by ${config.feeAttribution}):`);
+    for (const token of config.tokens) {
+      const overrides = Object.keys(token.settings);
+      logger.info(
+        `    ${token.mint} weight ${token.weight}` +
+          (overrides.length > 0 ? ` (overrides: ${overrides.join(', ')})` : '')
+      );
+    }
+  }
+  if (config.signer !== 'keypair') {
+    logger.info(
+      `  Signer: ${config.signer}` +
+        (config.signer === 'remote' ? ` (${config.remoteSignerUrl})` : ` (multisig ${config.multisigAddress})`)
+    );
+  }
   logger.info(`  Min Buyback Amount: ${config.minBuybackAmount} SOL`);
   logger.info(`  Check Interval: ${config.checkIntervalMinutes} minutes`);
   logger.info(`  Slippage: ${config.slippageBps / 100}%`);
-  logger.info(`  Priority Fees: ${config.usePriorityFee ? 'Enabled' : 'Disabled'}`);
+  logger.info(
+    `  Priority Fees: ${config.usePriorityFee ? `Enabled (${config.priorityFeeMode})` : 'Disabled'}`
+  );
+  logger.info(`  Buy Method: ${config.buyMethod}`);
+  logger.info(`  Submission: claims via ${config.claimSubmission}, buys via ${config.buySubmission}`);
+  logger.info(
+    `  Execution: ${config.executionMode}` +
+      (config.executionMode === 'twap'
+        ? ` (${config.twapSlices} slices over ${config.twapWindowMinutes} minutes)`
+        : '')
+  );
+  for (const rule of config.feeAllocations) {
+    logger.info(
+      `  Allocation "${rule.name}": ${rule.kind === 'percent' ? `${rule.value}%` : `${rule.value} SOL`}` +
+        ` -> ${rule.destination ?? 'kept in wallet'}`
+    );
+  }
+  if (config.postBuybackAction !== 'none') {
+    logger.info(
+      `  Post-Buyback: ${config.postBuybackAction}` +
+        (config.postBuybackAction === 'transfer' ? ` to ${config.lockAddress}` : '')
+    );
+  }
+  if (notifier.isEnabled()) {
+    logger.info(`  Notifications: ${config.notificationSinks.map((sink) => sink.kind).join(', ')}`);
+  }
+  if (config.dryRun) {
+    logger.warn('  DRY RUN: transactions are simulated, nothing is sent');
+  }
   logger.separator();
 
-  // Check if token has graduated
-  const graduated = await pumpfunService.hasGraduated();
-  if (graduated) {
-    logger.warn('Token has graduated to Raydium!');
-    logger.warn('This bot currently only supports tokens on the pump.fun bonding curve.');
-    logger.warn('Raydium support coming soon...');
+  // Optional metrics and health check endpoint
+  const metrics = config.metricsPort > 0 ? new MetricsServer(config, wallet, buybackService) : null;
+  if (metrics) {
+    try {
+      await metrics.start();
+    } catch (error) {
+      return abort('Failed to start metrics server', error);
+    }
   }
 
-  // Run initial buyback cycle
-  logger.info('Running initial buyback cycle...');
-  await runBuybackCycle(buybackService);
+  // Update statistics with every recorded cycle
+  runner.on('record', (record: CycleRecord) => {
+    addToStats([record]);
+    metrics?.recordCycle(record);
+    notifier.recordCycle(record);
+    if (notifier.isEnabled()) {
+      wallet
+        .getBalance()
+        .then((balance) => notifier.checkBalance(balance))
+        .catch((error) => logger.warn('Could not read wallet balance for alerts:', error.message || error));
+    }
+  });
 
-  // Schedule recurring buyback cycles
-  const cronExpression = `*/${config.checkIntervalMinutes} * * * *`;
-  logger.info(`Scheduling buyback cycles every ${config.checkIntervalMinutes} minutes`);
+  // Optional control API for operator actions
+  const control =
+    config.controlPort > 0
+      ? new ControlServer(config, wallet, buybackService, runner, new AuditLog(config.auditLogPath), () => ({
+          ...stats,
+          uptimeMinutes: Math.floor((Date.now() - stats.startTime.getTime()) / 1000 / 60),
+        }))
+      : null;
+  if (control) {
+    try {
+      await control.start();
+    } catch (error) {
+      return abort('Failed to start control API', error);
+    }
+  }
 
-  cron.schedule(cronExpression, async () => {
-    await runBuybackCycle(buybackService);
-  });
+  // Watch each token for graduation and migration to PumpSwap
+  const graduationWatchers = buybackService.getTokens().map((token) => {
+    const watcher = new GraduationWatcher(
+      wallet,
+      token.getPumpFun(),
+      token.getPumpSwap(),
+      config.graduationPollSeconds * 1000
+    );
 
-  // Handle graceful shutdown
-  process.on('SIGINT', () => {
-    logger.separator();
-    logger.info('Shutting down...');
-    displayStats();
-    process.exit(0);
+    watcher.on('graduated', () => {
+      logger.warn(`Token ${token.getMint()} has graduated from the bonding curve!`);
+      notifier.notify(
+        'graduated',
+        'Token graduated',
+        `${token.getMint()} completed its bonding curve` +
+          (config.graduationRoute === 'stop' ? ', buybacks are stopped' : ', buybacks pause until the PumpSwap pool is live')
+      );
+      if (config.graduationRoute === 'stop') {
+        logger.error(`ALERT: No post-graduation route configured (GRADUATION_ROUTE=stop) for ${token.getMint()}.`);
+        token.pause('graduated with GRADUATION_ROUTE=stop');
+        if (buybackService.getTokens().every((candidate) => candidate.getPauseReason() !== null)) {
+          logger.error('No tokens left to buy back. Stopping.');
+          void shutdown(0);
+        }
+        return;
+      }
+      token.pause('token is migrating to PumpSwap');
+    });
+
+    watcher.on('migrated', (pool: PublicKey) => {
+      if (config.graduationRoute === 'stop') {
+        return;
+      }
+      logger.info(`Migrated PumpSwap pool found for ${token.getMint()}: ${pool.toBase58()}`);
+      notifier.notify('graduated', 'PumpSwap pool live', `Buybacks of ${token.getMint()} continue on PumpSwap`, {
+        Pool: pool.toBase58(),
+      });
+      token.setVenue('pumpswap');
+      token.resume();
+    });
+
+    return watcher;
   });
 
-  process.on('SIGTERM', () => {
+  const shutdown = async (code: number): Promise<void> => {
     logger.separator();
     logger.info('Shutting down...');
+    for (const watcher of graduationWatchers) {
+      await watcher.stop();
+    }
+    await metrics?.stop();
+    await control?.stop();
     displayStats();
-    process.exit(0);
-  });
+    await notifier.flush();
+    wallet.dispose();
+    process.exit(code);
+  };
 
-  logger.success('Bot is now running! Press Ctrl+C to stop.');
-}
+  // Handle graceful shutdown
+  process.on('SIGINT', () => void shutdown(0));
+  process.on('SIGTERM', () => void shutdown(0));
 
-/**
- * Run a single buyback cycle
- */
-async function runBuybackCycle(buybackService: BuybackService): Promise<void> {
-  try {
-    const result = await buybackService.executeAutomaticBuyback();
-
-    // Update statistics
-    stats.totalClaimed += result.claimedSol;
-
-    if (result.buybackTx) {
-      stats.totalBuybacks++;
-      stats.successfulBuybacks++;
-    } else if (result.claimedSol >= 0.01) {
-      // We had enough to try but it failed
-      stats.totalBuybacks++;
-      stats.failedBuybacks++;
+  // Recurring buyback cycles, scheduled after the initial cycle
+  let task: cron.ScheduledTask | null = null;
+  const scheduleCycles = (): void => {
+    task?.stop();
+    logger.info(`Scheduling buyback cycles every ${config.checkIntervalMinutes} minutes`);
+    task = cron.schedule(buildCronExpression(config.checkIntervalMinutes), async () => {
+      await runner.runCycle();
+    });
+  };
+
+  // Reload the config file and apply the settings that are safe to change while running
+  process.on('SIGHUP', () => {
+    let next: BotConfig;
+    try {
+      next = loadConfig();
+    } catch (error: any) {
+      logger.error('Failed to reload configuration, keeping the current settings:', error.message || error);
+      return;
     }
-  } catch (error) {
-    logger.error('Error in buyback cycle:', error);
-    stats.failedBuybacks++;
+
+    const { applied, restartRequired } = applyConfigReload(context, next);
+    if (applied.length === 0) {
+      logger.info('Configuration reloaded, no reloadable settings changed');
+    } else {
+      logger.success(`Configuration reloaded, applied: ${applied.join(', ')}`);
+    }
+    if (restartRequired.length > 0) {
+      logger.warn(`Changes to ${restartRequired.join(', ')} take effect after a restart`);
+    }
+    if (applied.includes('checkIntervalMinutes') && task) {
+      scheduleCycles();
+    }
+  });
+
+  for (const watcher of graduationWatchers) {
+    await watcher.start();
   }
+
+  notifier.notify(
+    'startup',
+    'Bot started',
+    `Buying back ${config.tokens.map((token) => token.mint).join(', ')} every ${config.checkIntervalMinutes} minutes`,
+    { Wallet: wallet.getPublicKey().toBase58() }
+  );
+
+  // Run initial buyback cycle
+  logger.info('Running initial buyback cycle...');
+  await runner.runCycle();
+
+  // Schedule recurring buyback cycles
+  scheduleCycles();
+
+  logger.success('Bot is now running! Press Ctrl+C to stop.');
 }
 
-// Run the bot
-main().catch((error) => {
-  logger.error('Fatal error:', error);
-  process.exit(1);
-});
+// Run the bot when started directly (the CLI `run` command starts it too)
+if (require.main === module) {
+  runDaemon().catch((error) => {
+    logger.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
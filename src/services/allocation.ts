@@ -0,0 +1,45 @@
+import { FeeAllocationRule } from '../config';
+import { solToLamports } from '../utils/wallet';
+
+/**
+ * Share of a claim assigned to an allocation rule
+ */
+export interface AllocationShare {
+  name: string;
+  // Address the share is sent to, or null if it is kept in the wallet
+  destination: string | null;
+  lamports: number;
+}
+
+/**
+ * How a claim is split between the allocation rules and the buyback
+ */
+export interface AllocationPlan {
+  shares: AllocationShare[];
+  // What is left for the buyback after all rules (in lamports)
+  buybackLamports: number;
+}
+
+/**
+ * Split claimed fees between the allocation rules, in the order they are configured
+ * Percentages are taken from the claimed total and fixed amounts are capped by what is left,
+ * so the shares and the buyback remainder always add up to the claimed total
+ * @param claimedLamports - Claimed fees (in lamports)
+ * @param rules - Allocation rules from the config
+ */
+export function planAllocation(claimedLamports: number, rules: FeeAllocationRule[]): AllocationPlan {
+  const shares: AllocationShare[] = [];
+  let remaining = claimedLamports;
+
+  for (const rule of rules) {
+    const wanted =
+      rule.kind === 'percent'
+        ? Math.floor((claimedLamports * rule.value) / 100)
+        : solToLamports(rule.value);
+    const lamports = Math.min(wanted, remaining);
+    remaining -= lamports;
+    shares.push({ name: rule.name, destination: rule.destination, lamports });
+  }
+
+  return { shares, buybackLamports: remaining };
+}
@@ -0,0 +1,194 @@
+import { PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { WalletManager } from '../utils/wallet';
+import { PUMPFUN_CONSTANTS } from '../config';
+import { logger } from '../utils/logger';
+
+// Offsets in a pump.fun TradeEvent, discriminator included
+const TRADE_EVENT_MINT_OFFSET = 8;
+const TRADE_EVENT_CREATOR_OFFSET = 177;
+const TRADE_EVENT_CREATOR_FEE_OFFSET = 217;
+
+// Most signatures fetched per scan of a bonding curve, and per transaction batch
+const MAX_SIGNATURES_PER_SCAN = 1000;
+const TRANSACTION_BATCH_SIZE = 50;
+
+/**
+ * Split lamports in proportion to weights, so the parts always add up to the total
+ * Rounding leftovers go to the largest weight; all-zero weights split evenly
+ */
+export function splitByWeight(lamports: number, weights: number[]): number[] {
+  if (weights.length === 0) {
+    return [];
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const effective = totalWeight > 0 ? weights : weights.map(() => 1);
+  const effectiveTotal = totalWeight > 0 ? totalWeight : weights.length;
+
+  const parts = effective.map((weight) => Math.floor((lamports * weight) / effectiveTotal));
+  const leftover = lamports - parts.reduce((sum, part) => sum + part, 0);
+  parts[effective.indexOf(Math.max(...effective))] += leftover;
+  return parts;
+}
+
+/**
+ * Read the events logged as "Program data:" lines by a program itself
+ * Invocations are tracked from the "invoke" and "success"/"failed" lines, so events logged by other
+ * programs in the same transaction are left out.
+ */
+function readLogEvents(logMessages: string[], program: PublicKey): Buffer[] {
+  const programId = program.toBase58();
+  const stack: string[] = [];
+  const events: Buffer[] = [];
+  for (const line of logMessages) {
+    const frame = line.match(/^Program (\w+) (invoke \[\d+\]|success|failed)/);
+    if (frame) {
+      if (frame[2].startsWith('invoke')) {
+        stack.push(frame[1]);
+      } else {
+        stack.pop();
+      }
+    } else if (line.startsWith('Program data: ') && stack[stack.length - 1] === programId) {
+      events.push(Buffer.from(line.slice('Program data: '.length), 'base64'));
+    }
+  }
+  return events;
+}
+
+/**
+ * Sum the creator fees a wallet earned on a mint from the pump.fun trade events of a transaction
+ * Reads events emitted through self-CPI, or older log-based events if there are none
+ */
+export function readCreatorFees(
+  tx: VersionedTransactionResponse,
+  mint: PublicKey,
+  creator: PublicKey,
+  pumpfunProgram: PublicKey
+): number {
+  if (!tx.meta || tx.meta.err) {
+    return 0;
+  }
+
+  const events: Buffer[] = [];
+
+  // Self-CPI events are inner instructions of the pump.fun program itself
+  const keys = tx.transaction.message.getAccountKeys({
+    accountKeysFromLookups: tx.meta.loadedAddresses,
+  });
+  for (const inner of tx.meta.innerInstructions || []) {
+    for (const instruction of inner.instructions) {
+      if (!keys.get(instruction.programIdIndex)?.equals(pumpfunProgram)) {
+        continue;
+      }
+      const data = Buffer.from(bs58.decode(instruction.data));
+      if (data.subarray(0, 8).equals(PUMPFUN_CONSTANTS.EVENT_IX_TAG)) {
+        events.push(data.subarray(8));
+      }
+    }
+  }
+
+  // Older pump.fun versions only logged their events; the same events are never read both ways
+  if (events.length === 0) {
+    events.push(...readLogEvents(tx.meta.logMessages || [], pumpfunProgram));
+  }
+
+  let creatorFees = 0;
+  for (const event of events) {
+    if (
+      event.length < TRADE_EVENT_CREATOR_FEE_OFFSET + 8 ||
+      !event.subarray(0, 8).equals(PUMPFUN_CONSTANTS.TRADE_EVENT_DISCRIMINATOR)
+    ) {
+      continue;
+    }
+    const eventMint = new PublicKey(event.subarray(TRADE_EVENT_MINT_OFFSET, TRADE_EVENT_MINT_OFFSET + 32));
+    const eventCreator = new PublicKey(
+      event.subarray(TRADE_EVENT_CREATOR_OFFSET, TRADE_EVENT_CREATOR_OFFSET + 32)
+    );
+    if (eventMint.equals(mint) && eventCreator.equals(creator)) {
+      creatorFees += Number(event.readBigUInt64LE(TRADE_EVENT_CREATOR_FEE_OFFSET));
+    }
+  }
+  return creatorFees;
+}
+
+/**
+ * Tracks the creator fees accrued on each token's bonding curve from its trade events
+ * The first scan of a curve only sets a baseline, so fees accrued before the bot started
+ * are not counted; callers split claims in proportion to the accrued amounts
+ */
+export class TradeFeeTracker {
+  private wallet: WalletManager;
+  private pumpfunProgram: PublicKey;
+  // Newest scanned signature per mint
+  private lastSignatures = new Map<string, string>();
+  // Creator fees accrued since the last claim per mint (in lamports)
+  private accrued = new Map<string, number>();
+
+  constructor(wallet: WalletManager, pumpfunProgram: PublicKey) {
+    this.wallet = wallet;
+    this.pumpfunProgram = pumpfunProgram;
+  }
+
+  /**
+   * Add the creator fees from trades on a bonding curve since its last scan
+   */
+  async scan(mint: string, bondingCurve: PublicKey): Promise<void> {
+    const connection = this.wallet.getConnection();
+    const until = this.lastSignatures.get(mint);
+
+    try {
+      const signatures = await connection.getSignaturesForAddress(
+        bondingCurve,
+        { until, limit: MAX_SIGNATURES_PER_SCAN },
+        'confirmed'
+      );
+      if (signatures.length === 0) {
+        return;
+      }
+      if (until === undefined) {
+        this.lastSignatures.set(mint, signatures[0].signature);
+        logger.debug(`Trade fee baseline for ${mint} set at ${signatures[0].signature}`);
+        return;
+      }
+      if (signatures.length === MAX_SIGNATURES_PER_SCAN) {
+        logger.warn(`More than ${MAX_SIGNATURES_PER_SCAN} trades on ${mint} since the last scan, older ones are not counted`);
+      }
+
+      const successful = signatures.filter((info) => !info.err).map((info) => info.signature);
+      const mintKey = new PublicKey(mint);
+      let fees = 0;
+      for (let i = 0; i < successful.length; i += TRANSACTION_BATCH_SIZE) {
+        const transactions = await connection.getTransactions(
+          successful.slice(i, i + TRANSACTION_BATCH_SIZE),
+          { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+        );
+        for (const tx of transactions) {
+          if (tx) {
+            fees += readCreatorFees(tx, mintKey, this.wallet.getPublicKey(), this.pumpfunProgram);
+          }
+        }
+      }
+
+      this.lastSignatures.set(mint, signatures[0].signature);
+      this.accrued.set(mint, (this.accrued.get(mint) ?? 0) + fees);
+      logger.debug(`Creator fees accrued on ${mint} since last scan: ${fees} lamports`);
+    } catch (error: any) {
+      logger.error(`Failed to scan trades of ${mint}:`, error.message || error);
+    }
+  }
+
+  /**
+   * Get the creator fees accrued per mint since the last claim (in lamports)
+   */
+  getAccrued(mints: string[]): number[] {
+    return mints.map((mint) => this.accrued.get(mint) ?? 0);
+  }
+
+  /**
+   * Reset the accrued fees after a claim
+   */
+  reset(): void {
+    this.accrued.clear();
+  }
+}
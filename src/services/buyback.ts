@@ -1,97 +1,626 @@
-import { LAMPORTS_PER_SOL } from '@solana/web3.js';
-import { WalletManager } from '../utils/wallet';
+import { LAMPORTS_PER_SOL, PublicKey, SystemProgram } from '@solana/web3.js';
+import { WalletManager, roundSolToLamports } from '../utils/wallet';
 import { BotConfig } from '../config';
-import { PumpFunService } from './pumpfun';
+import { ClaimResult, BuyResult } from './pumpfun';
+import { AllocationShare, planAllocation } from './allocation';
+import { TradeFeeTracker, splitByWeight } from './attribution';
+import { TokenBuyback, TokenBuybackResult } from './token-buyback';
 import { logger } from '../utils/logger';
+import { CycleStatus } from '../utils/ledger';
 
 /**
- * Buyback service for executing token purchases on pump.fun
+ * Result of a single automatic buyback cycle
+ * Buy-side fields add up the results of all tokens; token amounts are only set
+ * when a single token is configured, see `tokens` for the per-token results
+ */
+export interface BuybackCycleResult {
+  status: CycleStatus;
+  claimedSol: number;
+  claimTx: string | null;
+  // All claim signatures of the cycle (two when both the bonding curve and PumpSwap vaults were claimed)
+  claimTxs: string[];
+  // Set when fees were worth claiming but a claim transaction failed
+  claimFailed: boolean;
+  buybackTx: string | null;
+  // All buy signatures of the cycle (more than one when the buyback was sliced)
+  buybackTxs: string[];
+  solSpent: number;
+  tokensReceived: bigint | null;
+  // Network fees paid by the cycle's claim and buy transactions (SOL)
+  networkFee: number;
+  failureReason: string | null;
+  // Claim shares sent to (or kept for) the fee allocation rules, including retried transfers
+  allocations: AllocationTransfer[];
+  // Part of this cycle's claim left for the buyback after the allocation rules (lamports)
+  buybackAllocationLamports: number;
+  // Part of the buyback allocation attributed to each token, by mint (lamports)
+  attributedLamports: Record<string, number>;
+  // Why price guards resized or deferred buys in this cycle, or null if none did
+  guardReason: string | null;
+  // Signature of the post-buyback burn or transfer, or null if none was made
+  postBuybackTx: string | null;
+  // Tokens burned or moved to the lock address by the post-buyback action (raw units)
+  tokensBurned: bigint;
+  tokensLocked: bigint;
+  // Buy side of the cycle for each token
+  tokens: TokenBuybackResult[];
+  // Set in dry-run mode: claim and buy were simulated and amounts are expected values
+  simulated: boolean;
+}
+
+/**
+ * A claim share handled for a fee allocation rule
+ * Shares without a destination are kept in the wallet; shares with a destination
+ * but no signature failed to transfer and are retried next cycle
+ */
+export interface AllocationTransfer extends AllocationShare {
+  signature: string | null;
+  // Set when the share is owed from an earlier cycle whose transfer failed
+  retry: boolean;
+}
+
+/**
+ * A cycle that failed part-way, carrying what it claimed, transferred and bought before failing
+ */
+export class BuybackCycleError extends Error {
+  result: BuybackCycleResult;
+
+  constructor(message: string, result: BuybackCycleResult) {
+    super(message);
+    this.result = result;
+  }
+}
+
+/**
+ * Options of a single buyback cycle
+ */
+export interface CycleOptions {
+  // Claim any claimable fees regardless of the claim threshold, even while buybacks are paused
+  forceClaim?: boolean;
+}
+
+/**
+ * Claims made from the creator vaults in one cycle
+ */
+interface VaultClaims {
+  // Claim from the pump.fun creator vault (fees from bonding curve trades)
+  curve: ClaimResult | null;
+  // Claim from the PumpSwap creator vault (fees from pool trades)
+  amm: ClaimResult | null;
+  // Set when a vault was worth claiming but its claim failed
+  failed: boolean;
+}
+
+/**
+ * Buyback service: claims creator fees for all tokens of the wallet, applies the fee
+ * allocation rules, attributes the rest to each token and runs each token's buyback
  */
 export class BuybackService {
   private wallet: WalletManager;
   private config: BotConfig;
-  private pumpfun: PumpFunService;
+  private tokens: TokenBuyback[];
+  private pauseReason: string | null = null;
+  private cycleRunning = false;
+  private tradeFees: TradeFeeTracker;
+
+  // Allocation shares whose transfer failed, by rule name (in lamports)
+  private owedAllocations: Record<string, number> = {};
 
-  constructor(wallet: WalletManager, config: BotConfig, pumpfun: PumpFunService) {
+  constructor(wallet: WalletManager, config: BotConfig, tokens: TokenBuyback[]) {
+    if (tokens.length === 0) {
+      throw new Error('At least one token is required');
+    }
     this.wallet = wallet;
     this.config = config;
-    this.pumpfun = pumpfun;
+    this.tokens = tokens;
+    this.tradeFees = new TradeFeeTracker(wallet, config.network.programs.pumpfun);
+  }
+
+  /**
+   * Get the tokens bought back, in configuration order
+   */
+  getTokens(): TokenBuyback[] {
+    return this.tokens;
+  }
+
+  /**
+   * Get a token by mint address, or the first configured token if no mint is given
+   */
+  getToken(mint?: string): TokenBuyback | undefined {
+    return mint ? this.tokens.find((token) => token.getMint() === mint) : this.tokens[0];
+  }
+
+  /**
+   * Get the pending buyback balance of all tokens (claimed but not yet spent) in lamports
+   */
+  getPendingLamports(): number {
+    return this.tokens.reduce((sum, token) => sum + token.getPendingLamports(), 0);
+  }
+
+  /**
+   * Get the pending buyback balance of all tokens (claimed but not yet spent) in SOL
+   */
+  getPendingBalance(): number {
+    return this.getPendingLamports() / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Get allocation shares still owed after failed transfers, by rule name (in lamports)
+   */
+  getOwedAllocations(): Record<string, number> {
+    return { ...this.owedAllocations };
+  }
+
+  /**
+   * Restore allocation shares still owed, e.g. from the ledger after a restart
+   */
+  setOwedAllocations(owed: Record<string, number>): void {
+    this.owedAllocations = { ...owed };
+  }
+
+  /**
+   * Pause buyback cycles for all tokens
+   */
+  pause(reason: string): void {
+    this.pauseReason = reason;
+    logger.warn(`Buybacks paused: ${reason}`);
+  }
+
+  /**
+   * Resume buyback cycles
+   */
+  resume(): void {
+    if (this.pauseReason !== null) {
+      this.pauseReason = null;
+      logger.info('Buybacks resumed');
+    }
+  }
+
+  /**
+   * Check if buyback cycles are paused
+   */
+  isPaused(): boolean {
+    return this.pauseReason !== null;
+  }
+
+  /**
+   * Get why buyback cycles are paused, or null if they are not
+   */
+  getPauseReason(): string | null {
+    return this.pauseReason;
+  }
+
+  /**
+   * Check if a cycle or manual buyback is running
+   */
+  isBusy(): boolean {
+    return this.cycleRunning;
   }
 
   /**
    * Execute automatic buyback with claimed fees
    * This is the main function that combines fee claiming and buying
    */
-  async executeAutomaticBuyback(): Promise<{
-    claimedSol: number;
-    buybackTx: string | null;
-  }> {
+  async executeAutomaticBuyback(options: CycleOptions = {}): Promise<BuybackCycleResult> {
+    if (this.cycleRunning) {
+      logger.warn('Previous buyback cycle is still running, skipping this one');
+      return { ...this.emptyResult(), status: 'skipped', failureReason: 'previous cycle still running' };
+    }
+
+    this.cycleRunning = true;
+    try {
+      return await this.runCycle(options);
+    } finally {
+      this.cycleRunning = false;
+    }
+  }
+
+  /**
+   * Run an automatic buyback cycle
+   * @throws BuybackCycleError with the partial result if a step fails
+   */
+  private async runCycle(options: CycleOptions): Promise<BuybackCycleResult> {
+    const result = this.emptyResult();
+    try {
+      return await this.runCycleSteps(options, result);
+    } catch (error: any) {
+      if (result.tokens.length > 0) {
+        this.summarizeTokens(result, result.claimedSol > 0);
+      }
+      const message = error?.message || String(error);
+      throw new BuybackCycleError(message, { ...result, status: 'error', failureReason: message });
+    }
+  }
+
+  /**
+   * Run the steps of an automatic buyback cycle, recording each step in the result as it completes
+   */
+  private async runCycleSteps(options: CycleOptions, result: BuybackCycleResult): Promise<BuybackCycleResult> {
+    if (this.pauseReason !== null && !options.forceClaim) {
+      logger.info(`Skipping buyback cycle: ${this.pauseReason}`);
+      return { ...result, status: 'skipped', failureReason: this.pauseReason };
+    }
+
     logger.separator();
-    logger.info('Starting automatic buyback cycle...');
+    logger.info(`Starting automatic buyback cycle${this.config.dryRun ? ' [DRY RUN]' : ''}...`);
 
     // Step 1: Check wallet balance
     const walletBalance = await this.wallet.getBalance();
     logger.info(`Wallet balance: ${walletBalance.toFixed(6)} SOL`);
 
-    // Step 2: Try to get claimable fees info
-    const claimableFees = await this.pumpfun.getClaimableFees();
-    if (claimableFees >= 0) {
-      logger.info(`Claimable fees: ${claimableFees.toFixed(6)} SOL`);
-    } else {
-      logger.info('Claimable fees: checking via claim attempt...');
+    // Step 2 & 3: Check claimable fees on-chain and claim them if worth it
+    if (this.config.feeAttribution === 'trades') {
+      await this.scanTradeFees();
     }
+    this.tokens.forEach((token) => token.resetSimulatedPending());
+    const claims = await this.claimFees(options.forceClaim ?? false, result);
+    result.claimFailed = claims.failed;
+    const curveLamports = claims.curve ? roundSolToLamports(claims.curve.amount) : 0;
+    const ammLamports = claims.amm ? roundSolToLamports(claims.amm.amount) : 0;
+    const claimedLamports = curveLamports + ammLamports;
 
-    // Step 3: Attempt to claim fees
-    const claimResult = await this.pumpfun.claimFees();
+    if (claims.curve || claims.amm) {
+      logger.info(`Claimed ${result.claimedSol.toFixed(6)} SOL in fees`);
 
-    if (!claimResult) {
+      // Step 4: Wait a moment for balance to update
+      await this.sleep(2000);
+    } else {
       logger.info('No fees claimed in this cycle');
-      return { claimedSol: 0, buybackTx: null };
     }
 
-    const claimedAmount = claimResult.amount;
-    logger.info(`Claimed ${claimedAmount.toFixed(6)} SOL in fees`);
+    // Split the claim between the allocation rules and the buyback, retrying failed transfers
+    const buybackLamports = await this.allocateFees(claimedLamports, result);
 
-    // Step 4: Wait a moment for balance to update
-    await this.sleep(2000);
+    // Attribute the buyback part of the claim to each token
+    if (buybackLamports > 0) {
+      const claimShares = this.attributeClaim(curveLamports, ammLamports);
+      const parts = splitByWeight(buybackLamports, claimShares);
+      this.tokens.forEach((token, i) => {
+        token.addPendingLamports(parts[i]);
+        result.attributedLamports[token.getMint()] = parts[i];
+        if (this.tokens.length > 1) {
+          logger.info(`Attributed ${(parts[i] / LAMPORTS_PER_SOL).toFixed(6)} SOL to ${token.getMint()}`);
+        }
+      });
+    }
+    if (claims.curve) {
+      this.tradeFees.reset();
+    }
 
-    // Step 5: Check if we have enough for a buyback
-    if (claimedAmount < this.config.minBuybackAmount) {
-      logger.info(
-        `Claimed amount (${claimedAmount.toFixed(6)} SOL) is below minimum buyback threshold (${this.config.minBuybackAmount} SOL)`
-      );
-      logger.info('Fees claimed but no buyback executed. Will accumulate for next cycle.');
-      return { claimedSol: claimedAmount, buybackTx: null };
+    // A forced claim while paused keeps the claimed fees pending until buybacks resume
+    if (this.pauseReason !== null) {
+      logger.info(`Buybacks paused (${this.pauseReason}), claimed fees stay pending`);
+      result.status = 'skipped';
+      result.failureReason = this.pauseReason;
+      logger.separator();
+      return result;
     }
 
-    // Step 6: Execute the buyback
-    logger.info(`Executing buyback with ${claimedAmount.toFixed(6)} SOL...`);
-    const buybackTx = await this.pumpfun.buyTokens(claimedAmount);
+    // Step 5: The pending balances only count claimed fees, so make sure the wallet still holds them
+    const dueSol = this.tokens
+      .filter((token) => token.isDue())
+      .reduce((sum, token) => sum + token.getPendingBalance(), 0);
+    if (dueSol > 0 && !(await this.wallet.hasSufficientBalance(dueSol))) {
+      logger.warn(`Wallet balance does not cover the pending buyback balance of ${dueSol.toFixed(6)} SOL`);
+      result.status = 'buy-failed';
+      result.failureReason = 'insufficient wallet balance for pending buyback';
+      logger.separator();
+      return result;
+    }
 
-    if (buybackTx) {
-      logger.success(`Buyback cycle completed successfully!`);
-    } else {
-      logger.warn('Buyback transaction failed, but fees were claimed');
+    // Step 6 & 7: Buy back each token and burn or lock what was bought
+    for (const token of this.tokens) {
+      result.tokens.push(await token.buyback(() => this.pauseReason));
     }
+    this.summarizeTokens(result, claimedLamports > 0);
 
     logger.separator();
-    return { claimedSol: claimedAmount, buybackTx };
+    return result;
   }
 
   /**
-   * Execute buyback with a specific SOL amount (manual trigger)
+   * Add up the per-token buy results into the cycle result
+   */
+  private summarizeTokens(result: BuybackCycleResult, claimed: boolean): void {
+    const tokens = result.tokens;
+    const statuses = tokens.map((token) => token.status);
+    if (statuses.includes('success')) {
+      result.status = 'success';
+    } else if (statuses.includes('buy-failed')) {
+      result.status = 'buy-failed';
+    } else if (statuses.includes('deferred')) {
+      result.status = 'deferred';
+    } else if (statuses.includes('below-threshold')) {
+      result.status = claimed ? 'below-threshold' : 'no-fees';
+    }
+
+    result.buybackTxs = tokens.flatMap((token) => token.buybackTxs);
+    result.buybackTx = result.buybackTxs[0] ?? null;
+    result.solSpent = tokens.reduce((sum, token) => sum + token.solSpent, 0);
+    result.networkFee += tokens.reduce((sum, token) => sum + token.networkFee, 0);
+    result.postBuybackTx = tokens.find((token) => token.postBuybackTx)?.postBuybackTx ?? null;
+
+    // Prefix reasons with the mint once there is more than one token
+    const describe = (token: TokenBuybackResult, reason: string): string =>
+      tokens.length > 1 ? `${token.mint}: ${reason}` : reason;
+    const failures = tokens.filter((token) => token.failureReason && token.status !== 'skipped');
+    const guards = tokens.filter((token) => token.guardReason);
+    result.failureReason = failures.length > 0
+      ? failures.map((token) => describe(token, token.failureReason!)).join('; ')
+      : null;
+    result.guardReason = guards.length > 0
+      ? guards.map((token) => describe(token, token.guardReason!)).join('; ')
+      : null;
+
+    // Token amounts of different mints cannot be added up
+    if (tokens.length === 1) {
+      result.tokensReceived = tokens[0].tokensReceived;
+      result.tokensBurned = tokens[0].tokensBurned;
+      result.tokensLocked = tokens[0].tokensLocked;
+    }
+  }
+
+  /**
+   * Scan new trades on the bonding curves for the creator fees they accrued
+   */
+  private async scanTradeFees(): Promise<void> {
+    for (const token of this.tokens) {
+      if (token.getVenue() === 'bonding-curve') {
+        await this.tradeFees.scan(token.getMint(), token.getPumpFun().getBondingCurvePDA());
+      }
+    }
+  }
+
+  /**
+   * Get how much of each vault's claim belongs to each token, in token order
+   * Pump.fun vault claims follow the creator fees seen in trades ('trades' attribution) or
+   * the weights of the tokens still on their bonding curve; PumpSwap vault claims follow
+   * the weights of the migrated tokens
    */
-  async executeBuybackWithAmount(solAmount: number): Promise<string | null> {
-    logger.info(`Manual buyback triggered with ${solAmount.toFixed(6)} SOL`);
+  private attributeClaim(curveLamports: number, ammLamports: number): number[] {
+    const weights = this.tokens.map(
+      (token) => this.config.tokens.find((candidate) => candidate.mint === token.getMint())?.weight ?? 1
+    );
+    const weightsOn = (venue: string): number[] => {
+      const onVenue = weights.map((weight, i) => (this.tokens[i].getVenue() === venue ? weight : 0));
+      return onVenue.some((weight) => weight > 0) ? onVenue : weights;
+    };
+
+    let curveWeights = weightsOn('bonding-curve');
+    if (this.config.feeAttribution === 'trades') {
+      const accrued = this.tradeFees.getAccrued(this.tokens.map((token) => token.getMint()));
+      if (accrued.some((fees) => fees > 0)) {
+        curveWeights = accrued;
+      } else if (curveLamports > 0) {
+        logger.warn('No creator fees seen in recent trades, attributing the claim by weight');
+      }
+    }
 
-    // Check if we have sufficient balance
-    const balance = await this.wallet.getBalance();
-    if (balance < solAmount + 0.01) {
-      logger.error(`Insufficient balance. Have ${balance.toFixed(6)} SOL, need ${(solAmount + 0.01).toFixed(6)} SOL`);
+    const curveParts = splitByWeight(curveLamports, curveWeights);
+    const ammParts = splitByWeight(ammLamports, weightsOn('pumpswap'));
+    return curveParts.map((part, i) => part + ammParts[i]);
+  }
+
+  /**
+   * Apply the fee allocation rules to a claim and send each share to its destination
+   * Shares owed from earlier failed transfers are retried first. Every share with a destination is owed
+   * until its transfer confirms, so a cycle failing part-way neither pays a share twice nor drops it.
+   * @returns The part of the claim left for the buyback (in lamports)
+   */
+  private async allocateFees(claimedLamports: number, result: BuybackCycleResult): Promise<number> {
+    const plan = planAllocation(claimedLamports, this.config.feeAllocations);
+    result.buybackAllocationLamports = plan.buybackLamports;
+
+    const transfers: AllocationTransfer[] = [];
+    for (const [name, lamports] of Object.entries(this.owedAllocations)) {
+      const rule = this.config.feeAllocations.find((candidate) => candidate.name === name);
+      if (!rule || !rule.destination) {
+        logger.warn(`Dropping ${(lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL owed to removed allocation "${name}"`);
+        delete this.owedAllocations[name];
+        continue;
+      }
+      transfers.push({ name, destination: rule.destination, lamports, signature: null, retry: true });
+    }
+
+    for (const share of plan.shares) {
+      if (share.lamports > 0) {
+        transfers.push({ ...share, signature: null, retry: false });
+        if (share.destination !== null) {
+          this.owedAllocations[share.name] = (this.owedAllocations[share.name] ?? 0) + share.lamports;
+        }
+      }
+    }
+
+    for (const transfer of transfers) {
+      const sol = (transfer.lamports / LAMPORTS_PER_SOL).toFixed(6);
+      if (transfer.destination === null) {
+        logger.info(`Allocation "${transfer.name}": keeping ${sol} SOL in the wallet`);
+      } else {
+        transfer.signature = await this.sendAllocation(transfer, result);
+        if (transfer.signature !== null) {
+          this.settleOwedAllocation(transfer.name, transfer.lamports);
+        }
+      }
+      result.allocations.push(transfer);
+    }
+
+    if (claimedLamports > 0 && plan.shares.length > 0) {
+      logger.info(`Allocated ${(plan.buybackLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL of the claim to the buyback`);
+    }
+    return plan.buybackLamports;
+  }
+
+  /**
+   * Take a transferred share off what is owed to its allocation rule
+   */
+  private settleOwedAllocation(name: string, lamports: number): void {
+    const owed = (this.owedAllocations[name] ?? 0) - lamports;
+    if (owed > 0) {
+      this.owedAllocations[name] = owed;
+    } else {
+      delete this.owedAllocations[name];
+    }
+  }
+
+  /**
+   * Transfer an allocation share to its destination
+   * @returns The transfer signature, or null if it failed
+   */
+  private async sendAllocation(transfer: AllocationTransfer, result: BuybackCycleResult): Promise<string | null> {
+    const sol = (transfer.lamports / LAMPORTS_PER_SOL).toFixed(6);
+    const instruction = SystemProgram.transfer({
+      fromPubkey: this.wallet.getPublicKey(),
+      toPubkey: new PublicKey(transfer.destination!),
+      lamports: transfer.lamports,
+    });
+
+    try {
+      if (this.config.dryRun) {
+        const simulation = await this.wallet.simulateInstructions([instruction]);
+        return simulation.error ? null : simulation.signature;
+      }
+
+      const signature = await this.wallet.sendTransaction([instruction]);
+      logger.tx(`Allocation "${transfer.name}": sent ${sol} SOL to ${transfer.destination}`, signature, {
+        allocation: transfer.name,
+        lamports: transfer.lamports,
+        destination: transfer.destination,
+      });
+      try {
+        const balances = await this.wallet.getTransactionBalances(signature);
+        result.networkFee += balances.fee / LAMPORTS_PER_SOL;
+      } catch {
+        logger.debug('Could not read network fee of the allocation transfer');
+      }
+      return signature;
+    } catch (error: any) {
+      logger.error(`Allocation "${transfer.name}" transfer of ${sol} SOL failed, will retry next cycle:`, error.message || error);
       return null;
     }
+  }
 
-    return await this.pumpfun.buyTokens(solAmount);
+  /**
+   * Execute buyback with a specific SOL amount (manual trigger)
+   * @param mint - Token to buy, the first configured token by default
+   */
+  async executeBuybackWithAmount(solAmount: number, mint?: string): Promise<BuyResult | null> {
+    const token = this.getToken(mint);
+    if (!token) {
+      logger.error(`Token ${mint} is not configured`);
+      return null;
+    }
+    if (this.cycleRunning) {
+      logger.error('A buyback cycle is running, try the manual buyback again later');
+      return null;
+    }
+    logger.info(`Manual buyback of ${token.getMint()} triggered with ${solAmount.toFixed(6)} SOL`);
+
+    this.cycleRunning = true;
+    try {
+      // Manual buys spend wallet SOL on top of the claimed fees still pending or owed to allocation rules,
+      // plus the 0.01 SOL transaction fee buffer
+      const owedLamports = Object.values(this.owedAllocations).reduce((sum, lamports) => sum + lamports, 0);
+      const committedSol = (this.getPendingLamports() + owedLamports) / LAMPORTS_PER_SOL;
+      const requiredSol = solAmount + committedSol + 0.01;
+      const balance = await this.wallet.getBalance();
+      if (balance < requiredSol) {
+        logger.error(
+          `Insufficient balance. Have ${balance.toFixed(6)} SOL, need ${requiredSol.toFixed(6)} SOL ` +
+            `(${solAmount.toFixed(6)} SOL to spend, ${committedSol.toFixed(6)} SOL pending or owed, 0.01 SOL fee buffer)`
+        );
+        return null;
+      }
+
+      return await token.buyTokens(solAmount);
+    } finally {
+      this.cycleRunning = false;
+    }
+  }
+
+  /**
+   * Create a cycle result with nothing claimed or bought
+   */
+  private emptyResult(): BuybackCycleResult {
+    return {
+      status: 'no-fees',
+      claimedSol: 0,
+      claimTx: null,
+      claimTxs: [],
+      claimFailed: false,
+      buybackTx: null,
+      buybackTxs: [],
+      solSpent: 0,
+      tokensReceived: null,
+      networkFee: 0,
+      failureReason: null,
+      allocations: [],
+      buybackAllocationLamports: 0,
+      attributedLamports: {},
+      guardReason: null,
+      postBuybackTx: null,
+      tokensBurned: 0n,
+      tokensLocked: 0n,
+      tokens: [],
+      simulated: this.config.dryRun,
+    };
+  }
+
+  /**
+   * Claim creator fees from the pump.fun vault and, once a token has migrated, from the PumpSwap vault
+   * Both vaults collect the fees of every token created by the wallet, so each is claimed once
+   * Each claim is added to the cycle result as soon as it is made.
+   */
+  private async claimFees(force: boolean, result: BuybackCycleResult): Promise<VaultClaims> {
+    const pumpfun = this.tokens[0].getPumpFun();
+    const curveClaimable = await pumpfun.getClaimableFees();
+    logger.info(`Claimable fees: ${curveClaimable.toFixed(6)} SOL`);
+    const curveWorthClaiming = this.isWorthClaiming(curveClaimable, force);
+    const curve = curveWorthClaiming ? await pumpfun.claimFees(curveClaimable) : null;
+    this.addClaim(result, curve);
+    const curveFailed = curveWorthClaiming && !curve;
+
+    const migrated = this.tokens.find((token) => token.getVenue() === 'pumpswap');
+    if (!migrated) {
+      return { curve, amm: null, failed: curveFailed };
+    }
+
+    const pumpswap = migrated.getPumpSwap();
+    const ammClaimable = await pumpswap.getClaimableFees();
+    logger.info(`Claimable PumpSwap fees: ${ammClaimable.toFixed(6)} SOL`);
+    const ammWorthClaiming = this.isWorthClaiming(ammClaimable, force);
+    const amm = ammWorthClaiming ? await pumpswap.claimFees() : null;
+    this.addClaim(result, amm);
+    return { curve, amm, failed: curveFailed || (ammWorthClaiming && !amm) };
+  }
+
+  /**
+   * Add a vault claim to the cycle result
+   */
+  private addClaim(result: BuybackCycleResult, claim: ClaimResult | null): void {
+    if (!claim) {
+      return;
+    }
+    result.claimedSol = (roundSolToLamports(result.claimedSol) + roundSolToLamports(claim.amount)) / LAMPORTS_PER_SOL;
+    result.claimTxs.push(claim.signature);
+    result.claimTx = result.claimTxs[0];
+    result.networkFee += claim.networkFee;
+  }
+
+  /**
+   * Check if a claimable balance reaches the configured claim threshold
+   * @param force - Claim any non-zero balance
+   */
+  private isWorthClaiming(claimableSol: number, force: boolean): boolean {
+    if (claimableSol <= 0) {
+      return false;
+    }
+    if (!force && claimableSol < this.config.minClaimAmount) {
+      logger.info(
+        `Skipping claim: ${claimableSol.toFixed(6)} SOL is below the claim threshold (${this.config.minClaimAmount} SOL)`
+      );
+      return false;
+    }
+    return true;
   }
 
   /**
@@ -0,0 +1,312 @@
+import http from 'http';
+import crypto from 'crypto';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BotConfig } from '../config';
+import { WalletManager } from '../utils/wallet';
+import { AuditLog, AuditOutcome } from '../utils/audit';
+import { CycleRecord } from '../utils/ledger';
+import { logger } from '../utils/logger';
+import { BuybackService } from './buyback';
+import { CycleRunner } from './cycle-runner';
+
+// Largest request body accepted (in bytes)
+const MAX_BODY_BYTES = 16 * 1024;
+
+/**
+ * Error answered with a specific HTTP status
+ */
+class ControlError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Serialize a response body; token amounts are bigints and are sent as strings
+ */
+function toJson(body: unknown): string {
+  return JSON.stringify(body, (_, value) => (typeof value === 'bigint' ? value.toString() : value), 2);
+}
+
+/**
+ * Compare two secrets in constant time
+ */
+function secretsMatch(given: string, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * Local HTTP control API, protected by a bearer token
+ * - GET /status: pause state, balances, per-token state and running statistics
+ * - POST /buyback { "sol": 0.5, "mint"?: "..." }: buy a token with SOL from the wallet
+ * - POST /claim: run a cycle now, claiming regardless of the claim threshold
+ * - POST /pause { "reason"?: "..." } and POST /resume: pause and resume scheduled cycles
+ * Every action, and every request with a missing or wrong token, is written to the audit log
+ */
+export class ControlServer {
+  private config: BotConfig;
+  private wallet: WalletManager;
+  private buybackService: BuybackService;
+  private runner: CycleRunner;
+  private audit: AuditLog;
+  private getStats: () => Record<string, unknown>;
+  private server: http.Server | null = null;
+
+  constructor(
+    config: BotConfig,
+    wallet: WalletManager,
+    buybackService: BuybackService,
+    runner: CycleRunner,
+    audit: AuditLog,
+    getStats: () => Record<string, unknown>
+  ) {
+    this.config = config;
+    this.wallet = wallet;
+    this.buybackService = buybackService;
+    this.runner = runner;
+    this.audit = audit;
+    this.getStats = getStats;
+  }
+
+  /**
+   * Start listening on the configured host and port
+   */
+  async start(): Promise<void> {
+    // A failure outside the routes (e.g. the audit log cannot be written) must not reject unhandled
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('Control API request failed:', error.message || error);
+        if (res.headersSent) {
+          res.end();
+        } else {
+          this.reply(res, 500, { error: 'Internal error' });
+        }
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.controlPort, this.config.controlHost, () => resolve());
+    });
+    this.server = server;
+    logger.info(`Control API listening on ${this.config.controlHost}:${this.config.controlPort}`);
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Authenticate and route a request
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0];
+    const route = `${req.method} ${path}`;
+    // Audit entries name the action after the path, e.g. 'buyback'
+    const action = path.replace(/^\//, '') || path;
+    const source = req.socket.remoteAddress ?? 'unknown';
+
+    const header = req.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!token || !secretsMatch(token, this.config.controlToken!)) {
+      await this.audit.append({ action, source, outcome: 'unauthorized' });
+      this.reply(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      switch (route) {
+        case 'GET /status':
+          this.reply(res, 200, await this.getStatus());
+          return;
+        case 'POST /buyback':
+          await this.manualBuyback(await this.readBody(req), source, res);
+          return;
+        case 'POST /claim':
+          await this.forceClaim(source, res);
+          return;
+        case 'POST /pause':
+          await this.pause(await this.readBody(req), source, res);
+          return;
+        case 'POST /resume':
+          this.buybackService.resume();
+          await this.audit.append({ action: 'resume', source, outcome: 'ok' });
+          this.reply(res, 200, { paused: false });
+          return;
+        default:
+          this.reply(res, 404, { error: 'Not found' });
+      }
+    } catch (error: any) {
+      const status = error instanceof ControlError ? error.status : 500;
+      if (status >= 500) {
+        logger.error(`Control API ${route} failed:`, error.message || error);
+      }
+      const outcome: AuditOutcome = status >= 500 ? 'failed' : 'rejected';
+      await this.audit.append({ action, source, outcome, detail: error.message });
+      this.reply(res, status, { error: error.message || String(error) });
+    }
+  }
+
+  /**
+   * Build the status report
+   */
+  private async getStatus(): Promise<Record<string, unknown>> {
+    let balance: number | null = null;
+    try {
+      balance = await this.wallet.getBalance();
+    } catch (error: any) {
+      logger.warn('Could not read wallet balance for status:', error.message || error);
+    }
+
+    return {
+      wallet: this.wallet.getPublicKey().toBase58(),
+      balanceSol: balance,
+      paused: this.buybackService.isPaused(),
+      pauseReason: this.buybackService.getPauseReason(),
+      busy: this.buybackService.isBusy(),
+      dryRun: this.config.dryRun,
+      pendingSol: this.buybackService.getPendingBalance(),
+      owedAllocationsSol: Object.fromEntries(
+        Object.entries(this.buybackService.getOwedAllocations()).map(([name, lamports]) => [
+          name,
+          lamports / LAMPORTS_PER_SOL,
+        ])
+      ),
+      tokens: this.buybackService.getTokens().map((token) => ({
+        mint: token.getMint(),
+        venue: token.getVenue(),
+        pendingSol: token.getPendingBalance(),
+        pauseReason: token.getPauseReason(),
+      })),
+      stats: this.getStats(),
+    };
+  }
+
+  /**
+   * Buy a token with the requested amount of SOL
+   */
+  private async manualBuyback(
+    body: Record<string, unknown>,
+    source: string,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const sol = body.sol;
+    const mint = body.mint;
+    if (typeof sol !== 'number' || !(sol > 0)) {
+      throw new ControlError(400, '"sol" must be a positive number');
+    }
+    if (mint !== undefined && typeof mint !== 'string') {
+      throw new ControlError(400, '"mint" must be a string');
+    }
+    const token = this.buybackService.getToken(mint);
+    if (!token) {
+      throw new ControlError(400, `Token ${mint} is not configured`);
+    }
+    const pauseReason = token.getPauseReason();
+    if (pauseReason !== null) {
+      throw new ControlError(409, `Buybacks of ${token.getMint()} are paused: ${pauseReason}`);
+    }
+    this.assertIdle();
+
+    const record = await this.runner.runManualBuyback(sol, mint);
+    await this.auditRecord('buyback', source, { sol, mint }, record);
+    this.reply(res, record.status === 'success' ? 200 : 502, record);
+  }
+
+  /**
+   * Run a cycle that claims regardless of the claim threshold
+   */
+  private async forceClaim(source: string, res: http.ServerResponse): Promise<void> {
+    this.assertIdle();
+
+    const record = await this.runner.runCycle({ forceClaim: true });
+    await this.auditRecord('claim', source, {}, record);
+    this.reply(res, record.status === 'error' ? 502 : 200, record);
+  }
+
+  /**
+   * Pause scheduled cycles
+   */
+  private async pause(body: Record<string, unknown>, source: string, res: http.ServerResponse): Promise<void> {
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim() : 'paused by operator';
+    this.buybackService.pause(reason);
+    await this.audit.append({ action: 'pause', source, params: { reason }, outcome: 'ok' });
+    this.reply(res, 200, { paused: true, pauseReason: reason });
+  }
+
+  /**
+   * Refuse actions while a cycle or another manual buyback is running
+   */
+  private assertIdle(): void {
+    if (this.buybackService.isBusy()) {
+      throw new ControlError(409, 'A buyback cycle is running, try again later');
+    }
+  }
+
+  /**
+   * Audit an action that produced a ledger record
+   */
+  private async auditRecord(
+    action: string,
+    source: string,
+    params: Record<string, unknown>,
+    record: CycleRecord
+  ): Promise<void> {
+    const failed = record.status === 'error' || record.status === 'buy-failed';
+    await this.audit.append({
+      action,
+      source,
+      params,
+      outcome: failed ? 'failed' : 'ok',
+      detail: `${record.status}` + (record.failureReason ? `: ${record.failureReason}` : ''),
+    });
+  }
+
+  /**
+   * Read and parse a JSON request body; an empty body is an empty object
+   */
+  private async readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new ControlError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf8').trim();
+    if (!text) {
+      return {};
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ControlError(400, 'Request body must be JSON');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new ControlError(400, 'Request body must be a JSON object');
+    }
+    return body as Record<string, unknown>;
+  }
+
+  /**
+   * Send a JSON response
+   */
+  private reply(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(toJson(body) + '\n');
+  }
+}
@@ -0,0 +1,277 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { roundSolToLamports } from '../utils/wallet';
+import { logger } from '../utils/logger';
+import { CycleLedger, CycleRecord, TokenCycleRecord } from '../utils/ledger';
+import { BuybackService, BuybackCycleError, BuybackCycleResult, CycleOptions } from './buyback';
+import { TokenBuybackResult } from './token-buyback';
+
+/**
+ * Build the per-token part of a ledger record, only used when several tokens are configured
+ * Tokens without a result (their buy step did not run) are recorded as skipped
+ */
+function toTokenRecords(
+  buybackService: BuybackService,
+  results: TokenBuybackResult[],
+  attributedLamports: Record<string, number> = {}
+): TokenCycleRecord[] | undefined {
+  const tokens = buybackService.getTokens();
+  if (tokens.length < 2) {
+    return undefined;
+  }
+
+  return tokens.map((token) => {
+    const mint = token.getMint();
+    const tokenResult = results.find((candidate) => candidate.mint === mint);
+    return {
+      mint,
+      status: tokenResult?.status ?? 'skipped',
+      attributedLamports: attributedLamports[mint] ?? 0,
+      buySignatures: tokenResult?.buybackTxs ?? [],
+      solSpentLamports: roundSolToLamports(tokenResult?.solSpent ?? 0),
+      tokensReceived: tokenResult?.tokensReceived != null ? tokenResult.tokensReceived.toString() : null,
+      tokensBurned: tokenResult && tokenResult.tokensBurned > 0n ? tokenResult.tokensBurned.toString() : undefined,
+      tokensLocked: tokenResult && tokenResult.tokensLocked > 0n ? tokenResult.tokensLocked.toString() : undefined,
+      postBuybackSignature: tokenResult?.postBuybackTx ?? undefined,
+      failureReason: tokenResult?.failureReason ?? null,
+      guardReason: tokenResult?.guardReason ?? undefined,
+      pendingLamports: token.getPendingLamports(),
+      owedPostBuybackTokens: owedTokensOrUndefined(token.getOwedPostBuybackTokens()),
+    };
+  });
+}
+
+/**
+ * Drop a zero owed post-buyback token amount so it is left out of the ledger record
+ */
+function owedTokensOrUndefined(amount: bigint): string | undefined {
+  return amount > 0n ? amount.toString() : undefined;
+}
+
+/**
+ * Get the owed post-buyback tokens of the only configured token, since amounts of different mints cannot be added up
+ */
+function singleTokenOwed(buybackService: BuybackService): string | undefined {
+  const tokens = buybackService.getTokens();
+  return tokens.length === 1 ? owedTokensOrUndefined(tokens[0].getOwedPostBuybackTokens()) : undefined;
+}
+
+/**
+ * Drop an empty owed allocations map so it is left out of the ledger record
+ */
+function owedOrUndefined(owed: Record<string, number>): Record<string, number> | undefined {
+  return Object.keys(owed).length > 0 ? owed : undefined;
+}
+
+/**
+ * Create a short identifier for a cycle, attached to its log lines and ledger record
+ */
+function newCycleId(): string {
+  return crypto.randomBytes(4).toString('hex');
+}
+
+/**
+ * Runs buyback cycles and manual buybacks and records each of them in the ledger
+ * Every line logged during a cycle carries the cycle's id
+ *
+ * Events:
+ * - 'record' (record: CycleRecord): a cycle or manual buyback was recorded
+ */
+export class CycleRunner extends EventEmitter {
+  private buybackService: BuybackService;
+  private ledger: CycleLedger;
+  private dryRun: boolean;
+
+  constructor(buybackService: BuybackService, ledger: CycleLedger, dryRun: boolean) {
+    super();
+    this.buybackService = buybackService;
+    this.ledger = ledger;
+    this.dryRun = dryRun;
+  }
+
+  /**
+   * Run a single buyback cycle and record it in the ledger
+   */
+  runCycle(options: CycleOptions = {}): Promise<CycleRecord> {
+    const cycleId = newCycleId();
+    return logger.runWithContext({ cycleId }, () => this.executeCycle(cycleId, options));
+  }
+
+  /**
+   * Buy a token with a given amount of SOL outside the cycle and record it in the ledger
+   * The SOL comes from the wallet; the pending buyback balance is left untouched
+   * Throws without recording anything if the token is unknown or a cycle is running
+   * @param mint - Token to buy, the first configured token by default
+   */
+  runManualBuyback(solAmount: number, mint?: string): Promise<CycleRecord> {
+    const cycleId = newCycleId();
+    return logger.runWithContext({ cycleId }, () => this.executeManualBuyback(cycleId, solAmount, mint));
+  }
+
+  /**
+   * Run a single buyback cycle
+   */
+  private async executeCycle(cycleId: string, options: CycleOptions): Promise<CycleRecord> {
+    const startedAt = new Date().toISOString();
+    let record: CycleRecord;
+
+    try {
+      const result = await this.buybackService.executeAutomaticBuyback(options);
+      record = this.toRecord(startedAt, result);
+    } catch (error: any) {
+      logger.error('Error in buyback cycle:', error);
+      if (error instanceof BuybackCycleError) {
+        // Keep what the cycle claimed, transferred and bought before failing
+        record = this.toRecord(startedAt, error.result);
+      } else {
+        record = {
+          startedAt,
+          finishedAt: new Date().toISOString(),
+          status: 'error',
+          claimSignature: null,
+          claimedLamports: 0,
+          buySignature: null,
+          solSpentLamports: 0,
+          tokensReceived: null,
+          failureReason: error?.message || String(error),
+          owedAllocations: owedOrUndefined(this.buybackService.getOwedAllocations()),
+          pendingLamports: this.buybackService.getPendingLamports(),
+          owedPostBuybackTokens: singleTokenOwed(this.buybackService),
+          tokens: toTokenRecords(this.buybackService, []),
+          simulated: this.dryRun || undefined,
+        };
+      }
+    }
+
+    record.cycleId = cycleId;
+    if (options.forceClaim) {
+      record.manual = 'claim';
+    }
+    await this.record(record);
+    return record;
+  }
+
+  /**
+   * Run a manual buyback
+   */
+  private async executeManualBuyback(cycleId: string, solAmount: number, mint?: string): Promise<CycleRecord> {
+    const token = this.buybackService.getToken(mint);
+    if (!token) {
+      throw new Error(`Token ${mint} is not configured`);
+    }
+    if (this.buybackService.isBusy()) {
+      throw new Error('A buyback cycle is running');
+    }
+
+    const startedAt = new Date().toISOString();
+    const buy = await this.buybackService.executeBuybackWithAmount(solAmount, token.getMint());
+
+    const result: TokenBuybackResult = {
+      mint: token.getMint(),
+      status: buy ? 'success' : 'buy-failed',
+      buybackTx: buy?.signature ?? null,
+      buybackTxs: buy ? [buy.signature] : [],
+      solSpent: buy?.solSpent ?? 0,
+      tokensReceived: buy?.tokensReceived ?? null,
+      networkFee: buy?.networkFee ?? 0,
+      failureReason: buy ? null : 'manual buyback failed',
+      guardReason: null,
+      postBuybackTx: null,
+      tokensBurned: 0n,
+      tokensLocked: 0n,
+    };
+
+    const record: CycleRecord = {
+      cycleId,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      status: result.status,
+      claimSignature: null,
+      claimedLamports: 0,
+      buySignature: result.buybackTx,
+      solSpentLamports: roundSolToLamports(result.solSpent),
+      tokensReceived: result.tokensReceived !== null ? result.tokensReceived.toString() : null,
+      networkFeeLamports: roundSolToLamports(result.networkFee),
+      failureReason: result.failureReason,
+      owedAllocations: owedOrUndefined(this.buybackService.getOwedAllocations()),
+      tokens: toTokenRecords(this.buybackService, [result]),
+      pendingLamports: this.buybackService.getPendingLamports(),
+      owedPostBuybackTokens: singleTokenOwed(this.buybackService),
+      simulated: this.dryRun || undefined,
+      manual: 'buyback',
+    };
+
+    await this.record(record);
+    return record;
+  }
+
+  /**
+   * Build the ledger record of a finished cycle
+   */
+  private toRecord(startedAt: string, result: BuybackCycleResult): CycleRecord {
+    return {
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      status: result.status,
+      claimSignature: result.claimTx,
+      claimSignatures: result.claimTxs.length > 1 ? result.claimTxs : undefined,
+      claimedLamports: roundSolToLamports(result.claimedSol),
+      claimFailed: result.claimFailed || undefined,
+      buySignature: result.buybackTx,
+      buySignatures: result.buybackTxs.length > 1 ? result.buybackTxs : undefined,
+      solSpentLamports: roundSolToLamports(result.solSpent),
+      tokensReceived: result.tokensReceived !== null ? result.tokensReceived.toString() : null,
+      networkFeeLamports: roundSolToLamports(result.networkFee),
+      failureReason: result.failureReason,
+      allocations:
+        result.allocations.length > 0
+          ? result.allocations.map((allocation) => ({
+              name: allocation.name,
+              destination: allocation.destination,
+              lamports: allocation.lamports,
+              signature: allocation.signature,
+              retry: allocation.retry || undefined,
+            }))
+          : undefined,
+      buybackAllocationLamports: result.allocations.length > 0 ? result.buybackAllocationLamports : undefined,
+      owedAllocations: owedOrUndefined(this.buybackService.getOwedAllocations()),
+      tokens: toTokenRecords(this.buybackService, result.tokens, result.attributedLamports),
+      guardReason: result.guardReason ?? undefined,
+      postBuybackAction:
+        result.tokensBurned > 0n ? 'burn' : result.tokensLocked > 0n ? 'transfer' : undefined,
+      postBuybackSignature: result.postBuybackTx ?? undefined,
+      tokensBurned: result.tokensBurned > 0n ? result.tokensBurned.toString() : undefined,
+      tokensLocked: result.tokensLocked > 0n ? result.tokensLocked.toString() : undefined,
+      pendingLamports: this.buybackService.getPendingLamports(),
+      owedPostBuybackTokens: singleTokenOwed(this.buybackService),
+      simulated: result.simulated || undefined,
+    };
+  }
+
+  /**
+   * Append a record to the ledger and announce it
+   */
+  private async record(record: CycleRecord): Promise<void> {
+    logger.event('info', 'cycle-recorded', `Cycle recorded with status ${record.status}`, {
+      status: record.status,
+      manual: record.manual,
+      claimSignature: record.claimSignature,
+      claimSignatures: record.claimSignatures,
+      claimedLamports: record.claimedLamports,
+      claimFailed: record.claimFailed,
+      buySignature: record.buySignature,
+      solSpentLamports: record.solSpentLamports,
+      tokensReceived: record.tokensReceived,
+      networkFeeLamports: record.networkFeeLamports,
+      failureReason: record.failureReason,
+      pendingLamports: record.pendingLamports,
+      simulated: record.simulated,
+    });
+    try {
+      await this.ledger.append(record);
+    } catch (error) {
+      logger.error('Failed to write cycle to ledger:', error);
+    }
+    this.emit('record', record);
+  }
+}
@@ -0,0 +1,123 @@
+import { EventEmitter } from 'events';
+import { WalletManager } from '../utils/wallet';
+import { PumpFunService } from './pumpfun';
+import { PumpSwapService } from './pumpswap';
+import { logger } from '../utils/logger';
+
+/**
+ * Lifecycle stage of the token
+ * - bonding-curve: still trading on the pump.fun bonding curve
+ * - migrating: curve is complete but the PumpSwap pool is not live yet
+ * - migrated: the canonical PumpSwap pool exists
+ */
+export type GraduationState = 'bonding-curve' | 'migrating' | 'migrated';
+
+/**
+ * Watches the bonding curve for graduation and the PumpSwap pool for migration
+ * Uses an account subscription on the bonding curve PDA, backed by polling in
+ * case the websocket drops
+ *
+ * Events:
+ * - 'graduated': the bonding curve completed, migration is in flight
+ * - 'migrated' (pool: PublicKey): the PumpSwap pool is live
+ */
+export class GraduationWatcher extends EventEmitter {
+  private wallet: WalletManager;
+  private pumpfun: PumpFunService;
+  private pumpswap: PumpSwapService;
+  private pollIntervalMs: number;
+  private state: GraduationState = 'bonding-curve';
+  private subscriptionId: number | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    wallet: WalletManager,
+    pumpfun: PumpFunService,
+    pumpswap: PumpSwapService,
+    pollIntervalMs: number
+  ) {
+    super();
+    this.wallet = wallet;
+    this.pumpfun = pumpfun;
+    this.pumpswap = pumpswap;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  /**
+   * Get the current lifecycle stage of the token
+   */
+  getState(): GraduationState {
+    return this.state;
+  }
+
+  /**
+   * Run an initial check and start watching for changes
+   */
+  async start(): Promise<void> {
+    await this.check();
+    if (this.state === 'migrated') {
+      return;
+    }
+
+    this.subscriptionId = this.wallet
+      .getConnection()
+      .onAccountChange(this.pumpfun.getBondingCurvePDA(), () => void this.check(), 'confirmed');
+
+    this.pollTimer = setInterval(() => void this.check(), this.pollIntervalMs);
+  }
+
+  /**
+   * Stop watching
+   */
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.subscriptionId !== null) {
+      const subscriptionId = this.subscriptionId;
+      this.subscriptionId = null;
+      await this.wallet.getConnection().removeAccountChangeListener(subscriptionId);
+    }
+  }
+
+  /**
+   * Check the bonding curve and pool, emitting events on state transitions
+   */
+  private async check(): Promise<void> {
+    if (this.checking || this.state === 'migrated') {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      if (this.state === 'bonding-curve') {
+        if (!(await this.pumpfun.hasGraduated())) {
+          return;
+        }
+        this.state = 'migrating';
+        this.emit('graduated');
+
+        // The curve account no longer changes, only the pool needs polling now
+        if (this.subscriptionId !== null) {
+          const subscriptionId = this.subscriptionId;
+          this.subscriptionId = null;
+          await this.wallet.getConnection().removeAccountChangeListener(subscriptionId);
+        }
+      }
+
+      if (this.state === 'migrating' && (await this.pumpswap.hasPool())) {
+        this.state = 'migrated';
+        await this.stop();
+        this.emit('migrated', this.pumpswap.getPoolPDA());
+      } else {
+        logger.debug('Waiting for PumpSwap pool to go live...');
+      }
+    } catch (error) {
+      logger.error('Graduation check failed:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BotConfig, PUMPFUN_CONSTANTS } from '../config';
+import { BondingCurveData } from './pumpfun';
+import { PumpSwapReserves } from './pumpswap';
+
+/**
+ * SOL and token reserves of a constant product market (raw units)
+ * On the bonding curve these are the virtual reserves
+ */
+export interface MarketReserves {
+  solReserves: bigint;
+  tokenReserves: bigint;
+}
+
+/**
+ * Outcome of the pre-trade checks for a buy
+ */
+export interface GuardDecision {
+  // SOL to buy with, possibly resized down; 0 when the buy is deferred
+  solAmount: number;
+  deferred: boolean;
+  // Why the buy was resized or deferred, or null if it passed unchanged
+  reason: string | null;
+}
+
+// Smallest buy worth sending after resizing (in lamports)
+const MIN_RESIZED_BUY_LAMPORTS = 1_000_000;
+
+/**
+ * Get market reserves from bonding curve data
+ */
+export function reservesFromCurve(curveData: BondingCurveData): MarketReserves {
+  return {
+    solReserves: curveData.virtualSolReserves,
+    tokenReserves: curveData.virtualTokenReserves,
+  };
+}
+
+/**
+ * Get market reserves from PumpSwap pool reserves
+ */
+export function reservesFromPool(reserves: PumpSwapReserves): MarketReserves {
+  return {
+    solReserves: reserves.quoteReserves,
+    tokenReserves: reserves.baseReserves,
+  };
+}
+
+/**
+ * Spot price in SOL per whole token
+ */
+export function getSpotPrice(reserves: MarketReserves): number {
+  const sol = Number(reserves.solReserves) / LAMPORTS_PER_SOL;
+  const tokens = Number(reserves.tokenReserves) / 10 ** PUMPFUN_CONSTANTS.TOKEN_DECIMALS;
+  return sol / tokens;
+}
+
+/**
+ * Price impact of buying with a SOL amount, in basis points
+ * For a constant product market the price after adding dx SOL is ((x + dx) / x)^2 times the spot price
+ */
+export function getPriceImpactBps(solAmount: number, reserves: MarketReserves): number {
+  const x = Number(reserves.solReserves) / LAMPORTS_PER_SOL;
+  return (((x + solAmount) / x) ** 2 - 1) * 10_000;
+}
+
+/**
+ * Largest SOL amount whose price impact stays within a limit in basis points
+ */
+export function getMaxSolForImpact(maxImpactBps: number, reserves: MarketReserves): number {
+  const x = Number(reserves.solReserves) / LAMPORTS_PER_SOL;
+  return x * (Math.sqrt(1 + maxImpactBps / 10_000) - 1);
+}
+
+/**
+ * Pre-trade price guards: price impact limit, spot price ceiling and moving-average deviation
+ * A zero limit disables the corresponding check
+ */
+export class PriceGuard {
+  private config: BotConfig;
+  private priceSamples: number[] = [];
+
+  constructor(config: BotConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Check a buy against the configured guards, resizing or deferring it if needed
+   */
+  check(solAmount: number, reserves: MarketReserves): GuardDecision {
+    const spotPrice = getSpotPrice(reserves);
+    const movingAverage = this.recordPrice(spotPrice);
+
+    if (this.config.maxSpotPriceSol > 0 && spotPrice > this.config.maxSpotPriceSol) {
+      return this.defer(
+        `spot price ${spotPrice.toExponential(4)} SOL is above the ceiling of ${this.config.maxSpotPriceSol} SOL`
+      );
+    }
+
+    if (this.config.maDeviationBps > 0 && movingAverage !== null) {
+      const deviationBps = (spotPrice / movingAverage - 1) * 10_000;
+      if (deviationBps > this.config.maDeviationBps) {
+        return this.defer(
+          `spot price is ${deviationBps.toFixed(0)} bps above its moving average (limit ${this.config.maDeviationBps} bps)`
+        );
+      }
+    }
+
+    if (this.config.maxPriceImpactBps > 0) {
+      const impactBps = getPriceImpactBps(solAmount, reserves);
+      if (impactBps > this.config.maxPriceImpactBps) {
+        const resized = getMaxSolForImpact(this.config.maxPriceImpactBps, reserves);
+        if (resized * LAMPORTS_PER_SOL < MIN_RESIZED_BUY_LAMPORTS) {
+          return this.defer(
+            `price impact ${impactBps.toFixed(0)} bps exceeds ${this.config.maxPriceImpactBps} bps and the resized buy is too small`
+          );
+        }
+        return {
+          solAmount: resized,
+          deferred: false,
+          reason: `resized from ${solAmount.toFixed(6)} to ${resized.toFixed(6)} SOL: price impact ${impactBps.toFixed(0)} bps exceeds ${this.config.maxPriceImpactBps} bps`,
+        };
+      }
+    }
+
+    return { solAmount, deferred: false, reason: null };
+  }
+
+  /**
+   * Add a spot price sample and return the moving average of the previous samples
+   * Returns null until enough samples have been collected
+   */
+  private recordPrice(spotPrice: number): number | null {
+    const previous = [...this.priceSamples];
+    this.priceSamples.push(spotPrice);
+    if (this.priceSamples.length > this.config.maWindowSamples) {
+      this.priceSamples.shift();
+    }
+
+    if (previous.length < this.config.maWindowSamples) {
+      return null;
+    }
+    return previous.reduce((sum, price) => sum + price, 0) / previous.length;
+  }
+
+  /**
+   * Build a deferred decision
+   */
+  private defer(reason: string): GuardDecision {
+    return { solAmount: 0, deferred: true, reason };
+  }
+}
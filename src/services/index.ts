@@ -3,4 +3,15 @@
  */
 
 export * from './pumpfun';
+export * from './pumpswap';
 export * from './buyback';
+export * from './token-buyback';
+export * from './graduation';
+export * from './twap';
+export * from './guards';
+export * from './allocation';
+export * from './attribution';
+export * from './metrics';
+export * from './cycle-runner';
+export * from './control';
+export * from './notifier';
@@ -0,0 +1,301 @@
+import http from 'http';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BotConfig } from '../config';
+import { WalletManager } from '../utils/wallet';
+import { CycleLedger, CycleRecord, CycleStatus } from '../utils/ledger';
+import { logger } from '../utils/logger';
+import { BuybackService } from './buyback';
+import { BondingCurveData } from './pumpfun';
+
+// How long the RPC may take to answer a health check (in milliseconds)
+const RPC_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * A sample of a metric, with optional labels
+ */
+interface MetricSample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+/**
+ * Format a metric in the Prometheus text exposition format
+ */
+function formatMetric(name: string, type: 'counter' | 'gauge', help: string, samples: MetricSample[]): string {
+  const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+  for (const sample of samples) {
+    const labels = Object.entries(sample.labels ?? {})
+      .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`)
+      .join(',');
+    lines.push(`${name}${labels ? `{${labels}}` : ''} ${sample.value}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Optional HTTP server exposing Prometheus metrics and health checks
+ * - /metrics: cycle counters since the process started, plus wallet balance and curve reserves read live
+ * - /healthz: fails if no cycle completed within the allowed number of intervals or the RPC is unreachable
+ * - /readyz: same as /healthz, and also fails until the first cycle has completed
+ */
+export class MetricsServer {
+  private config: BotConfig;
+  private wallet: WalletManager;
+  private buybackService: BuybackService;
+  private server: http.Server | null = null;
+  private startedAt = Date.now();
+
+  // Counters since the process started
+  private cycles: Partial<Record<CycleStatus, number>> = {};
+  private claims = 0;
+  private successfulBuybacks = 0;
+  private failedBuybacks = 0;
+  private claimedLamports = 0;
+  private spentLamports = 0;
+  private networkFeeLamports = 0;
+  private tokensBought = new Map<string, bigint>();
+
+  // Completion time and duration of the last cycle
+  private lastCycleAt: number | null = null;
+  private lastCycleDuration = 0;
+
+  constructor(config: BotConfig, wallet: WalletManager, buybackService: BuybackService) {
+    this.config = config;
+    this.wallet = wallet;
+    this.buybackService = buybackService;
+  }
+
+  /**
+   * Start listening on the configured host and port
+   */
+  async start(): Promise<void> {
+    const server = http.createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.metricsPort, this.config.metricsHost, () => resolve());
+    });
+    this.server = server;
+    logger.info(`Metrics server listening on ${this.config.metricsHost}:${this.config.metricsPort}`);
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Count a finished cycle
+   */
+  recordCycle(record: CycleRecord): void {
+    const totals = CycleLedger.summarize([record]);
+    this.cycles[record.status] = (this.cycles[record.status] ?? 0) + 1;
+    if (record.claimSignature) {
+      this.claims += record.claimSignatures?.length ?? 1;
+    }
+    this.successfulBuybacks += totals.successfulBuybacks;
+    this.failedBuybacks += totals.failedBuybacks;
+    this.claimedLamports += totals.totalClaimedLamports;
+    this.spentLamports += totals.totalSpentLamports;
+    this.networkFeeLamports += totals.totalNetworkFeeLamports;
+
+    // Single-token records only carry the cycle total
+    const bought = record.tokens
+      ? record.tokens.map((token) => [token.mint, BigInt(token.tokensReceived ?? 0)] as const)
+      : [[this.config.tokenMintAddress, totals.totalTokensReceived] as const];
+    for (const [mint, amount] of bought) {
+      this.tokensBought.set(mint, (this.tokensBought.get(mint) ?? 0n) + amount);
+    }
+
+    const finishedAt = Date.parse(record.finishedAt);
+    this.lastCycleAt = finishedAt;
+    this.lastCycleDuration = (finishedAt - Date.parse(record.startedAt)) / 1000;
+  }
+
+  /**
+   * Route a request
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0];
+    try {
+      if (req.method !== 'GET') {
+        this.reply(res, 405, 'Method not allowed\n');
+      } else if (path === '/metrics') {
+        this.reply(res, 200, await this.renderMetrics(), 'text/plain; version=0.0.4; charset=utf-8');
+      } else if (path === '/healthz' || path === '/readyz') {
+        const problem = await this.checkHealth(path === '/readyz');
+        this.reply(res, problem ? 503 : 200, `${problem ?? 'ok'}\n`);
+      } else {
+        this.reply(res, 404, 'Not found\n');
+      }
+    } catch (error: any) {
+      logger.error('Failed to serve metrics request:', error.message || error);
+      this.reply(res, 500, 'Internal error\n');
+    }
+  }
+
+  /**
+   * Send a plain text response
+   */
+  private reply(
+    res: http.ServerResponse,
+    status: number,
+    body: string,
+    contentType = 'text/plain; charset=utf-8'
+  ): void {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+  }
+
+  /**
+   * Check the bot's health
+   * @param requireCycle - Also fail until the first cycle has completed
+   * @returns The problem found, or null if healthy
+   */
+  private async checkHealth(requireCycle: boolean): Promise<string | null> {
+    if (requireCycle && this.lastCycleAt === null) {
+      return 'no cycle completed yet';
+    }
+
+    const maxAgeMs = this.config.healthMaxMissedIntervals * this.config.checkIntervalMinutes * 60_000;
+    const since = this.lastCycleAt ?? this.startedAt;
+    if (Date.now() - since > maxAgeMs) {
+      return `no cycle completed in the last ${this.config.healthMaxMissedIntervals} intervals`;
+    }
+
+    if (!(await this.isRpcReachable())) {
+      return 'RPC unreachable';
+    }
+    return null;
+  }
+
+  /**
+   * Check that the RPC answers within the timeout
+   */
+  private async isRpcReachable(): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('timed out')), RPC_CHECK_TIMEOUT_MS);
+      });
+      await Promise.race([this.wallet.getConnection().getSlot(), timeout]);
+      return true;
+    } catch (error: any) {
+      logger.warn('RPC health check failed:', error.message || error);
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Render all metrics, reading the wallet balance and curve reserves live
+   */
+  private async renderMetrics(): Promise<string> {
+    const metrics = [
+      formatMetric(
+        'buyback_cycles_total',
+        'counter',
+        'Buyback cycles run, by outcome',
+        Object.entries(this.cycles).map(([status, value]) => ({ labels: { status }, value: value ?? 0 }))
+      ),
+      formatMetric('buyback_claims_total', 'counter', 'Creator fee claims sent', [{ value: this.claims }]),
+      formatMetric('buyback_buybacks_total', 'counter', 'Buybacks attempted, by result', [
+        { labels: { result: 'success' }, value: this.successfulBuybacks },
+        { labels: { result: 'failed' }, value: this.failedBuybacks },
+      ]),
+      formatMetric('buyback_sol_claimed_total', 'counter', 'SOL claimed from creator fees', [
+        { value: this.claimedLamports / LAMPORTS_PER_SOL },
+      ]),
+      formatMetric('buyback_sol_spent_total', 'counter', 'SOL spent on buybacks', [
+        { value: this.spentLamports / LAMPORTS_PER_SOL },
+      ]),
+      formatMetric('buyback_network_fees_sol_total', 'counter', 'SOL paid in network fees', [
+        { value: this.networkFeeLamports / LAMPORTS_PER_SOL },
+      ]),
+      formatMetric(
+        'buyback_tokens_bought_total',
+        'counter',
+        'Tokens bought back, in raw token units',
+        [...this.tokensBought].map(([mint, amount]) => ({ labels: { mint }, value: Number(amount) }))
+      ),
+      formatMetric('buyback_pending_sol', 'gauge', 'SOL set aside for buybacks but not spent yet', [
+        { value: this.buybackService.getPendingBalance() },
+      ]),
+      formatMetric(
+        'buyback_last_cycle_timestamp_seconds',
+        'gauge',
+        'Unix time the last cycle completed',
+        this.lastCycleAt !== null ? [{ value: this.lastCycleAt / 1000 }] : []
+      ),
+      formatMetric('buyback_last_cycle_duration_seconds', 'gauge', 'Duration of the last cycle', [
+        { value: this.lastCycleDuration },
+      ]),
+      formatMetric('buyback_paused', 'gauge', 'Whether buybacks are paused', [
+        { value: this.buybackService.isPaused() ? 1 : 0 },
+      ]),
+      formatMetric('buyback_dry_run', 'gauge', 'Whether transactions are only simulated', [
+        { value: this.config.dryRun ? 1 : 0 },
+      ]),
+    ];
+
+    try {
+      metrics.push(
+        formatMetric('buyback_wallet_balance_sol', 'gauge', 'SOL balance of the bot wallet', [
+          { value: await this.wallet.getBalance() },
+        ])
+      );
+    } catch (error: any) {
+      logger.warn('Could not read wallet balance for metrics:', error.message || error);
+    }
+
+    const reserves = await Promise.all(
+      this.buybackService.getTokens().map(async (token) => ({
+        mint: token.getMint(),
+        curve: await token.getPumpFun().getBondingCurveData(),
+      }))
+    );
+    const curves = reserves.filter((entry) => entry.curve !== null);
+    const curveMetric = (name: string, help: string, value: (curve: BondingCurveData) => number) =>
+      formatMetric(
+        name,
+        'gauge',
+        help,
+        curves.map((entry) => ({ labels: { mint: entry.mint }, value: value(entry.curve!) }))
+      );
+    metrics.push(
+      curveMetric(
+        'buyback_curve_virtual_sol_reserves',
+        'Virtual SOL reserves of the bonding curve, in lamports',
+        (curve) => Number(curve.virtualSolReserves)
+      ),
+      curveMetric(
+        'buyback_curve_virtual_token_reserves',
+        'Virtual token reserves of the bonding curve, in raw token units',
+        (curve) => Number(curve.virtualTokenReserves)
+      ),
+      curveMetric(
+        'buyback_curve_real_sol_reserves',
+        'Real SOL reserves of the bonding curve, in lamports',
+        (curve) => Number(curve.realSolReserves)
+      ),
+      curveMetric(
+        'buyback_curve_real_token_reserves',
+        'Real token reserves of the bonding curve, in raw token units',
+        (curve) => Number(curve.realTokenReserves)
+      ),
+      curveMetric(
+        'buyback_curve_complete',
+        'Whether the bonding curve has completed (token graduated)',
+        (curve) => (curve.complete ? 1 : 0)
+      )
+    );
+
+    return metrics.join('\n') + '\n';
+  }
+}
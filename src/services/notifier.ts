@@ -0,0 +1,294 @@
+import axios from 'axios';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { BotConfig, NotificationEvent, NotificationSinkConfig } from '../config';
+import { formatExplorerTxUrl } from '../cluster';
+import { CycleRecord } from '../utils/ledger';
+import { logger } from '../utils/logger';
+
+// Most notifications sent in one message (Discord allows at most 10 embeds per message)
+const MAX_BATCH_SIZE = 10;
+
+// Most notifications queued per sink; the oldest are dropped beyond it
+const MAX_QUEUE_SIZE = 100;
+
+// Longest Telegram message text
+const TELEGRAM_MAX_TEXT = 4096;
+
+// Window of the per-sink rate limit (in milliseconds)
+const RATE_WINDOW_MS = 60_000;
+
+// How long a sink may take to accept a message (in milliseconds)
+const SEND_TIMEOUT_MS = 10_000;
+
+/**
+ * A notification sent to the sinks subscribed to its event
+ */
+export interface Notification {
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  // Structured details, e.g. amounts and signatures
+  fields?: Record<string, string | number>;
+  time: string;
+}
+
+/**
+ * Queue, batch timer and rate limit state of a sink
+ */
+interface SinkState {
+  config: NotificationSinkConfig;
+  queue: Notification[];
+  timer: NodeJS.Timeout | null;
+  // Send times of recent messages, for the rate limit
+  sentAt: number[];
+  // Notifications dropped since the last message because the queue was full
+  dropped: number;
+}
+
+/**
+ * Render a notification as plain text
+ */
+function toText(notification: Notification): string {
+  const fields = Object.entries(notification.fields ?? {}).map(([name, value]) => `${name}: ${value}`);
+  return [notification.title, notification.message, ...fields].filter((line) => line).join('\n');
+}
+
+/**
+ * Build the request body of a message to a sink
+ */
+function buildPayload(sink: NotificationSinkConfig, batch: Notification[], dropped: number): unknown {
+  const droppedNote = dropped > 0 ? `(${dropped} earlier notifications dropped)` : '';
+
+  switch (sink.kind) {
+    case 'telegram': {
+      const text = [...batch.map(toText), droppedNote].filter((part) => part).join('\n\n');
+      return {
+        chat_id: sink.chatId,
+        text: text.length > TELEGRAM_MAX_TEXT ? `${text.slice(0, TELEGRAM_MAX_TEXT - 3)}...` : text,
+        disable_web_page_preview: true,
+      };
+    }
+    case 'discord':
+      return {
+        content: droppedNote || undefined,
+        embeds: batch.map((notification) => ({
+          title: notification.title,
+          description: notification.message,
+          timestamp: notification.time,
+          fields: Object.entries(notification.fields ?? {}).map(([name, value]) => ({
+            name,
+            value: String(value),
+            inline: true,
+          })),
+        })),
+      };
+    case 'webhook':
+      return { notifications: batch, dropped };
+  }
+}
+
+/**
+ * Sends alerts to Telegram, Discord and generic JSON webhooks
+ * Each sink only receives the events selected for it. Notifications are collected for
+ * `notifyBatchSeconds` and sent as one message, and each sink gets at most
+ * `notifyMaxPerMinute` messages; anything beyond waits for the next batch.
+ * Delivery failures are logged and never thrown.
+ */
+export class Notifier {
+  private config: BotConfig;
+  private sinks: SinkState[];
+
+  // Consecutive cycles whose claim failed, and whether that streak was reported
+  private claimFailures = 0;
+  private claimFailureReported = false;
+
+  // Whether the current low balance was reported
+  private lowBalanceReported = false;
+
+  constructor(config: BotConfig) {
+    this.config = config;
+    this.sinks = config.notificationSinks.map((sink) => ({
+      config: sink,
+      queue: [],
+      timer: null,
+      sentAt: [],
+      dropped: 0,
+    }));
+  }
+
+  /**
+   * Check if any sink is configured
+   */
+  isEnabled(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  /**
+   * Queue a notification for every sink subscribed to its event
+   */
+  notify(
+    event: NotificationEvent,
+    title: string,
+    message: string,
+    fields?: Record<string, string | number>
+  ): void {
+    const notification: Notification = {
+      event,
+      title: this.config.dryRun ? `[DRY RUN] ${title}` : title,
+      message,
+      fields,
+      time: new Date().toISOString(),
+    };
+
+    for (const sink of this.sinks) {
+      if (!sink.config.events.includes(event)) {
+        continue;
+      }
+      sink.queue.push(notification);
+      if (sink.queue.length > MAX_QUEUE_SIZE) {
+        sink.queue.shift();
+        sink.dropped++;
+      }
+      this.schedule(sink, this.config.notifyBatchSeconds * 1000);
+    }
+  }
+
+  /**
+   * Notify about a recorded cycle: landed buybacks and streaks of failed claims
+   */
+  recordCycle(record: CycleRecord): void {
+    if (record.buySignature && record.solSpentLamports > 0) {
+      const signatures = record.buySignatures ?? [record.buySignature];
+      const fields: Record<string, string | number> = {
+        'SOL spent': (record.solSpentLamports / LAMPORTS_PER_SOL).toFixed(6),
+      };
+      if (record.tokensReceived !== null) {
+        fields['Tokens received'] = record.tokensReceived;
+      }
+      if (record.claimSignature) {
+        fields['SOL claimed'] = (record.claimedLamports / LAMPORTS_PER_SOL).toFixed(6);
+        fields['Claim'] = (record.claimSignatures ?? [record.claimSignature])
+          .map((signature) => formatExplorerTxUrl(this.config.network.explorerTxUrl, signature))
+          .join('\n');
+      }
+      this.notify(
+        'buyback',
+        record.manual === 'buyback' ? 'Manual buyback landed' : 'Buyback landed',
+        signatures.map((signature) => formatExplorerTxUrl(this.config.network.explorerTxUrl, signature)).join('\n'),
+        fields
+      );
+    }
+
+    // Cycles that errored before claiming count as failed claims
+    const claimFailed = record.claimFailed || (record.status === 'error' && !record.claimSignature);
+    if (record.claimSignature) {
+      this.claimFailures = 0;
+      this.claimFailureReported = false;
+    } else if (claimFailed) {
+      this.claimFailures++;
+      if (this.claimFailures >= this.config.claimFailureAlertCount && !this.claimFailureReported) {
+        this.claimFailureReported = true;
+        this.notify(
+          'claim-failed',
+          `Claims failed ${this.claimFailures} times in a row`,
+          record.failureReason ?? 'The claim transaction did not land',
+          { 'Last attempt': record.startedAt }
+        );
+      }
+    }
+  }
+
+  /**
+   * Notify once when the wallet balance drops below the alert threshold
+   */
+  checkBalance(balanceSol: number): void {
+    if (this.config.lowBalanceAlertSol <= 0) {
+      return;
+    }
+    if (balanceSol >= this.config.lowBalanceAlertSol) {
+      this.lowBalanceReported = false;
+      return;
+    }
+    if (!this.lowBalanceReported) {
+      this.lowBalanceReported = true;
+      this.notify(
+        'low-balance',
+        'Wallet balance is low',
+        `The wallet holds ${balanceSol.toFixed(6)} SOL, below the alert threshold of ${this.config.lowBalanceAlertSol} SOL`,
+        { 'Balance (SOL)': balanceSol.toFixed(6) }
+      );
+    }
+  }
+
+  /**
+   * Send everything still queued, ignoring the batch window and rate limit (e.g. on shutdown)
+   */
+  async flush(): Promise<void> {
+    await Promise.all(
+      this.sinks.map(async (sink) => {
+        if (sink.timer) {
+          clearTimeout(sink.timer);
+          sink.timer = null;
+        }
+        while (sink.queue.length > 0) {
+          await this.send(sink);
+        }
+      })
+    );
+  }
+
+  /**
+   * Send a sink's queue after a delay, unless a send is already scheduled
+   */
+  private schedule(sink: SinkState, delayMs: number): void {
+    if (sink.timer) {
+      return;
+    }
+    sink.timer = setTimeout(() => {
+      sink.timer = null;
+      void this.sendQueued(sink);
+    }, delayMs);
+  }
+
+  /**
+   * Send the next batch of a sink's queue if its rate limit allows, and schedule the rest
+   */
+  private async sendQueued(sink: SinkState): Promise<void> {
+    const now = Date.now();
+    sink.sentAt = sink.sentAt.filter((time) => now - time < RATE_WINDOW_MS);
+    if (sink.sentAt.length >= this.config.notifyMaxPerMinute) {
+      this.schedule(sink, sink.sentAt[0] + RATE_WINDOW_MS - now);
+      return;
+    }
+
+    await this.send(sink);
+    if (sink.queue.length > 0) {
+      this.schedule(sink, this.config.notifyBatchSeconds * 1000);
+    }
+  }
+
+  /**
+   * Send the next batch of a sink's queue as one message
+   */
+  private async send(sink: SinkState): Promise<void> {
+    const batch = sink.queue.splice(0, MAX_BATCH_SIZE);
+    const dropped = sink.dropped;
+    sink.dropped = 0;
+    sink.sentAt.push(Date.now());
+
+    try {
+      await axios.post(sink.config.url, buildPayload(sink.config, batch, dropped), {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: SEND_TIMEOUT_MS,
+      });
+      logger.debug(`Sent ${batch.length} notifications to ${sink.config.kind}`);
+    } catch (error: any) {
+      // The URL can contain a bot token, so only the status is logged
+      const status = error.response?.status;
+      logger.error(
+        `Failed to send ${batch.length} notifications to ${sink.config.kind}:`,
+        status ? `HTTP ${status}` : error.code || error.message
+      );
+    }
+  }
+}
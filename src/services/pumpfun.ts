@@ -1,48 +1,204 @@
 import {
   PublicKey,
-  Transaction,
-  VersionedTransaction,
+  TransactionInstruction,
+  SystemProgram,
   LAMPORTS_PER_SOL,
 } from '@solana/web3.js';
+import {
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+} from '@solana/spl-token';
 import axios from 'axios';
-import { WalletManager } from '../utils/wallet';
+import { WalletManager, SimulationReport, roundSolToLamports } from '../utils/wallet';
+import { describeOutcome } from '../utils/sender';
+import { priorityFeeToSol } from '../utils/fees';
 import { PUMPFUN_CONSTANTS, BotConfig } from '../config';
+import { ClusterConfig, ClusterPrograms } from '../cluster';
 import { logger } from '../utils/logger';
 
 /**
  * Interface for bonding curve account data
  */
-interface BondingCurveData {
+export interface BondingCurveData {
   virtualTokenReserves: bigint;
   virtualSolReserves: bigint;
   realTokenReserves: bigint;
   realSolReserves: bigint;
   tokenTotalSupply: bigint;
   complete: boolean;
+  creator: PublicKey | null;
+}
+
+/**
+ * Result of a confirmed creator fee claim, read from the transaction metadata
+ */
+export interface ClaimResult {
+  signature: string;
+  // SOL claimed from the creator vault
+  amount: number;
+  // SOL paid in network fees (base + priority), not deducted from amount
+  networkFee: number;
+  // Set when the claim was only simulated (dry-run mode); amount is then the expected claim
+  simulated?: boolean;
+}
+
+/**
+ * Result of a confirmed buy, read from the transaction metadata
+ */
+export interface BuyResult {
+  signature: string;
+  // SOL paid for the tokens, trading fees included, network fee and account rent excluded
+  solSpent: number;
+  // Tokens received (raw units)
+  tokensReceived: bigint;
+  // SOL paid in network fees (base + priority)
+  networkFee: number;
+  // Set when the buy was only simulated (dry-run mode); amounts are then the quote
+  simulated?: boolean;
+}
+
+/**
+ * Read the exact outcome of a confirmed buy from its transaction metadata
+ * Falls back to the requested SOL amount if the metadata cannot be read, since
+ * the buy itself has already landed
+ */
+export async function readBuyResult(
+  wallet: WalletManager,
+  signature: string,
+  tokenMint: PublicKey,
+  requestedSol: number,
+  programs: ClusterPrograms
+): Promise<BuyResult> {
+  try {
+    const balances = await wallet.getTransactionBalances(signature);
+
+    // Rent for a token account created in the same transaction is not part of the purchase
+    const userTokenAccount = getAssociatedTokenAddressSync(
+      tokenMint,
+      wallet.getPublicKey(),
+      false,
+      programs.token,
+      programs.associatedToken
+    );
+    const accountRent = Math.max(0, balances.getLamportChange(userTokenAccount) ?? 0);
+
+    return {
+      signature,
+      solSpent: (-balances.walletChange - accountRent) / LAMPORTS_PER_SOL,
+      tokensReceived: balances.getTokenChange(tokenMint),
+      networkFee: balances.fee / LAMPORTS_PER_SOL,
+    };
+  } catch (error: any) {
+    logger.error(`Buy ${signature} confirmed but its amounts could not be read:`, error.message || error);
+    return { signature, solSpent: requestedSol, tokensReceived: 0n, networkFee: 0 };
+  }
 }
 
 /**
- * PumpPortal API response for transaction
+ * Turn a simulated claim into a claim result, or null if the simulation failed
  */
-interface PumpPortalResponse {
-  transaction?: string;
-  error?: string;
+export function simulatedClaimResult(
+  simulation: SimulationReport,
+  expectedSol: number
+): ClaimResult | null {
+  if (simulation.error) {
+    return null;
+  }
+  logger.info(`[SIMULATED] Claim would collect ${expectedSol.toFixed(6)} SOL`);
+  return { signature: simulation.signature, amount: expectedSol, networkFee: 0, simulated: true };
+}
+
+/**
+ * Turn a simulated buy into a buy result, or null if the simulation failed
+ */
+export function simulatedBuyResult(
+  simulation: SimulationReport,
+  solAmount: number,
+  expectedTokens: bigint
+): BuyResult | null {
+  if (simulation.error) {
+    return null;
+  }
+  logger.info(`[SIMULATED] Buy would receive ~${expectedTokens} tokens for ${solAmount.toFixed(6)} SOL`);
+  return {
+    signature: simulation.signature,
+    solSpent: solAmount,
+    tokensReceived: expectedTokens,
+    networkFee: 0,
+    simulated: true,
+  };
+}
+
+/**
+ * Maximum lamports a buy of solAmount may cost with slippage, enforced on-chain by native buy instructions
+ */
+export function maxCostWithSlippage(solAmount: number, slippageBps: number): bigint {
+  const solLamports = BigInt(Math.floor(solAmount * LAMPORTS_PER_SOL));
+  return (solLamports * BigInt(10_000 + slippageBps)) / 10_000n;
+}
+
+// PumpPortal takes the priority fee as a total in SOL; the compute units its transactions are
+// assumed to use when converting a fee price into that total
+const PUMPPORTAL_COMPUTE_UNITS = 200_000;
+
+// Priority fee sent to PumpPortal when priority fees are disabled (in SOL)
+const PUMPPORTAL_DEFAULT_PRIORITY_FEE = 0.0001;
+
+/**
+ * Convert a priority fee price (in microlamports per compute unit) into the SOL total PumpPortal expects
+ */
+export function toPumpPortalPriorityFee(microLamports: number): number {
+  return microLamports > 0
+    ? priorityFeeToSol(microLamports, PUMPPORTAL_COMPUTE_UNITS)
+    : PUMPPORTAL_DEFAULT_PRIORITY_FEE;
+}
+
+/**
+ * Request an unsigned transaction from the cluster's PumpPortal local trade API
+ * PumpPortal returns unsigned transactions to sign and send ourselves.
+ */
+export async function requestPumpPortalTransaction(
+  network: ClusterConfig,
+  body: Record<string, unknown>
+): Promise<Buffer> {
+  if (!network.pumpPortalUrl) {
+    throw new Error(`PumpPortal is not available on ${network.cluster} - set PUMPPORTAL_API_URL`);
+  }
+  const response = await axios.post<ArrayBuffer>(network.pumpPortalUrl, body, {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    responseType: 'arraybuffer',
+    timeout: 30000,
+  });
+  return Buffer.from(response.data);
+}
+
+/**
+ * Log a PumpPortal transaction that did not land, and the API error if the request failed
+ */
+export function logPumpPortalFailure(action: string, error: any): void {
+  if (error.response) {
+    logger.error('PumpPortal API error:', Buffer.from(error.response.data).toString());
+  } else {
+    logger.error(`Failed to ${action}:`, error.message || error);
+  }
 }
 
 /**
  * PumpFun service for interacting with pump.fun protocol via PumpPortal API
+ * or natively built program instructions
  */
 export class PumpFunService {
   private wallet: WalletManager;
   private config: BotConfig;
+  private programs: ClusterPrograms;
   private tokenMint: PublicKey;
 
-  // PumpPortal API endpoint
-  private readonly PUMPPORTAL_API = 'https://pumpportal.fun/api/trade-local';
-
   constructor(wallet: WalletManager, config: BotConfig) {
     this.wallet = wallet;
     this.config = config;
+    this.programs = config.network.programs;
     this.tokenMint = new PublicKey(config.tokenMintAddress);
   }
 
@@ -55,7 +211,7 @@ export class PumpFunService {
         Buffer.from(PUMPFUN_CONSTANTS.BONDING_CURVE_SEED),
         this.tokenMint.toBuffer(),
       ],
-      PUMPFUN_CONSTANTS.PROGRAM_ID
+      this.programs.pumpfun
     );
     return pda;
   }
@@ -68,114 +224,216 @@ export class PumpFunService {
     const [ata] = PublicKey.findProgramAddressSync(
       [
         bondingCurve.toBuffer(),
-        new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA').toBuffer(),
+        this.programs.token.toBuffer(),
         this.tokenMint.toBuffer(),
       ],
-      new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL')
+      this.programs.associatedToken
     );
     return ata;
   }
 
   /**
-   * Check claimable creator fees using pump.fun website API
-   * Note: This checks all fees across all tokens created by this wallet
+   * Get the wallet's token account for the token
+   */
+  getUserTokenAccount(): PublicKey {
+    return getAssociatedTokenAddressSync(
+      this.tokenMint,
+      this.wallet.getPublicKey(),
+      false,
+      this.programs.token,
+      this.programs.associatedToken
+    );
+  }
+
+  /**
+   * Derive the creator vault PDA for a creator
+   */
+  getCreatorVaultPDA(creator: PublicKey = this.wallet.getPublicKey()): PublicKey {
+    const [pda] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPFUN_CONSTANTS.CREATOR_VAULT_SEED), creator.toBuffer()],
+      this.programs.pumpfun
+    );
+    return pda;
+  }
+
+  /**
+   * Build the pump.fun `buy` instruction for the bonding curve
+   * @param tokenAmount - Exact amount of tokens to receive (raw units)
+   * @param maxSolCost - Maximum lamports the program may charge, fees included
+   * @param creator - Token creator, as stored in the bonding curve account
+   */
+  buildBuyInstruction(
+    tokenAmount: bigint,
+    maxSolCost: bigint,
+    creator: PublicKey
+  ): TransactionInstruction {
+    const programId = this.programs.pumpfun;
+    const user = this.wallet.getPublicKey();
+
+    const [eventAuthority] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPFUN_CONSTANTS.EVENT_AUTHORITY_SEED)],
+      programId
+    );
+    const [globalVolumeAccumulator] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPFUN_CONSTANTS.GLOBAL_VOLUME_ACCUMULATOR_SEED)],
+      programId
+    );
+    const [userVolumeAccumulator] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPFUN_CONSTANTS.USER_VOLUME_ACCUMULATOR_SEED), user.toBuffer()],
+      programId
+    );
+    const [feeConfig] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPFUN_CONSTANTS.FEE_CONFIG_SEED), programId.toBuffer()],
+      this.programs.pumpfunFeeProgram
+    );
+
+    // Layout: discriminator(8) + amount(8) + maxSolCost(8) + trackVolume(1)
+    const data = Buffer.alloc(25);
+    PUMPFUN_CONSTANTS.BUY_DISCRIMINATOR.copy(data, 0);
+    data.writeBigUInt64LE(tokenAmount, 8);
+    data.writeBigUInt64LE(maxSolCost, 16);
+    data.writeUInt8(0, 24);
+
+    return new TransactionInstruction({
+      programId,
+      keys: [
+        { pubkey: this.programs.pumpfunGlobal, isSigner: false, isWritable: false },
+        { pubkey: this.programs.pumpfunFeeRecipient, isSigner: false, isWritable: true },
+        { pubkey: this.tokenMint, isSigner: false, isWritable: false },
+        { pubkey: this.getBondingCurvePDA(), isSigner: false, isWritable: true },
+        { pubkey: this.getBondingCurveTokenAccount(), isSigner: false, isWritable: true },
+        { pubkey: this.getUserTokenAccount(), isSigner: false, isWritable: true },
+        { pubkey: user, isSigner: true, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        { pubkey: this.programs.token, isSigner: false, isWritable: false },
+        { pubkey: this.getCreatorVaultPDA(creator), isSigner: false, isWritable: true },
+        { pubkey: eventAuthority, isSigner: false, isWritable: false },
+        { pubkey: programId, isSigner: false, isWritable: false },
+        { pubkey: globalVolumeAccumulator, isSigner: false, isWritable: true },
+        { pubkey: userVolumeAccumulator, isSigner: false, isWritable: true },
+        { pubkey: feeConfig, isSigner: false, isWritable: false },
+        { pubkey: this.programs.pumpfunFeeProgram, isSigner: false, isWritable: false },
+      ],
+      data,
+    });
+  }
+
+  /**
+   * Get claimable creator fees in SOL from the creator vault PDA
+   * The vault keeps its rent-exempt minimum, so only the balance above it is claimable
+   * Note: The vault collects fees across all tokens created by this wallet
    */
   async getClaimableFees(): Promise<number> {
+    const connection = this.wallet.getConnection();
+    const vault = this.getCreatorVaultPDA();
+
+    const accountInfo = await connection.getAccountInfo(vault);
+    if (!accountInfo) {
+      logger.debug('Creator vault account not found, no fees accrued yet');
+      return 0;
+    }
+
+    const rentExemptMinimum = await connection.getMinimumBalanceForRentExemption(
+      accountInfo.data.length
+    );
+    const claimableSol = Math.max(0, accountInfo.lamports - rentExemptMinimum) / LAMPORTS_PER_SOL;
+    logger.debug(`Claimable fees from creator vault ${vault.toBase58()}: ${claimableSol} SOL`);
+
+    if (this.config.feeApiCrossCheck) {
+      await this.crossCheckClaimableFees(claimableSol);
+    }
+
+    return claimableSol;
+  }
+
+  /**
+   * Compare the on-chain claimable amount with the pump.fun website API and warn on mismatch
+   */
+  private async crossCheckClaimableFees(onChainSol: number): Promise<void> {
     try {
       const walletAddress = this.wallet.getPublicKey().toBase58();
-
-      // Try to get fee info from pump.fun API
       const response = await axios.get(
-        `https://frontend-api.pump.fun/creators/${walletAddress}/fees`,
+        `${this.config.network.feeApiUrl}/creators/${walletAddress}/fees`,
         {
           headers: {
             'Accept': 'application/json',
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
           },
           timeout: 10000,
         }
       );
 
-      if (response.data && typeof response.data.claimable === 'number') {
-        const claimableSol = response.data.claimable / LAMPORTS_PER_SOL;
-        logger.debug(`Claimable fees from API: ${claimableSol} SOL`);
-        return claimableSol;
+      if (!response.data || typeof response.data.claimable !== 'number') {
+        logger.debug('Fee API returned no claimable amount, skipping cross-check');
+        return;
       }
 
-      // Fallback: return -1 to indicate we should try claiming anyway
-      logger.debug('Could not fetch claimable fees, will attempt claim');
-      return -1;
-    } catch (error) {
-      // API might not be available, try claiming anyway
-      logger.debug('Fee check API not available, will attempt claim');
-      return -1;
+      const apiSol = response.data.claimable / LAMPORTS_PER_SOL;
+      if (Math.abs(apiSol - onChainSol) > 0.000001) {
+        logger.warn(
+          `Claimable fee mismatch: on-chain ${onChainSol.toFixed(6)} SOL, API ${apiSol.toFixed(6)} SOL`
+        );
+      }
+    } catch {
+      logger.debug('Fee check API not available, skipping cross-check');
     }
   }
 
   /**
    * Claim accumulated creator fees from pump.fun using PumpPortal API
    * Note: pump.fun claims ALL fees at once, not per-token
+   * @param claimable - Claimable fees read just before (SOL), the fallback amount if the claim's metadata cannot be read
    */
-  async claimFees(): Promise<{ signature: string; amount: number } | null> {
+  async claimFees(claimable: number): Promise<ClaimResult | null> {
     try {
       logger.info('Attempting to claim creator fees via PumpPortal API...');
 
-      // Get transaction from PumpPortal
-      const response = await axios.post<string>(
-        this.PUMPPORTAL_API,
-        {
-          publicKey: this.wallet.getPublicKey().toBase58(),
-          action: 'collectCreatorFee',
-          pool: 'pump',
-          priorityFee: this.config.usePriorityFee
-            ? this.config.priorityFeeMicroLamports / 1_000_000
-            : 0.0001,
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          responseType: 'arraybuffer',
-          timeout: 30000,
-        }
-      );
-
-      // Decode the transaction
-      const txBuffer = Buffer.from(response.data);
-
-      // Try to deserialize as VersionedTransaction first
-      let signature: string;
-      const connection = this.wallet.getConnection();
-      const balanceBefore = await connection.getBalance(this.wallet.getPublicKey());
-
-      try {
-        const versionedTx = VersionedTransaction.deserialize(txBuffer);
-        versionedTx.sign([this.wallet.getKeypair()]);
-        signature = await connection.sendTransaction(versionedTx, {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-        });
-      } catch {
-        // Fallback to legacy transaction
-        const legacyTx = Transaction.from(txBuffer);
-        legacyTx.sign(this.wallet.getKeypair());
-        signature = await connection.sendRawTransaction(legacyTx.serialize(), {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-        });
+      const feeAccounts = [this.getCreatorVaultPDA(), this.programs.pumpfunFeeRecipient];
+      const request = (priorityFee: number) => ({
+        publicKey: this.wallet.getPublicKey().toBase58(),
+        action: 'collectCreatorFee',
+        pool: 'pump',
+        priorityFee: toPumpPortalPriorityFee(priorityFee),
+      });
+
+      if (this.config.dryRun) {
+        const simulation = await this.wallet.simulateSerializedTransaction(
+          await requestPumpPortalTransaction(
+            this.config.network,
+            request(await this.wallet.getPriorityFee(feeAccounts))
+          ),
+          'claim'
+        );
+        return simulatedClaimResult(simulation, claimable);
       }
 
-      // Wait for confirmation
-      await connection.confirmTransaction(signature, 'confirmed');
-
-      // Calculate claimed amount
-      const balanceAfter = await connection.getBalance(this.wallet.getPublicKey());
-      const claimedAmount = (balanceAfter - balanceBefore) / LAMPORTS_PER_SOL;
+      // A fresh transaction is requested whenever the previous one expired
+      const outcome = await this.wallet.sendSerializedTransaction(
+        (priorityFee) => requestPumpPortalTransaction(this.config.network, request(priorityFee)),
+        feeAccounts,
+        'claim'
+      );
+      if (outcome.status !== 'confirmed') {
+        logger.error(`Claim transaction ${describeOutcome(outcome)}`);
+        return null;
+      }
 
-      logger.success(`Fees claimed successfully! Amount: ~${claimedAmount.toFixed(6)} SOL`);
+      const signature = outcome.signature;
       logger.tx('Claim transaction', signature);
+      const result = await this.readClaimResult(signature, claimable);
 
-      return { signature, amount: Math.max(0, claimedAmount) };
+      logger.event(
+        'success',
+        'claim',
+        `Fees claimed successfully! Amount: ${result.amount.toFixed(6)} SOL (network fee: ${result.networkFee.toFixed(6)} SOL)`,
+        {
+          venue: 'bonding-curve',
+          signature,
+          lamports: roundSolToLamports(result.amount),
+          networkFeeLamports: roundSolToLamports(result.networkFee),
+        }
+      );
+
+      return result;
     } catch (error: any) {
       if (error.response) {
         const errorText = Buffer.from(error.response.data).toString();
@@ -192,116 +450,235 @@ export class PumpFunService {
   }
 
   /**
-   * Buy tokens using PumpPortal API
+   * Read the claimed amount from the creator vault's balance change in a confirmed claim
+   * Falls back to the balance seen before claiming if the metadata cannot be read
    */
-  async buyTokens(solAmount: number): Promise<string | null> {
+  private async readClaimResult(signature: string, claimable: number): Promise<ClaimResult> {
     try {
-      logger.info(`Buying tokens with ${solAmount.toFixed(6)} SOL via PumpPortal API...`);
+      const balances = await this.wallet.getTransactionBalances(signature);
+      const vaultChange = balances.getLamportChange(this.getCreatorVaultPDA());
 
-      // Get transaction from PumpPortal
-      const response = await axios.post<string>(
-        this.PUMPPORTAL_API,
-        {
-          publicKey: this.wallet.getPublicKey().toBase58(),
-          action: 'buy',
-          mint: this.tokenMint.toBase58(),
-          amount: solAmount,
-          denominatedInSol: 'true',
-          slippage: this.config.slippageBps / 100, // Convert bps to percentage
-          priorityFee: this.config.usePriorityFee
-            ? this.config.priorityFeeMicroLamports / 1_000_000
-            : 0.0001,
-          pool: 'pump',
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          responseType: 'arraybuffer',
-          timeout: 30000,
-        }
+      // Fall back to the wallet's change net of the network fee if the vault is not listed
+      const claimedLamports = vaultChange !== null ? -vaultChange : balances.walletChange;
+
+      return {
+        signature,
+        amount: Math.max(0, claimedLamports) / LAMPORTS_PER_SOL,
+        networkFee: balances.fee / LAMPORTS_PER_SOL,
+      };
+    } catch (error: any) {
+      logger.error(
+        `Claim ${signature} confirmed but its amount could not be read:`,
+        error.message || error
       );
+      return { signature, amount: claimable, networkFee: 0 };
+    }
+  }
 
-      // Decode the transaction
-      const txBuffer = Buffer.from(response.data);
-      const connection = this.wallet.getConnection();
-      let signature: string;
-
-      try {
-        const versionedTx = VersionedTransaction.deserialize(txBuffer);
-        versionedTx.sign([this.wallet.getKeypair()]);
-        signature = await connection.sendTransaction(versionedTx, {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-        });
-      } catch {
-        // Fallback to legacy transaction
-        const legacyTx = Transaction.from(txBuffer);
-        legacyTx.sign(this.wallet.getKeypair());
-        signature = await connection.sendRawTransaction(legacyTx.serialize(), {
-          skipPreflight: false,
-          preflightCommitment: 'confirmed',
-        });
+  /**
+   * Buy tokens using the configured buy method
+   */
+  async buyTokens(solAmount: number): Promise<BuyResult | null> {
+    if (this.config.buyMethod === 'native') {
+      return this.buyTokensNative(solAmount);
+    }
+    return this.buyTokensViaPumpPortal(solAmount);
+  }
+
+  /**
+   * Buy tokens with a locally built bonding curve `buy` instruction
+   * Slippage is enforced on-chain through the instruction's max SOL cost
+   */
+  private async buyTokensNative(solAmount: number): Promise<BuyResult | null> {
+    try {
+      logger.info(`Buying tokens with ${solAmount.toFixed(6)} SOL via native pump.fun instruction...`);
+
+      const curveData = await this.getBondingCurveData();
+      if (!curveData) {
+        logger.error('Cannot build buy instruction without bonding curve data');
+        return null;
+      }
+      if (curveData.complete) {
+        logger.error('Bonding curve is complete - token has graduated');
+        return null;
+      }
+      if (!curveData.creator) {
+        logger.error('Bonding curve account does not include a creator');
+        return null;
+      }
+
+      const tokenAmount = this.quoteBuy(solAmount, curveData);
+      if (tokenAmount <= 0n) {
+        logger.error('Quoted token amount is zero');
+        return null;
+      }
+
+      const maxSolCost = maxCostWithSlippage(solAmount, this.config.slippageBps);
+      logger.debug(`Native buy quote: ${tokenAmount} tokens, max cost ${maxSolCost} lamports`);
+
+      const user = this.wallet.getPublicKey();
+      const instructions = [
+        createAssociatedTokenAccountIdempotentInstruction(
+          user,
+          this.getUserTokenAccount(),
+          user,
+          this.tokenMint,
+          this.programs.token,
+          this.programs.associatedToken
+        ),
+        this.buildBuyInstruction(tokenAmount, maxSolCost, curveData.creator),
+      ];
+
+      if (this.config.dryRun) {
+        const simulation = await this.wallet.simulateInstructions(instructions, [], 'buy');
+        return simulatedBuyResult(simulation, solAmount, tokenAmount);
       }
 
-      // Wait for confirmation
-      await connection.confirmTransaction(signature, 'confirmed');
+      const outcome = await this.wallet.sendInstructions(instructions, [], 'buy');
+      if (outcome.status !== 'confirmed') {
+        logger.error(`Buy transaction ${describeOutcome(outcome)}`);
+        return null;
+      }
 
-      logger.success(`Tokens purchased successfully!`);
+      const signature = outcome.signature;
       logger.tx('Buy transaction', signature);
 
-      return signature;
+      return await this.confirmBuy(signature, solAmount);
     } catch (error: any) {
-      if (error.response) {
-        const errorText = Buffer.from(error.response.data).toString();
-        logger.error('PumpPortal API error:', errorText);
-      } else {
-        logger.error('Failed to buy tokens:', error.message || error);
-      }
+      logger.error('Failed to buy tokens:', error.message || error);
       return null;
     }
   }
 
   /**
-   * Get the current bonding curve data for the token
+   * Buy tokens using PumpPortal API
    */
-  async getBondingCurveData(): Promise<BondingCurveData | null> {
+  private async buyTokensViaPumpPortal(solAmount: number): Promise<BuyResult | null> {
     try {
-      const bondingCurve = this.getBondingCurvePDA();
-      const connection = this.wallet.getConnection();
+      logger.info(`Buying tokens with ${solAmount.toFixed(6)} SOL via PumpPortal API...`);
 
-      const accountInfo = await connection.getAccountInfo(bondingCurve);
-      if (!accountInfo) {
-        logger.warn('Bonding curve account not found - token may have graduated to Raydium');
+      const feeAccounts = [this.getBondingCurvePDA(), this.programs.pumpfunFeeRecipient];
+      const request = (priorityFee: number) => ({
+        publicKey: this.wallet.getPublicKey().toBase58(),
+        action: 'buy',
+        mint: this.tokenMint.toBase58(),
+        amount: solAmount,
+        denominatedInSol: 'true',
+        slippage: this.config.slippageBps / 100, // Convert bps to percentage
+        priorityFee: toPumpPortalPriorityFee(priorityFee),
+        pool: 'pump',
+      });
+
+      if (this.config.dryRun) {
+        const curveData = await this.getBondingCurveData();
+        const simulation = await this.wallet.simulateSerializedTransaction(
+          await requestPumpPortalTransaction(
+            this.config.network,
+            request(await this.wallet.getPriorityFee(feeAccounts))
+          ),
+          'buy'
+        );
+        return simulatedBuyResult(
+          simulation,
+          solAmount,
+          curveData ? this.quoteBuy(solAmount, curveData) : 0n
+        );
+      }
+
+      // A fresh transaction is requested whenever the previous one expired
+      const outcome = await this.wallet.sendSerializedTransaction(
+        (priorityFee) => requestPumpPortalTransaction(this.config.network, request(priorityFee)),
+        feeAccounts,
+        'buy'
+      );
+      if (outcome.status !== 'confirmed') {
+        logger.error(`Buy transaction ${describeOutcome(outcome)}`);
         return null;
       }
 
-      // Parse bonding curve account data
-      // Layout: discriminator(8) + virtualTokenReserves(8) + virtualSolReserves(8) +
-      //         realTokenReserves(8) + realSolReserves(8) + tokenTotalSupply(8) + complete(1)
-      const data = accountInfo.data;
+      const signature = outcome.signature;
+      logger.tx('Buy transaction', signature);
 
-      const virtualTokenReserves = data.readBigUInt64LE(8);
-      const virtualSolReserves = data.readBigUInt64LE(16);
-      const realTokenReserves = data.readBigUInt64LE(24);
-      const realSolReserves = data.readBigUInt64LE(32);
-      const tokenTotalSupply = data.readBigUInt64LE(40);
-      const complete = data.readUInt8(48) === 1;
+      return await this.confirmBuy(signature, solAmount);
+    } catch (error: any) {
+      logPumpPortalFailure('buy tokens', error);
+      return null;
+    }
+  }
 
-      return {
-        virtualTokenReserves,
-        virtualSolReserves,
-        realTokenReserves,
-        realSolReserves,
-        tokenTotalSupply,
-        complete,
-      };
+  /**
+   * Read and log the outcome of a confirmed buy
+   */
+  private async confirmBuy(signature: string, solAmount: number): Promise<BuyResult> {
+    const result = await readBuyResult(this.wallet, signature, this.tokenMint, solAmount, this.programs);
+    logger.event(
+      'success',
+      'buy',
+      `Tokens purchased successfully! Received ${result.tokensReceived} tokens for ${result.solSpent.toFixed(6)} SOL`,
+      {
+        venue: 'bonding-curve',
+        mint: this.tokenMint.toBase58(),
+        signature,
+        lamports: roundSolToLamports(result.solSpent),
+        tokens: result.tokensReceived,
+        networkFeeLamports: roundSolToLamports(result.networkFee),
+      }
+    );
+    return result;
+  }
+
+  /**
+   * Get the current bonding curve data for the token
+   */
+  async getBondingCurveData(): Promise<BondingCurveData | null> {
+    try {
+      const curveData = await this.readBondingCurve();
+      if (!curveData) {
+        logger.warn('Bonding curve account not found - token may have graduated to Raydium');
+      }
+      return curveData;
     } catch (error) {
       logger.error('Failed to get bonding curve data:', error);
       return null;
     }
   }
 
+  /**
+   * Read the bonding curve account
+   * @returns null only if the account does not exist
+   * @throws if the account cannot be fetched (e.g. RPC error or timeout)
+   */
+  private async readBondingCurve(): Promise<BondingCurveData | null> {
+    const accountInfo = await this.wallet.getConnection().getAccountInfo(this.getBondingCurvePDA());
+    if (!accountInfo) {
+      return null;
+    }
+
+    // Parse bonding curve account data
+    // Layout: discriminator(8) + virtualTokenReserves(8) + virtualSolReserves(8) +
+    //         realTokenReserves(8) + realSolReserves(8) + tokenTotalSupply(8) + complete(1) +
+    //         creator(32, only on curves created after the creator fee update)
+    const data = accountInfo.data;
+
+    const virtualTokenReserves = data.readBigUInt64LE(8);
+    const virtualSolReserves = data.readBigUInt64LE(16);
+    const realTokenReserves = data.readBigUInt64LE(24);
+    const realSolReserves = data.readBigUInt64LE(32);
+    const tokenTotalSupply = data.readBigUInt64LE(40);
+    const complete = data.readUInt8(48) === 1;
+    const creator = data.length >= 81 ? new PublicKey(data.subarray(49, 81)) : null;
+
+    return {
+      virtualTokenReserves,
+      virtualSolReserves,
+      realTokenReserves,
+      realSolReserves,
+      tokenTotalSupply,
+      complete,
+      creator,
+    };
+  }
+
   /**
    * Calculate the amount of tokens received for a given SOL amount
    */
@@ -317,13 +694,21 @@ export class PumpFunService {
   }
 
   /**
-   * Check if the token has graduated to Raydium
+   * Quote the tokens received for a total SOL spend on the bonding curve
+   * The quote is taken on the amount left after trading fees so the total spend stays near solAmount
+   */
+  quoteBuy(solAmount: number, curveData: BondingCurveData): bigint {
+    const netSolAmount = (solAmount * 10_000) / (10_000 + PUMPFUN_CONSTANTS.TRADE_FEE_BPS);
+    const tokenAmount = this.calculateBuyAmount(netSolAmount, curveData);
+    return tokenAmount > curveData.realTokenReserves ? curveData.realTokenReserves : tokenAmount;
+  }
+
+  /**
+   * Check if the token has graduated: its bonding curve is complete, or the account no longer exists
+   * @throws if the bonding curve cannot be read, so a failed RPC call is never taken for a graduation
    */
   async hasGraduated(): Promise<boolean> {
-    const curveData = await this.getBondingCurveData();
-    if (!curveData) {
-      return true; // Assume graduated if we can't find the bonding curve
-    }
-    return curveData.complete;
+    const curveData = await this.readBondingCurve();
+    return curveData === null || curveData.complete;
   }
 }
@@ -0,0 +1,607 @@
+import {
+  PublicKey,
+  TransactionInstruction,
+  SystemProgram,
+  LAMPORTS_PER_SOL,
+} from '@solana/web3.js';
+import {
+  AccountLayout,
+  NATIVE_MINT,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createSyncNativeInstruction,
+  createCloseAccountInstruction,
+} from '@solana/spl-token';
+import { WalletManager, roundSolToLamports } from '../utils/wallet';
+import { describeOutcome } from '../utils/sender';
+import { PUMPFUN_CONSTANTS, PUMPSWAP_CONSTANTS, BotConfig } from '../config';
+import { ClusterPrograms } from '../cluster';
+import { logger } from '../utils/logger';
+import {
+  ClaimResult,
+  BuyResult,
+  readBuyResult,
+  simulatedClaimResult,
+  simulatedBuyResult,
+  requestPumpPortalTransaction,
+  toPumpPortalPriorityFee,
+  logPumpPortalFailure,
+  maxCostWithSlippage,
+} from './pumpfun';
+
+/**
+ * Interface for PumpSwap pool account data
+ */
+export interface PumpSwapPoolData {
+  address: PublicKey;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  poolBaseTokenAccount: PublicKey;
+  poolQuoteTokenAccount: PublicKey;
+  coinCreator: PublicKey;
+}
+
+/**
+ * Interface for PumpSwap pool reserves (raw token units)
+ */
+export interface PumpSwapReserves {
+  baseReserves: bigint;
+  quoteReserves: bigint;
+}
+
+/**
+ * Interface for the PumpSwap global config fields used by the bot
+ */
+export interface PumpSwapGlobalConfig {
+  lpFeeBps: bigint;
+  protocolFeeBps: bigint;
+  coinCreatorFeeBps: bigint;
+  protocolFeeRecipient: PublicKey;
+}
+
+/**
+ * PumpSwap service for buybacks after a token has graduated from the bonding curve
+ */
+export class PumpSwapService {
+  private wallet: WalletManager;
+  private config: BotConfig;
+  private programs: ClusterPrograms;
+  private tokenMint: PublicKey;
+
+  constructor(wallet: WalletManager, config: BotConfig) {
+    this.wallet = wallet;
+    this.config = config;
+    this.programs = config.network.programs;
+    this.tokenMint = new PublicKey(config.tokenMintAddress);
+  }
+
+  /**
+   * Derive the canonical pool PDA the token was migrated to
+   */
+  getPoolPDA(): PublicKey {
+    const [poolAuthority] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPSWAP_CONSTANTS.POOL_AUTHORITY_SEED), this.tokenMint.toBuffer()],
+      this.programs.pumpfun
+    );
+
+    const index = Buffer.alloc(2);
+    index.writeUInt16LE(PUMPSWAP_CONSTANTS.CANONICAL_POOL_INDEX);
+
+    const [pda] = PublicKey.findProgramAddressSync(
+      [
+        Buffer.from(PUMPSWAP_CONSTANTS.POOL_SEED),
+        index,
+        poolAuthority.toBuffer(),
+        this.tokenMint.toBuffer(),
+        NATIVE_MINT.toBuffer(),
+      ],
+      this.programs.pumpswap
+    );
+    return pda;
+  }
+
+  /**
+   * Derive the coin creator vault authority PDA
+   */
+  getCreatorVaultAuthorityPDA(coinCreator: PublicKey = this.wallet.getPublicKey()): PublicKey {
+    const [pda] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPSWAP_CONSTANTS.CREATOR_VAULT_SEED), coinCreator.toBuffer()],
+      this.programs.pumpswap
+    );
+    return pda;
+  }
+
+  /**
+   * Get the coin creator vault token account holding AMM creator fees (WSOL)
+   */
+  getCreatorVaultTokenAccount(coinCreator: PublicKey = this.wallet.getPublicKey()): PublicKey {
+    return this.getTokenAccount(NATIVE_MINT, this.getCreatorVaultAuthorityPDA(coinCreator), true);
+  }
+
+  /**
+   * Get the migrated pool account data, or null if the pool does not exist
+   */
+  async getPoolData(): Promise<PumpSwapPoolData | null> {
+    try {
+      const address = this.getPoolPDA();
+      const accountInfo = await this.wallet.getConnection().getAccountInfo(address);
+      if (!accountInfo) {
+        return null;
+      }
+
+      // Layout: discriminator(8) + poolBump(1) + index(2) + creator(32) + baseMint(32) +
+      //         quoteMint(32) + lpMint(32) + poolBaseTokenAccount(32) +
+      //         poolQuoteTokenAccount(32) + lpSupply(8) + coinCreator(32)
+      const data = accountInfo.data;
+
+      return {
+        address,
+        baseMint: new PublicKey(data.subarray(43, 75)),
+        quoteMint: new PublicKey(data.subarray(75, 107)),
+        poolBaseTokenAccount: new PublicKey(data.subarray(139, 171)),
+        poolQuoteTokenAccount: new PublicKey(data.subarray(171, 203)),
+        coinCreator: new PublicKey(data.subarray(211, 243)),
+      };
+    } catch (error) {
+      logger.error('Failed to get PumpSwap pool data:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check if the token's migrated PumpSwap pool exists
+   * @throws if the pool account cannot be fetched, so a failed RPC call is not taken for a missing pool
+   */
+  async hasPool(): Promise<boolean> {
+    return (await this.wallet.getConnection().getAccountInfo(this.getPoolPDA())) !== null;
+  }
+
+  /**
+   * Get the current pool reserves
+   */
+  async getReserves(pool: PumpSwapPoolData): Promise<PumpSwapReserves> {
+    const connection = this.wallet.getConnection();
+    const [base, quote] = await Promise.all([
+      connection.getTokenAccountBalance(pool.poolBaseTokenAccount),
+      connection.getTokenAccountBalance(pool.poolQuoteTokenAccount),
+    ]);
+
+    return {
+      baseReserves: BigInt(base.value.amount),
+      quoteReserves: BigInt(quote.value.amount),
+    };
+  }
+
+  /**
+   * Calculate the amount of tokens received for a given SOL amount
+   * The SOL amount is the total spend, fees included
+   */
+  calculateBuyAmount(solAmount: number, reserves: PumpSwapReserves, totalFeeBps: bigint): bigint {
+    const solLamports = BigInt(Math.floor(solAmount * LAMPORTS_PER_SOL));
+    const netLamports = (solLamports * 10_000n) / (10_000n + totalFeeBps);
+
+    // Constant product: tokens_out = (sol_in * base_reserves) / (quote_reserves + sol_in)
+    return (netLamports * reserves.baseReserves) / (reserves.quoteReserves + netLamports);
+  }
+
+  /**
+   * Quote the tokens received for a total SOL spend on the pool, using the current reserves and fees
+   */
+  async quoteBuy(
+    solAmount: number,
+    pool: PumpSwapPoolData,
+    globalConfig?: PumpSwapGlobalConfig
+  ): Promise<bigint> {
+    const [reserves, config] = await Promise.all([
+      this.getReserves(pool),
+      globalConfig ? Promise.resolve(globalConfig) : this.getGlobalConfig(),
+    ]);
+    const totalFeeBps = config.lpFeeBps + config.protocolFeeBps + config.coinCreatorFeeBps;
+    return this.calculateBuyAmount(solAmount, reserves, totalFeeBps);
+  }
+
+  /**
+   * Get the claimable AMM creator fees in SOL
+   * @throws if the vault cannot be read, so an RPC outage is never taken for an empty vault
+   */
+  async getClaimableFees(): Promise<number> {
+    const accountInfo = await this.wallet.getConnection().getAccountInfo(this.getCreatorVaultTokenAccount());
+    if (!accountInfo) {
+      // The vault token account is only created once fees accrue
+      return 0;
+    }
+    return Number(AccountLayout.decode(accountInfo.data).amount) / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Claim accumulated creator fees from the PumpSwap AMM and unwrap them to SOL
+   */
+  async claimFees(): Promise<ClaimResult | null> {
+    try {
+      const claimable = await this.getClaimableFees();
+      if (claimable <= 0) {
+        logger.info('No PumpSwap creator fees available to claim');
+        return null;
+      }
+
+      logger.info(`Claiming ${claimable.toFixed(6)} SOL of PumpSwap creator fees...`);
+
+      const creator = this.wallet.getPublicKey();
+      const creatorWsolAccount = this.getTokenAccount(NATIVE_MINT, creator);
+
+      const data = Buffer.from(PUMPSWAP_CONSTANTS.COLLECT_COIN_CREATOR_FEE_DISCRIMINATOR);
+      const collectInstruction = new TransactionInstruction({
+        programId: this.programs.pumpswap,
+        keys: [
+          { pubkey: NATIVE_MINT, isSigner: false, isWritable: false },
+          { pubkey: this.programs.token, isSigner: false, isWritable: false },
+          { pubkey: creator, isSigner: true, isWritable: false },
+          { pubkey: this.getCreatorVaultAuthorityPDA(creator), isSigner: false, isWritable: false },
+          { pubkey: this.getCreatorVaultTokenAccount(creator), isSigner: false, isWritable: true },
+          { pubkey: creatorWsolAccount, isSigner: false, isWritable: true },
+          { pubkey: this.getEventAuthorityPDA(), isSigner: false, isWritable: false },
+          { pubkey: this.programs.pumpswap, isSigner: false, isWritable: false },
+        ],
+        data,
+      });
+
+      const instructions = [
+        createAssociatedTokenAccountIdempotentInstruction(
+          creator,
+          creatorWsolAccount,
+          creator,
+          NATIVE_MINT,
+          this.programs.token,
+          this.programs.associatedToken
+        ),
+        collectInstruction,
+        createCloseAccountInstruction(creatorWsolAccount, creator, creator, [], this.programs.token),
+      ];
+
+      if (this.config.dryRun) {
+        const simulation = await this.wallet.simulateInstructions(instructions, [], 'claim');
+        return simulatedClaimResult(simulation, claimable);
+      }
+
+      const outcome = await this.wallet.sendInstructions(instructions, [], 'claim');
+      if (outcome.status !== 'confirmed') {
+        logger.error(`PumpSwap claim transaction ${describeOutcome(outcome)}`);
+        return null;
+      }
+
+      const signature = outcome.signature;
+      logger.tx('PumpSwap claim transaction', signature);
+      const result = await this.readClaimResult(signature, claimable);
+
+      logger.event(
+        'success',
+        'claim',
+        `PumpSwap fees claimed successfully! Amount: ${result.amount.toFixed(6)} SOL (network fee: ${result.networkFee.toFixed(6)} SOL)`,
+        {
+          venue: 'pumpswap',
+          signature,
+          lamports: roundSolToLamports(result.amount),
+          networkFeeLamports: roundSolToLamports(result.networkFee),
+        }
+      );
+
+      return result;
+    } catch (error: any) {
+      logger.error('Failed to claim PumpSwap fees:', error.message || error);
+      return null;
+    }
+  }
+
+  /**
+   * Read the claimed amount from the creator vault token account's change in a confirmed claim
+   * Falls back to the balance seen before claiming if the metadata cannot be read
+   */
+  private async readClaimResult(signature: string, claimable: number): Promise<ClaimResult> {
+    try {
+      const balances = await this.wallet.getTransactionBalances(signature);
+      const vaultChange = balances.getTokenChange(NATIVE_MINT, this.getCreatorVaultAuthorityPDA());
+
+      return {
+        signature,
+        amount: Number(-vaultChange) / LAMPORTS_PER_SOL,
+        networkFee: balances.fee / LAMPORTS_PER_SOL,
+      };
+    } catch (error: any) {
+      logger.error(
+        `PumpSwap claim ${signature} confirmed but its amount could not be read:`,
+        error.message || error
+      );
+      return { signature, amount: claimable, networkFee: 0 };
+    }
+  }
+
+  /**
+   * Buy tokens from the migrated pool using the configured buy method
+   */
+  async buyTokens(solAmount: number): Promise<BuyResult | null> {
+    if (this.config.buyMethod === 'native') {
+      return this.buyTokensNative(solAmount);
+    }
+    return this.buyTokensViaPumpPortal(solAmount);
+  }
+
+  /**
+   * Buy tokens with a locally built PumpSwap `buy` instruction
+   * Slippage is enforced on-chain through the instruction's max quote amount
+   */
+  private async buyTokensNative(solAmount: number): Promise<BuyResult | null> {
+    try {
+      logger.info(`Buying tokens with ${solAmount.toFixed(6)} SOL via native PumpSwap instruction...`);
+
+      const pool = await this.getPoolData();
+      if (!pool) {
+        logger.error('PumpSwap pool not found for token');
+        return null;
+      }
+
+      const globalConfig = await this.getGlobalConfig();
+      const tokenAmount = await this.quoteBuy(solAmount, pool, globalConfig);
+      if (tokenAmount <= 0n) {
+        logger.error('Quoted token amount is zero');
+        return null;
+      }
+
+      const maxQuoteAmountIn = maxCostWithSlippage(solAmount, this.config.slippageBps);
+      logger.debug(`PumpSwap buy quote: ${tokenAmount} tokens, max cost ${maxQuoteAmountIn} lamports`);
+
+      const user = this.wallet.getPublicKey();
+      const userTokenAccount = this.getTokenAccount(this.tokenMint, user);
+      const userWsolAccount = this.getTokenAccount(NATIVE_MINT, user);
+      const { token, associatedToken } = this.programs;
+
+      // Wrap the maximum spend, buy, then unwrap whatever is left
+      const instructions = [
+        createAssociatedTokenAccountIdempotentInstruction(
+          user,
+          userTokenAccount,
+          user,
+          this.tokenMint,
+          token,
+          associatedToken
+        ),
+        createAssociatedTokenAccountIdempotentInstruction(
+          user,
+          userWsolAccount,
+          user,
+          NATIVE_MINT,
+          token,
+          associatedToken
+        ),
+        SystemProgram.transfer({
+          fromPubkey: user,
+          toPubkey: userWsolAccount,
+          lamports: maxQuoteAmountIn,
+        }),
+        createSyncNativeInstruction(userWsolAccount, token),
+        this.buildBuyInstruction(pool, globalConfig, tokenAmount, maxQuoteAmountIn),
+        createCloseAccountInstruction(userWsolAccount, user, user, [], token),
+      ];
+
+      if (this.config.dryRun) {
+        const simulation = await this.wallet.simulateInstructions(instructions, [], 'buy');
+        return simulatedBuyResult(simulation, solAmount, tokenAmount);
+      }
+
+      const outcome = await this.wallet.sendInstructions(instructions, [], 'buy');
+      if (outcome.status !== 'confirmed') {
+        logger.error(`Buy transaction ${describeOutcome(outcome)}`);
+        return null;
+      }
+
+      const signature = outcome.signature;
+      logger.tx('Buy transaction', signature);
+
+      return await this.confirmBuy(signature, solAmount);
+    } catch (error: any) {
+      logger.error('Failed to buy tokens on PumpSwap:', error.message || error);
+      return null;
+    }
+  }
+
+  /**
+   * Buy tokens from the migrated pool using PumpPortal API
+   */
+  private async buyTokensViaPumpPortal(solAmount: number): Promise<BuyResult | null> {
+    try {
+      logger.info(`Buying tokens with ${solAmount.toFixed(6)} SOL on PumpSwap via PumpPortal API...`);
+
+      const feeAccounts = [this.getPoolPDA()];
+      const request = (priorityFee: number) => ({
+        publicKey: this.wallet.getPublicKey().toBase58(),
+        action: 'buy',
+        mint: this.tokenMint.toBase58(),
+        amount: solAmount,
+        denominatedInSol: 'true',
+        slippage: this.config.slippageBps / 100, // Convert bps to percentage
+        priorityFee: toPumpPortalPriorityFee(priorityFee),
+        pool: 'pump-amm',
+      });
+
+      if (this.config.dryRun) {
+        const pool = await this.getPoolData();
+        const simulation = await this.wallet.simulateSerializedTransaction(
+          await requestPumpPortalTransaction(
+            this.config.network,
+            request(await this.wallet.getPriorityFee(feeAccounts))
+          ),
+          'buy'
+        );
+        return simulatedBuyResult(
+          simulation,
+          solAmount,
+          pool ? await this.quoteBuy(solAmount, pool) : 0n
+        );
+      }
+
+      // A fresh transaction is requested whenever the previous one expired
+      const outcome = await this.wallet.sendSerializedTransaction(
+        (priorityFee) => requestPumpPortalTransaction(this.config.network, request(priorityFee)),
+        feeAccounts,
+        'buy'
+      );
+      if (outcome.status !== 'confirmed') {
+        logger.error(`Buy transaction ${describeOutcome(outcome)}`);
+        return null;
+      }
+
+      const signature = outcome.signature;
+      logger.tx('Buy transaction', signature);
+
+      return await this.confirmBuy(signature, solAmount);
+    } catch (error: any) {
+      logPumpPortalFailure('buy tokens on PumpSwap', error);
+      return null;
+    }
+  }
+
+  /**
+   * Read and log the outcome of a confirmed buy
+   */
+  private async confirmBuy(signature: string, solAmount: number): Promise<BuyResult> {
+    const result = await readBuyResult(this.wallet, signature, this.tokenMint, solAmount, this.programs);
+    logger.event(
+      'success',
+      'buy',
+      `Tokens purchased successfully! Received ${result.tokensReceived} tokens for ${result.solSpent.toFixed(6)} SOL`,
+      {
+        venue: 'pumpswap',
+        mint: this.tokenMint.toBase58(),
+        signature,
+        lamports: roundSolToLamports(result.solSpent),
+        tokens: result.tokensReceived,
+        networkFeeLamports: roundSolToLamports(result.networkFee),
+      }
+    );
+    return result;
+  }
+
+  /**
+   * Build the PumpSwap `buy` instruction
+   * @param baseAmountOut - Exact amount of tokens to receive (raw units)
+   * @param maxQuoteAmountIn - Maximum lamports of WSOL the program may take, fees included
+   */
+  private buildBuyInstruction(
+    pool: PumpSwapPoolData,
+    globalConfig: PumpSwapGlobalConfig,
+    baseAmountOut: bigint,
+    maxQuoteAmountIn: bigint
+  ): TransactionInstruction {
+    const programId = this.programs.pumpswap;
+    const user = this.wallet.getPublicKey();
+
+    const [globalVolumeAccumulator] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPSWAP_CONSTANTS.GLOBAL_VOLUME_ACCUMULATOR_SEED)],
+      programId
+    );
+    const [userVolumeAccumulator] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPSWAP_CONSTANTS.USER_VOLUME_ACCUMULATOR_SEED), user.toBuffer()],
+      programId
+    );
+    const [feeConfig] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPFUN_CONSTANTS.FEE_CONFIG_SEED), programId.toBuffer()],
+      this.programs.pumpfunFeeProgram
+    );
+
+    // Layout: discriminator(8) + baseAmountOut(8) + maxQuoteAmountIn(8) + trackVolume(1)
+    const data = Buffer.alloc(25);
+    PUMPSWAP_CONSTANTS.BUY_DISCRIMINATOR.copy(data, 0);
+    data.writeBigUInt64LE(baseAmountOut, 8);
+    data.writeBigUInt64LE(maxQuoteAmountIn, 16);
+    data.writeUInt8(0, 24);
+
+    return new TransactionInstruction({
+      programId,
+      keys: [
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: user, isSigner: true, isWritable: true },
+        { pubkey: this.getGlobalConfigPDA(), isSigner: false, isWritable: false },
+        { pubkey: pool.baseMint, isSigner: false, isWritable: false },
+        { pubkey: pool.quoteMint, isSigner: false, isWritable: false },
+        { pubkey: this.getTokenAccount(pool.baseMint, user), isSigner: false, isWritable: true },
+        { pubkey: this.getTokenAccount(pool.quoteMint, user), isSigner: false, isWritable: true },
+        { pubkey: pool.poolBaseTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: pool.poolQuoteTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: globalConfig.protocolFeeRecipient, isSigner: false, isWritable: false },
+        {
+          pubkey: this.getTokenAccount(pool.quoteMint, globalConfig.protocolFeeRecipient, true),
+          isSigner: false,
+          isWritable: true,
+        },
+        { pubkey: this.programs.token, isSigner: false, isWritable: false },
+        { pubkey: this.programs.token, isSigner: false, isWritable: false },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        { pubkey: this.programs.associatedToken, isSigner: false, isWritable: false },
+        { pubkey: this.getEventAuthorityPDA(), isSigner: false, isWritable: false },
+        { pubkey: programId, isSigner: false, isWritable: false },
+        { pubkey: this.getCreatorVaultTokenAccount(pool.coinCreator), isSigner: false, isWritable: true },
+        { pubkey: this.getCreatorVaultAuthorityPDA(pool.coinCreator), isSigner: false, isWritable: false },
+        { pubkey: globalVolumeAccumulator, isSigner: false, isWritable: true },
+        { pubkey: userVolumeAccumulator, isSigner: false, isWritable: true },
+        { pubkey: feeConfig, isSigner: false, isWritable: false },
+        { pubkey: this.programs.pumpfunFeeProgram, isSigner: false, isWritable: false },
+      ],
+      data,
+    });
+  }
+
+  /**
+   * Get the associated token account of an owner for a mint
+   */
+  private getTokenAccount(mint: PublicKey, owner: PublicKey, allowOwnerOffCurve = false): PublicKey {
+    return getAssociatedTokenAddressSync(
+      mint,
+      owner,
+      allowOwnerOffCurve,
+      this.programs.token,
+      this.programs.associatedToken
+    );
+  }
+
+  /**
+   * Derive the global config PDA
+   */
+  private getGlobalConfigPDA(): PublicKey {
+    const [pda] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPSWAP_CONSTANTS.GLOBAL_CONFIG_SEED)],
+      this.programs.pumpswap
+    );
+    return pda;
+  }
+
+  /**
+   * Derive the Anchor event authority PDA
+   */
+  private getEventAuthorityPDA(): PublicKey {
+    const [pda] = PublicKey.findProgramAddressSync(
+      [Buffer.from(PUMPSWAP_CONSTANTS.EVENT_AUTHORITY_SEED)],
+      this.programs.pumpswap
+    );
+    return pda;
+  }
+
+  /**
+   * Read fee settings and the protocol fee recipient from the global config account
+   */
+  private async getGlobalConfig(): Promise<PumpSwapGlobalConfig> {
+    const accountInfo = await this.wallet.getConnection().getAccountInfo(this.getGlobalConfigPDA());
+    if (!accountInfo) {
+      throw new Error('PumpSwap global config account not found');
+    }
+
+    // Layout: discriminator(8) + admin(32) + lpFeeBps(8) + protocolFeeBps(8) +
+    //         disableFlags(1) + protocolFeeRecipients(32 * 8) + coinCreatorFeeBps(8)
+    const data = accountInfo.data;
+
+    return {
+      lpFeeBps: data.readBigUInt64LE(40),
+      protocolFeeBps: data.readBigUInt64LE(48),
+      protocolFeeRecipient: new PublicKey(data.subarray(57, 89)),
+      coinCreatorFeeBps: data.readBigUInt64LE(313),
+    };
+  }
+}
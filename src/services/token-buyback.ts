@@ -0,0 +1,544 @@
+import { LAMPORTS_PER_SOL, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import {
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnCheckedInstruction,
+  createTransferCheckedInstruction,
+} from '@solana/spl-token';
+import { WalletManager, solToLamports, roundSolToLamports } from '../utils/wallet';
+import { BotConfig, PUMPFUN_CONSTANTS } from '../config';
+import { PumpFunService, BuyResult } from './pumpfun';
+import { PumpSwapService } from './pumpswap';
+import { planTwapSlices } from './twap';
+import { PriceGuard, GuardDecision, reservesFromCurve, reservesFromPool } from './guards';
+import { logger } from '../utils/logger';
+import { CycleStatus } from '../utils/ledger';
+
+/**
+ * Where buybacks are executed: the pump.fun bonding curve or the migrated PumpSwap pool
+ */
+export type ExecutionVenue = 'bonding-curve' | 'pumpswap';
+
+/**
+ * Result of the buy side of a cycle for one token
+ */
+export interface TokenBuybackResult {
+  mint: string;
+  status: CycleStatus;
+  buybackTx: string | null;
+  // All buy signatures (more than one when the buyback was sliced)
+  buybackTxs: string[];
+  solSpent: number;
+  tokensReceived: bigint | null;
+  // Network fees paid by the buy and post-buyback transactions (SOL)
+  networkFee: number;
+  failureReason: string | null;
+  // Why price guards resized or deferred buys, or null if none did
+  guardReason: string | null;
+  // Signature of the post-buyback burn or transfer, or null if none was made
+  postBuybackTx: string | null;
+  // Tokens burned or moved to the lock address by the post-buyback action (raw units)
+  tokensBurned: bigint;
+  tokensLocked: bigint;
+}
+
+/**
+ * Buys made for a buyback, in one market buy or several TWAP slices
+ */
+interface BuybackFills {
+  fills: BuyResult[];
+  // Number of buys planned (1 for a market buy, the slice count for TWAP)
+  planned: number;
+  // Number of planned buys the price guards deferred
+  deferred: number;
+  // Reasons logged by the price guards for resized or deferred buys
+  guardReasons: string[];
+}
+
+/**
+ * Buy side of the buyback for a single token: its venue, pending balance, price guards,
+ * market or TWAP execution and post-buyback action
+ */
+export class TokenBuyback {
+  private wallet: WalletManager;
+  private config: BotConfig;
+  private pumpfun: PumpFunService;
+  private pumpswap: PumpSwapService;
+  private venue: ExecutionVenue = 'bonding-curve';
+  private pauseReason: string | null = null;
+  private priceGuard: PriceGuard;
+
+  // Claimed fees attributed to this token but not yet spent on a buyback
+  private pendingLamports = 0;
+  // Pending balance restored from real cycles, which every dry-run cycle starts again from
+  private restoredPendingLamports = 0;
+  // Repurchased tokens whose burn or lock transfer failed, retried with the next post-buyback action (raw units)
+  private owedPostBuybackTokens = 0n;
+
+  /**
+   * @param config - Effective configuration of this token (see `getTokenConfig`)
+   */
+  constructor(
+    wallet: WalletManager,
+    config: BotConfig,
+    pumpfun: PumpFunService,
+    pumpswap: PumpSwapService
+  ) {
+    this.wallet = wallet;
+    this.config = config;
+    this.pumpfun = pumpfun;
+    this.pumpswap = pumpswap;
+    this.priceGuard = new PriceGuard(config);
+  }
+
+  /**
+   * Get the mint address of the token
+   */
+  getMint(): string {
+    return this.config.tokenMintAddress;
+  }
+
+  /**
+   * Get the token's pump.fun service
+   */
+  getPumpFun(): PumpFunService {
+    return this.pumpfun;
+  }
+
+  /**
+   * Get the token's PumpSwap service
+   */
+  getPumpSwap(): PumpSwapService {
+    return this.pumpswap;
+  }
+
+  /**
+   * Get the venue buybacks are currently executed on
+   */
+  getVenue(): ExecutionVenue {
+    return this.venue;
+  }
+
+  /**
+   * Switch the venue buybacks are executed on
+   */
+  setVenue(venue: ExecutionVenue): void {
+    if (venue !== this.venue) {
+      logger.info(`Buyback venue of ${this.getMint()} switched from ${this.venue} to ${venue}`);
+      this.venue = venue;
+    }
+  }
+
+  /**
+   * Get the pending buyback balance (claimed but not yet spent) in lamports
+   */
+  getPendingLamports(): number {
+    return this.pendingLamports;
+  }
+
+  /**
+   * Get the pending buyback balance (claimed but not yet spent) in SOL
+   */
+  getPendingBalance(): number {
+    return this.pendingLamports / LAMPORTS_PER_SOL;
+  }
+
+  /**
+   * Restore the pending buyback balance, e.g. from the ledger after a restart
+   */
+  setPendingLamports(lamports: number): void {
+    this.pendingLamports = Math.max(0, Math.floor(lamports));
+    this.restoredPendingLamports = this.pendingLamports;
+  }
+
+  /**
+   * In dry-run mode, drop the simulated claims and buys of earlier cycles from the pending balance
+   * Simulated claims never moved funds, so each dry-run cycle only adds what is claimable now.
+   */
+  resetSimulatedPending(): void {
+    if (this.config.dryRun) {
+      this.pendingLamports = this.restoredPendingLamports;
+    }
+  }
+
+  /**
+   * Add claimed fees attributed to this token to its pending balance
+   */
+  addPendingLamports(lamports: number): void {
+    this.pendingLamports += lamports;
+  }
+
+  /**
+   * Get the repurchased tokens still to be burned or moved to the lock address after a failed attempt (raw units)
+   */
+  getOwedPostBuybackTokens(): bigint {
+    return this.owedPostBuybackTokens;
+  }
+
+  /**
+   * Restore the repurchased tokens still to be burned or moved, e.g. from the ledger after a restart
+   */
+  setOwedPostBuybackTokens(amount: bigint): void {
+    this.owedPostBuybackTokens = amount > 0n ? amount : 0n;
+  }
+
+  /**
+   * Pause buybacks of this token (e.g. while it is migrating)
+   */
+  pause(reason: string): void {
+    this.pauseReason = reason;
+    logger.warn(`Buybacks of ${this.getMint()} paused: ${reason}`);
+  }
+
+  /**
+   * Resume buybacks of this token
+   */
+  resume(): void {
+    if (this.pauseReason !== null) {
+      this.pauseReason = null;
+      logger.info(`Buybacks of ${this.getMint()} resumed`);
+    }
+  }
+
+  /**
+   * Get why buybacks of this token are paused, or null if they are not
+   */
+  getPauseReason(): string | null {
+    return this.pauseReason;
+  }
+
+  /**
+   * Check if the pending balance reaches this token's buyback threshold
+   */
+  isDue(): boolean {
+    return this.pauseReason === null && this.getPendingBalance() >= this.config.minBuybackAmount;
+  }
+
+  /**
+   * Spend the pending balance, in one market buy or sliced over the TWAP window,
+   * then burn or lock the repurchased tokens along with any left over from failed attempts
+   * @param getStopReason - Returns why a running TWAP should stop early, or null to continue
+   */
+  async buyback(getStopReason: () => string | null = () => null): Promise<TokenBuybackResult> {
+    const result = await this.buyPending(getStopReason);
+    if (result.status !== 'skipped') {
+      await this.runPostBuybackAction(result);
+    }
+    return result;
+  }
+
+  /**
+   * Spend the pending balance, in one market buy or sliced over the TWAP window
+   */
+  private async buyPending(getStopReason: () => string | null): Promise<TokenBuybackResult> {
+    const result = this.emptyResult();
+    const pendingSol = this.getPendingBalance();
+
+    if (this.pauseReason !== null) {
+      return { ...result, status: 'skipped', failureReason: this.pauseReason };
+    }
+    if (this.pendingLamports === 0) {
+      return result;
+    }
+    logger.info(`Pending buyback balance of ${this.getMint()}: ${pendingSol.toFixed(6)} SOL`);
+
+    if (pendingSol < this.config.minBuybackAmount) {
+      logger.info(
+        `Pending buyback balance (${pendingSol.toFixed(6)} SOL) is below minimum buyback threshold (${this.config.minBuybackAmount} SOL)`
+      );
+      logger.info('No buyback executed. Will accumulate for next cycle.');
+      return { ...result, status: 'below-threshold' };
+    }
+
+    // Execute the buyback, in one market buy or sliced over the TWAP window
+    logger.info(`Executing buyback of ${this.getMint()} with ${pendingSol.toFixed(6)} SOL...`);
+    const { fills, planned, deferred, guardReasons } =
+      this.config.executionMode === 'twap'
+        ? await this.buyInSlices(pendingSol, getStopReason)
+        : await this.buyAtMarket(pendingSol);
+    result.guardReason = guardReasons.length > 0 ? guardReasons.join('; ') : null;
+
+    if (fills.length > 0) {
+      result.status = 'success';
+      result.buybackTx = fills[0].signature;
+      result.buybackTxs = fills.map((fill) => fill.signature);
+      result.solSpent = fills.reduce((sum, fill) => sum + fill.solSpent, 0);
+      result.tokensReceived = fills.reduce((sum, fill) => sum + fill.tokensReceived, 0n);
+      result.networkFee += fills.reduce((sum, fill) => sum + fill.networkFee, 0);
+
+      // Anything the buy did not use stays pending for the next cycle
+      this.pendingLamports = Math.max(0, this.pendingLamports - roundSolToLamports(result.solSpent));
+
+      if (fills.length < planned) {
+        result.failureReason = `${planned - fills.length} of ${planned} slices not filled`;
+        logger.warn(
+          `Buyback partially filled, ${this.getPendingBalance().toFixed(6)} SOL carried over to the next cycle`
+        );
+      } else {
+        logger.success(`Buyback of ${this.getMint()} completed successfully!`);
+      }
+    } else if (deferred === planned) {
+      logger.warn('Buyback deferred by price guards, pending balance will be retried next cycle');
+      result.status = 'deferred';
+      result.failureReason = result.guardReason;
+    } else {
+      logger.warn('Buyback transaction failed, pending balance will be retried next cycle');
+      result.status = 'buy-failed';
+      result.failureReason = 'buy transaction failed';
+    }
+
+    return result;
+  }
+
+  /**
+   * Buy tokens on the current execution venue
+   */
+  buyTokens(solAmount: number): Promise<BuyResult | null> {
+    return this.venue === 'pumpswap'
+      ? this.pumpswap.buyTokens(solAmount)
+      : this.pumpfun.buyTokens(solAmount);
+  }
+
+  /**
+   * Quote the tokens received for a SOL amount on the current execution venue
+   */
+  async quoteBuy(solAmount: number): Promise<bigint | null> {
+    if (this.venue === 'pumpswap') {
+      const pool = await this.pumpswap.getPoolData();
+      return pool ? this.pumpswap.quoteBuy(solAmount, pool) : null;
+    }
+
+    const curveData = await this.pumpfun.getBondingCurveData();
+    if (!curveData || curveData.complete) {
+      return null;
+    }
+    return this.pumpfun.quoteBuy(solAmount, curveData);
+  }
+
+  /**
+   * Spend the whole amount in a single market buy
+   */
+  private async buyAtMarket(solAmount: number): Promise<BuybackFills> {
+    const decision = await this.guardBuy(solAmount);
+    const guardReasons = decision.reason ? [decision.reason] : [];
+    if (decision.deferred) {
+      return { fills: [], planned: 1, deferred: 1, guardReasons };
+    }
+
+    const fill = await this.buyTokens(decision.solAmount);
+    return { fills: fill ? [fill] : [], planned: 1, deferred: 0, guardReasons };
+  }
+
+  /**
+   * Split a buyback into randomized slices spread over the TWAP window
+   * Each slice is re-quoted against the current reserves before buying. Slices that
+   * cannot run before the window ends, or once buybacks are paused, are not filled
+   * and their SOL stays in the pending buyback balance
+   */
+  private async buyInSlices(
+    solAmount: number,
+    getStopReason: () => string | null
+  ): Promise<BuybackFills> {
+    const windowMs = this.config.twapWindowMinutes * 60_000;
+    const deadline = Date.now() + windowMs;
+    const slices = planTwapSlices(
+      solToLamports(solAmount),
+      this.config.twapSlices,
+      windowMs,
+      this.config.twapJitterPct
+    );
+    logger.info(`TWAP: ${slices.length} slices over ${this.config.twapWindowMinutes} minutes`);
+
+    const fills: BuyResult[] = [];
+    const guardReasons: string[] = [];
+    let deferred = 0;
+    for (let i = 0; i < slices.length; i++) {
+      await this.sleep(slices[i].delayMs);
+
+      const stopReason = this.pauseReason ?? getStopReason();
+      if (stopReason !== null) {
+        logger.warn(`TWAP stopped early: ${stopReason}`);
+        break;
+      }
+      if (Date.now() > deadline) {
+        logger.warn('TWAP window ended before all slices were filled');
+        break;
+      }
+
+      const decision = await this.guardBuy(slices[i].lamports / LAMPORTS_PER_SOL);
+      if (decision.reason) {
+        guardReasons.push(`slice ${i + 1}: ${decision.reason}`);
+      }
+      if (decision.deferred) {
+        deferred++;
+        continue;
+      }
+
+      const sliceSol = decision.solAmount;
+      const quote = await this.quoteBuy(sliceSol);
+      if (quote === null || quote <= 0n) {
+        logger.warn(`TWAP slice ${i + 1}/${slices.length}: no quote available, skipping`);
+        continue;
+      }
+
+      logger.info(
+        `TWAP slice ${i + 1}/${slices.length}: ${sliceSol.toFixed(6)} SOL, quoted ${quote} tokens`
+      );
+      const fill = await this.buyTokens(sliceSol);
+      if (fill) {
+        fills.push(fill);
+      }
+    }
+
+    return { fills, planned: slices.length, deferred, guardReasons };
+  }
+
+  /**
+   * Run the price guards for a buy against the current reserves of the execution venue
+   */
+  private async guardBuy(solAmount: number): Promise<GuardDecision> {
+    let decision: GuardDecision = { solAmount, deferred: false, reason: null };
+
+    if (this.venue === 'pumpswap') {
+      const pool = await this.pumpswap.getPoolData();
+      if (pool) {
+        decision = this.priceGuard.check(solAmount, reservesFromPool(await this.pumpswap.getReserves(pool)));
+      }
+    } else {
+      const curveData = await this.pumpfun.getBondingCurveData();
+      if (curveData) {
+        decision = this.priceGuard.check(solAmount, reservesFromCurve(curveData));
+      }
+    }
+
+    if (decision.deferred) {
+      logger.warn(`Buy deferred: ${decision.reason}`);
+    } else if (decision.reason) {
+      logger.warn(`Buy ${decision.reason}`);
+    }
+    return decision;
+  }
+
+  /**
+   * Burn the tokens received by the cycle's buys, and those left over from failed attempts, or move them
+   * to the lock address, depending on the configured post-buyback action
+   * Tokens stay owed until their burn or transfer lands, so a failure is retried next cycle.
+   */
+  private async runPostBuybackAction(result: TokenBuybackResult): Promise<void> {
+    const action = this.config.postBuybackAction;
+    if (action === 'none') {
+      return;
+    }
+    let received = result.tokensReceived ?? 0n;
+    if (result.buybackTxs.length > 0 && received <= 0n) {
+      logger.warn(`Skipping post-buyback ${action} of this cycle's buys: exact tokens received are unknown`);
+      received = 0n;
+    }
+    const owed = this.owedPostBuybackTokens;
+    const amount = received + owed;
+    if (amount <= 0n) {
+      return;
+    }
+    if (owed > 0n) {
+      logger.info(`Retrying post-buyback ${action} of ${owed} tokens left over from earlier cycles`);
+    }
+
+    const instructions = this.buildPostBuybackInstructions(action, amount);
+
+    try {
+      if (this.config.dryRun) {
+        const simulation = await this.wallet.simulateInstructions(instructions);
+        if (simulation.error) {
+          return;
+        }
+        result.postBuybackTx = simulation.signature;
+      } else {
+        this.owedPostBuybackTokens = amount;
+        result.postBuybackTx = await this.wallet.sendTransaction(instructions);
+        this.owedPostBuybackTokens = 0n;
+        logger.tx(action === 'burn' ? 'Burn transaction' : 'Lock transfer transaction', result.postBuybackTx);
+        try {
+          const balances = await this.wallet.getTransactionBalances(result.postBuybackTx);
+          result.networkFee += balances.fee / LAMPORTS_PER_SOL;
+        } catch {
+          logger.debug('Could not read network fee of the post-buyback transaction');
+        }
+      }
+
+      if (action === 'burn') {
+        result.tokensBurned = amount;
+        logger.event('success', 'burn', `Burned ${amount} repurchased tokens`, {
+          mint: this.getMint(),
+          signature: result.postBuybackTx,
+          tokens: amount,
+        });
+      } else {
+        result.tokensLocked = amount;
+        logger.event('success', 'lock', `Moved ${amount} repurchased tokens to ${this.config.lockAddress}`, {
+          mint: this.getMint(),
+          signature: result.postBuybackTx,
+          tokens: amount,
+          destination: this.config.lockAddress,
+        });
+      }
+    } catch (error: any) {
+      logger.error(
+        `Post-buyback ${action} of ${amount} tokens failed, will retry next cycle:`,
+        error.message || error
+      );
+    }
+  }
+
+  /**
+   * Build the burn instruction, or the lock address transfer instructions
+   */
+  private buildPostBuybackInstructions(
+    action: 'burn' | 'transfer',
+    amount: bigint
+  ): TransactionInstruction[] {
+    const owner = this.wallet.getPublicKey();
+    const mint = new PublicKey(this.config.tokenMintAddress);
+    const { token, associatedToken } = this.config.network.programs;
+    const source = getAssociatedTokenAddressSync(mint, owner, false, token, associatedToken);
+    const decimals = PUMPFUN_CONSTANTS.TOKEN_DECIMALS;
+
+    if (action === 'burn') {
+      return [createBurnCheckedInstruction(source, mint, owner, amount, decimals, [], token)];
+    }
+
+    // The lock address may be a program-owned account, so allow off-curve owners
+    const lockOwner = new PublicKey(this.config.lockAddress!);
+    const destination = getAssociatedTokenAddressSync(mint, lockOwner, true, token, associatedToken);
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(owner, destination, lockOwner, mint, token, associatedToken),
+      createTransferCheckedInstruction(source, mint, destination, owner, amount, decimals, [], token),
+    ];
+  }
+
+  /**
+   * Create a result with nothing bought
+   */
+  private emptyResult(): TokenBuybackResult {
+    return {
+      mint: this.getMint(),
+      status: 'no-fees',
+      buybackTx: null,
+      buybackTxs: [],
+      solSpent: 0,
+      tokensReceived: null,
+      networkFee: 0,
+      failureReason: null,
+      guardReason: null,
+      postBuybackTx: null,
+      tokensBurned: 0n,
+      tokensLocked: 0n,
+    };
+  }
+
+  /**
+   * Sleep utility function
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * A single slice of a TWAP buyback
+ */
+export interface TwapSlice {
+  // SOL to spend on this slice (in lamports)
+  lamports: number;
+  // Time to wait before executing this slice (in milliseconds)
+  delayMs: number;
+}
+
+/**
+ * Randomize a value by up to +/- jitterPct percent
+ */
+function jitter(value: number, jitterPct: number, random: () => number): number {
+  return value * (1 + (jitterPct / 100) * (2 * random() - 1));
+}
+
+/**
+ * Split a buyback into slices with randomized sizes and intervals
+ * The first slice runs immediately and the remaining ones are spread over the window,
+ * so that on average the last slice runs before the window ends
+ * @param totalLamports - Total SOL to spend (in lamports)
+ * @param slices - Number of slices
+ * @param windowMs - Time window to spread the slices over (in milliseconds)
+ * @param jitterPct - Maximum randomization of sizes and intervals (0-100)
+ */
+export function planTwapSlices(
+  totalLamports: number,
+  slices: number,
+  windowMs: number,
+  jitterPct: number,
+  random: () => number = Math.random
+): TwapSlice[] {
+  const count = Math.max(1, Math.min(slices, totalLamports));
+  const weights = Array.from({ length: count }, () => jitter(1, jitterPct, random));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const interval = windowMs / count;
+
+  const plan: TwapSlice[] = [];
+  let allocated = 0;
+  for (let i = 0; i < count; i++) {
+    // The last slice takes whatever rounding left over
+    const lamports =
+      i === count - 1
+        ? totalLamports - allocated
+        : Math.floor((totalLamports * weights[i]) / totalWeight);
+    allocated += lamports;
+
+    plan.push({
+      lamports,
+      delayMs: i === 0 ? 0 : Math.round(jitter(interval, jitterPct, random)),
+    });
+  }
+
+  return plan;
+}
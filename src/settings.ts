@@ -0,0 +1,536 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+// Jito block engine tip accounts on mainnet
+const DEFAULT_BUNDLE_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+];
+
+// Squads v4 multisig program
+const DEFAULT_MULTISIG_PROGRAM_ID = 'SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf';
+
+/**
+ * Schema of a single setting, keyed by its environment variable name
+ */
+export type SettingSpec =
+  | {
+      type: 'number';
+      default: number;
+      // Unit shown in validation errors (e.g. 'basis points', 'SOL')
+      unit: string;
+      integer?: boolean;
+      min?: number;
+      // Whether the minimum itself is excluded (the value must be above it)
+      minExclusive?: boolean;
+      max?: number;
+    }
+  | { type: 'boolean'; default: boolean }
+  | {
+      type: 'string';
+      default: string | null;
+      // Only read from the environment, never from the config file (e.g. the private key or an API token)
+      envOnly?: boolean;
+    }
+  | { type: 'choice'; default: string; choices: readonly string[] }
+  | { type: 'list'; default: string[] }
+  // Structured value: a JSON string in the environment, YAML/JSON data in the config file
+  | { type: 'json'; default: unknown };
+
+/**
+ * Every setting the bot reads, with its type, default and allowed range
+ */
+export const SETTINGS_SCHEMA: Record<string, SettingSpec> = {
+  CLUSTER: { type: 'choice', default: 'mainnet', choices: ['mainnet', 'devnet', 'localnet'] },
+  // Unset endpoints, program IDs and explorer links are those of the cluster (see cluster.ts)
+  SOLANA_RPC_ENDPOINT: { type: 'string', default: null },
+  PUMPFUN_PROGRAM_ID: { type: 'string', default: null },
+  PUMPFUN_FEE_PROGRAM_ID: { type: 'string', default: null },
+  PUMPFUN_GLOBAL_ACCOUNT: { type: 'string', default: null },
+  PUMPFUN_FEE_RECIPIENT: { type: 'string', default: null },
+  PUMPSWAP_PROGRAM_ID: { type: 'string', default: null },
+  TOKEN_PROGRAM_ID: { type: 'string', default: null },
+  ASSOCIATED_TOKEN_PROGRAM_ID: { type: 'string', default: null },
+  PUMPPORTAL_API_URL: { type: 'string', default: null },
+  PUMPFUN_FEE_API_URL: { type: 'string', default: null },
+  EXPLORER_TX_URL: { type: 'string', default: null },
+  WALLET_PRIVATE_KEY: { type: 'string', default: null, envOnly: true },
+  WALLET_KEYSTORE: { type: 'string', default: null },
+  WALLET_KEYSTORE_PASSPHRASE: { type: 'string', default: null, envOnly: true },
+  WALLET_KEYSTORE_PASSPHRASE_FILE: { type: 'string', default: null },
+  SIGNER: { type: 'choice', default: 'keypair', choices: ['keypair', 'remote', 'multisig'] },
+  REMOTE_SIGNER_URL: { type: 'string', default: null },
+  REMOTE_SIGNER_TOKEN: { type: 'string', default: null, envOnly: true },
+  REMOTE_SIGNER_PUBLIC_KEY: { type: 'string', default: null },
+  MULTISIG_ADDRESS: { type: 'string', default: null },
+  MULTISIG_VAULT_INDEX: { type: 'number', default: 0, unit: 'vault index', integer: true, min: 0, max: 255 },
+  MULTISIG_PROGRAM_ID: { type: 'string', default: DEFAULT_MULTISIG_PROGRAM_ID },
+  MULTISIG_APPROVAL_TIMEOUT_MINUTES: {
+    type: 'number',
+    default: 30,
+    unit: 'minutes',
+    min: 0,
+    minExclusive: true,
+    max: 1440,
+  },
+  // Read by the stand-in remote signer (npm run signer), not the bot
+  SIGNER_LISTEN: { type: 'string', default: '127.0.0.1:8790' },
+  SIGNER_TOKEN: { type: 'string', default: null, envOnly: true },
+  SIGNER_ALLOWED_PROGRAMS: { type: 'list', default: [] },
+  SIGNER_MAX_SOL: { type: 'number', default: 1, unit: 'SOL', min: 0 },
+  SIGNER_WINDOW_MAX_SOL: { type: 'number', default: 10, unit: 'SOL', min: 0 },
+  SIGNER_WINDOW_HOURS: { type: 'number', default: 24, unit: 'hours', min: 0, minExclusive: true },
+  TOKEN_MINT_ADDRESS: { type: 'string', default: null },
+  TOKENS: { type: 'json', default: null },
+  FEE_ATTRIBUTION: { type: 'choice', default: 'weight', choices: ['weight', 'trades'] },
+  MIN_BUYBACK_AMOUNT: { type: 'number', default: 0.01, unit: 'SOL', min: 0 },
+  MIN_CLAIM_AMOUNT: { type: 'number', default: 0, unit: 'SOL', min: 0 },
+  FEE_API_CROSS_CHECK: { type: 'boolean', default: false },
+  CHECK_INTERVAL_MINUTES: { type: 'number', default: 5, unit: 'minutes', integer: true, min: 1, max: 1440 },
+  SLIPPAGE_BPS: { type: 'number', default: 500, unit: 'basis points', integer: true, min: 1, max: 5000 },
+  MAX_PRICE_IMPACT_BPS: { type: 'number', default: 0, unit: 'basis points', integer: true, min: 0, max: 10000 },
+  MAX_SPOT_PRICE_SOL: { type: 'number', default: 0, unit: 'SOL per token', min: 0 },
+  MA_DEVIATION_BPS: { type: 'number', default: 0, unit: 'basis points', integer: true, min: 0, max: 10000 },
+  MA_WINDOW_SAMPLES: { type: 'number', default: 12, unit: 'samples', integer: true, min: 1, max: 1000 },
+  USE_PRIORITY_FEE: { type: 'boolean', default: false },
+  PRIORITY_FEE_MODE: { type: 'choice', default: 'fixed', choices: ['fixed', 'dynamic'] },
+  PRIORITY_FEE_MICRO_LAMPORTS: {
+    type: 'number',
+    default: 50000,
+    unit: 'microlamports per compute unit',
+    integer: true,
+    min: 0,
+    max: 10_000_000,
+  },
+  PRIORITY_FEE_PERCENTILE: { type: 'number', default: 75, unit: 'percentile', min: 0, max: 100 },
+  PRIORITY_FEE_MIN_MICRO_LAMPORTS: {
+    type: 'number',
+    default: 1000,
+    unit: 'microlamports per compute unit',
+    integer: true,
+    min: 0,
+    max: 10_000_000,
+  },
+  PRIORITY_FEE_MAX_MICRO_LAMPORTS: {
+    type: 'number',
+    default: 1_000_000,
+    unit: 'microlamports per compute unit',
+    integer: true,
+    min: 0,
+    max: 10_000_000,
+  },
+  PRIORITY_FEE_RETRY_STEP_PCT: { type: 'number', default: 50, unit: 'percent', min: 0, max: 1000 },
+  TX_MAX_ATTEMPTS: { type: 'number', default: 3, unit: 'attempts', integer: true, min: 1, max: 10 },
+  TX_REBROADCAST_INTERVAL_MS: {
+    type: 'number',
+    default: 2000,
+    unit: 'milliseconds',
+    integer: true,
+    min: 250,
+    max: 60_000,
+  },
+  CLAIM_SUBMISSION: { type: 'choice', default: 'rpc', choices: ['rpc', 'fanout', 'bundle'] },
+  BUY_SUBMISSION: { type: 'choice', default: 'rpc', choices: ['rpc', 'fanout', 'bundle'] },
+  SEND_ONLY_RPC_ENDPOINTS: { type: 'list', default: [] },
+  BUNDLE_ENDPOINT: { type: 'string', default: null },
+  BUNDLE_TIP_LAMPORTS: {
+    type: 'number',
+    default: 10000,
+    unit: 'lamports',
+    integer: true,
+    min: 1000,
+    max: 100_000_000,
+  },
+  BUNDLE_TIP_ACCOUNTS: { type: 'list', default: DEFAULT_BUNDLE_TIP_ACCOUNTS },
+  DRY_RUN: { type: 'boolean', default: false },
+  EXECUTION_MODE: { type: 'choice', default: 'market', choices: ['market', 'twap'] },
+  TWAP_SLICES: { type: 'number', default: 4, unit: 'slices', integer: true, min: 1, max: 100 },
+  TWAP_WINDOW_MINUTES: { type: 'number', default: 3, unit: 'minutes', min: 0, minExclusive: true, max: 1440 },
+  TWAP_JITTER_PCT: { type: 'number', default: 30, unit: 'percent', min: 0, max: 100 },
+  FEE_ALLOCATIONS: { type: 'list', default: [] },
+  POST_BUYBACK_ACTION: { type: 'choice', default: 'none', choices: ['none', 'burn', 'transfer'] },
+  LOCK_ADDRESS: { type: 'string', default: null },
+  BUY_METHOD: { type: 'choice', default: 'pumpportal', choices: ['pumpportal', 'native'] },
+  GRADUATION_ROUTE: { type: 'choice', default: 'pumpswap', choices: ['pumpswap', 'stop'] },
+  GRADUATION_POLL_SECONDS: { type: 'number', default: 30, unit: 'seconds', integer: true, min: 5, max: 3600 },
+  LEDGER_PATH: { type: 'string', default: './data/ledger.jsonl' },
+  METRICS_PORT: { type: 'number', default: 0, unit: 'port', integer: true, min: 0, max: 65535 },
+  METRICS_HOST: { type: 'string', default: '0.0.0.0' },
+  HEALTH_MAX_MISSED_INTERVALS: { type: 'number', default: 3, unit: 'intervals', integer: true, min: 1, max: 100 },
+  CONTROL_PORT: { type: 'number', default: 0, unit: 'port', integer: true, min: 0, max: 65535 },
+  CONTROL_HOST: { type: 'string', default: '127.0.0.1' },
+  CONTROL_API_TOKEN: { type: 'string', default: null, envOnly: true },
+  AUDIT_LOG_PATH: { type: 'string', default: './data/audit.jsonl' },
+  TELEGRAM_BOT_TOKEN: { type: 'string', default: null, envOnly: true },
+  TELEGRAM_CHAT_ID: { type: 'string', default: null },
+  TELEGRAM_EVENTS: { type: 'list', default: [] },
+  DISCORD_WEBHOOK_URL: { type: 'string', default: null },
+  DISCORD_EVENTS: { type: 'list', default: [] },
+  NOTIFY_WEBHOOK_URL: { type: 'string', default: null },
+  NOTIFY_WEBHOOK_EVENTS: { type: 'list', default: [] },
+  NOTIFY_BATCH_SECONDS: { type: 'number', default: 10, unit: 'seconds', integer: true, min: 0, max: 3600 },
+  NOTIFY_MAX_PER_MINUTE: { type: 'number', default: 6, unit: 'messages', integer: true, min: 1, max: 60 },
+  CLAIM_FAILURE_ALERT_COUNT: { type: 'number', default: 3, unit: 'cycles', integer: true, min: 1, max: 1000 },
+  LOW_BALANCE_ALERT_SOL: { type: 'number', default: 0.05, unit: 'SOL', min: 0 },
+  LOG_FORMAT: { type: 'choice', default: 'text', choices: ['text', 'json'] },
+  LOG_FILE: { type: 'string', default: null },
+  LOG_MAX_SIZE_MB: { type: 'number', default: 10, unit: 'megabytes', min: 1, max: 1024 },
+  LOG_MAX_FILES: { type: 'number', default: 5, unit: 'files', integer: true, min: 0, max: 100 },
+};
+
+/**
+ * Built-in profiles, selected with CONFIG_PROFILE or `profile:` in the config file
+ * A profile of the same name in the config file extends the built-in one.
+ */
+export const BUILT_IN_PROFILES: Record<string, Record<string, unknown>> = {
+  mainnet: {
+    CLUSTER: 'mainnet',
+    SOLANA_RPC_ENDPOINT: 'https://api.mainnet-beta.solana.com',
+  },
+  // PumpPortal, bundles and the pump.fun fee API only serve mainnet
+  devnet: {
+    CLUSTER: 'devnet',
+    SOLANA_RPC_ENDPOINT: 'https://api.devnet.solana.com',
+    BUY_METHOD: 'native',
+    CLAIM_SUBMISSION: 'rpc',
+    BUY_SUBMISSION: 'rpc',
+    FEE_API_CROSS_CHECK: false,
+  },
+  localnet: {
+    CLUSTER: 'localnet',
+    SOLANA_RPC_ENDPOINT: 'http://127.0.0.1:8899',
+    BUY_METHOD: 'native',
+    CLAIM_SUBMISSION: 'rpc',
+    BUY_SUBMISSION: 'rpc',
+    FEE_API_CROSS_CHECK: false,
+  },
+  'dry-run': {
+    DRY_RUN: true,
+  },
+};
+
+// Keys of the config file that are not settings
+const RESERVED_FILE_KEYS = ['profile', 'profiles'];
+
+// Decimal numbers, optionally with an exponent; anything else (e.g. '5%', '10abc', '') is rejected
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Name of a setting in the config file: the camelCase form of its environment variable
+ * (e.g. SLIPPAGE_BPS is `slippageBps`)
+ */
+export function toFileKey(name: string): string {
+  return name.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+const SETTINGS_BY_FILE_KEY = new Map(Object.keys(SETTINGS_SCHEMA).map((name) => [toFileKey(name), name]));
+
+/**
+ * Describe the values a number setting accepts, e.g. "a whole number between 1 and 5000 (basis points)"
+ */
+function describeNumber(spec: Extract<SettingSpec, { type: 'number' }>): string {
+  let range = '';
+  if (spec.min !== undefined && spec.max !== undefined) {
+    range = spec.minExclusive ? ` above ${spec.min} and at most ${spec.max}` : ` between ${spec.min} and ${spec.max}`;
+  } else if (spec.min !== undefined) {
+    range = spec.minExclusive ? ` above ${spec.min}` : ` of at least ${spec.min}`;
+  } else if (spec.max !== undefined) {
+    range = ` of at most ${spec.max}`;
+  }
+  return `${spec.integer ? 'a whole number' : 'a number'}${range} (${spec.unit})`;
+}
+
+/**
+ * Look up the schema of a setting, checking its type
+ */
+function getSpec<T extends SettingSpec['type']>(name: string, type: T): Extract<SettingSpec, { type: T }> {
+  const spec = SETTINGS_SCHEMA[name];
+  if (!spec || spec.type !== type) {
+    throw new Error(`Setting ${name} is not a ${type} setting`);
+  }
+  return spec as Extract<SettingSpec, { type: T }>;
+}
+
+/**
+ * Validate a number setting against its schema
+ * Accepts numbers and strings that are exactly a decimal number, so typos fail instead of becoming NaN
+ * @param label - How the value is named in errors, e.g. "SLIPPAGE_BPS (from config.yaml)"
+ */
+export function checkNumber(name: string, value: unknown, label = name): number {
+  const spec = getSpec(name, 'number');
+  let number: number;
+  if (typeof value === 'number') {
+    number = value;
+  } else if (typeof value === 'string' && NUMBER_PATTERN.test(value.trim())) {
+    number = Number(value.trim());
+  } else {
+    throw new Error(`Invalid ${label} "${value}" - must be ${describeNumber(spec)}`);
+  }
+
+  const belowMin =
+    spec.min !== undefined && (spec.minExclusive ? number <= spec.min : number < spec.min);
+  if (
+    !isFinite(number) ||
+    (spec.integer && !Number.isInteger(number)) ||
+    belowMin ||
+    (spec.max !== undefined && number > spec.max)
+  ) {
+    throw new Error(`Invalid ${label} "${value}" - must be ${describeNumber(spec)}`);
+  }
+  return number;
+}
+
+/**
+ * A source of setting values, from highest to lowest precedence after the environment
+ */
+interface SettingsLayer {
+  // Where the values come from, shown in errors (e.g. 'config.yaml profile "devnet"')
+  source: string;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Read a config file's settings, keyed by environment variable name
+ * @param source - How the settings are named in errors
+ */
+function toSettings(data: Record<string, unknown>, source: string): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const name = SETTINGS_BY_FILE_KEY.get(key);
+    if (!name) {
+      const hint = SETTINGS_SCHEMA[key] ? ` - use "${toFileKey(key)}"` : '';
+      throw new Error(`Unknown setting "${key}" in ${source}${hint}`);
+    }
+    const spec = SETTINGS_SCHEMA[name];
+    if (spec.type === 'string' && spec.envOnly) {
+      throw new Error(`${name} cannot be set in ${source} - keep it in the environment`);
+    }
+    values[name] = value;
+  }
+  return values;
+}
+
+/**
+ * Parse a YAML or JSON config file (by extension) into an object
+ */
+function readConfigFile(filePath: string): Record<string, unknown> {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (error: any) {
+    throw new Error(`Cannot read CONFIG_FILE ${filePath}: ${error.message || error}`);
+  }
+
+  const extension = path.extname(filePath).toLowerCase();
+  let data: unknown;
+  try {
+    if (extension === '.json') {
+      data = JSON.parse(text);
+    } else if (extension === '.yaml' || extension === '.yml') {
+      data = YAML.parse(text);
+    } else {
+      throw new Error('must end in .yaml, .yml or .json');
+    }
+  } catch (error: any) {
+    throw new Error(`Invalid CONFIG_FILE ${filePath}: ${error.message || error}`);
+  }
+
+  // An empty YAML file parses to null
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Invalid CONFIG_FILE ${filePath}: must contain a mapping of settings`);
+  }
+  return data as Record<string, unknown>;
+}
+
+/**
+ * Reads settings from the environment, the optional config file and the selected profile
+ * Precedence, highest first: environment variables, the profile (the config file's
+ * `profiles.<name>` over the built-in profile), the config file's top-level settings, and
+ * the schema defaults. Empty environment variables count as unset.
+ */
+export class SettingsReader {
+  // Config file the settings were read from, or null for environment only
+  readonly filePath: string | null;
+
+  // Selected profile, or null for none
+  readonly profile: string | null;
+
+  private env: NodeJS.ProcessEnv;
+  private layers: SettingsLayer[] = [];
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    this.env = env;
+    this.filePath = env.CONFIG_FILE ? path.resolve(env.CONFIG_FILE) : null;
+
+    let file: Record<string, unknown> = {};
+    let fileProfiles: Record<string, unknown> = {};
+    const fileName = this.filePath ? path.basename(this.filePath) : '';
+    if (this.filePath) {
+      file = readConfigFile(this.filePath);
+      if (file.profiles !== undefined) {
+        if (typeof file.profiles !== 'object' || file.profiles === null || Array.isArray(file.profiles)) {
+          throw new Error(`Invalid "profiles" in ${fileName} - must map profile names to settings`);
+        }
+        fileProfiles = file.profiles as Record<string, unknown>;
+      }
+      if (file.profile !== undefined && typeof file.profile !== 'string') {
+        throw new Error(`Invalid "profile" in ${fileName} - must be a profile name`);
+      }
+    }
+
+    this.profile = env.CONFIG_PROFILE || (file.profile as string | undefined) || null;
+    if (this.profile) {
+      const builtIn = BUILT_IN_PROFILES[this.profile];
+      const custom = fileProfiles[this.profile];
+      if (!builtIn && custom === undefined) {
+        const available = [...new Set([...Object.keys(BUILT_IN_PROFILES), ...Object.keys(fileProfiles)])];
+        throw new Error(`Unknown profile "${this.profile}" - must be one of ${available.join(', ')}`);
+      }
+      if (custom !== undefined) {
+        const source = `${fileName} profile "${this.profile}"`;
+        if (typeof custom !== 'object' || custom === null || Array.isArray(custom)) {
+          throw new Error(`Invalid ${source} - must be a mapping of settings`);
+        }
+        this.layers.push({ source, values: toSettings(custom as Record<string, unknown>, source) });
+      }
+      if (builtIn) {
+        this.layers.push({ source: `profile "${this.profile}"`, values: builtIn });
+      }
+    }
+
+    const settings = Object.fromEntries(
+      Object.entries(file).filter(([key]) => !RESERVED_FILE_KEYS.includes(key))
+    );
+    this.layers.push({ source: fileName, values: toSettings(settings, fileName) });
+  }
+
+  /**
+   * Check if a setting is set anywhere (defaults aside)
+   */
+  has(name: string): boolean {
+    return this.lookup(name) !== null;
+  }
+
+  /**
+   * Read a number setting, checking its type and range
+   */
+  number(name: string): number {
+    const found = this.lookup(name);
+    if (!found) {
+      return getSpec(name, 'number').default;
+    }
+    return checkNumber(name, found.value, `${name} (from ${found.source})`);
+  }
+
+  /**
+   * Read a boolean setting: true/false, or a YAML/JSON boolean in the config file
+   */
+  boolean(name: string): boolean {
+    const found = this.lookup(name);
+    if (!found) {
+      return getSpec(name, 'boolean').default;
+    }
+    if (typeof found.value === 'boolean') {
+      return found.value;
+    }
+    const text = String(found.value).trim().toLowerCase();
+    if (text !== 'true' && text !== 'false') {
+      throw new Error(`Invalid ${name} (from ${found.source}) "${found.value}" - must be true or false`);
+    }
+    return text === 'true';
+  }
+
+  /**
+   * Read a string setting, or its default (null when it has none)
+   */
+  string(name: string): string | null {
+    const found = this.lookup(name);
+    if (!found) {
+      return getSpec(name, 'string').default;
+    }
+    if (typeof found.value !== 'string' && typeof found.value !== 'number') {
+      throw new Error(`Invalid ${name} (from ${found.source}) - must be a string`);
+    }
+    return String(found.value);
+  }
+
+  /**
+   * Read a setting that is one of a fixed set of values (case-insensitive)
+   */
+  choice<T extends string>(name: string): T {
+    const spec = getSpec(name, 'choice');
+    const found = this.lookup(name);
+    if (!found) {
+      return spec.default as T;
+    }
+    const value = String(found.value).trim().toLowerCase();
+    if (!spec.choices.includes(value)) {
+      throw new Error(
+        `Invalid ${name} (from ${found.source}) "${found.value}" - must be ${spec.choices.map((choice) => `"${choice}"`).join(', ')}`
+      );
+    }
+    return value as T;
+  }
+
+  /**
+   * Read a list setting: comma-separated in the environment, a list or comma-separated string in the config file
+   */
+  list(name: string): string[] {
+    const found = this.lookup(name);
+    if (!found) {
+      return [...getSpec(name, 'list').default];
+    }
+    const entries = Array.isArray(found.value) ? found.value : String(found.value).split(',');
+    return entries.map((entry, index) => {
+      if (typeof entry !== 'string' && typeof entry !== 'number') {
+        throw new Error(`Invalid ${name} (from ${found.source}) entry ${index + 1} - must be a string`);
+      }
+      return String(entry).trim();
+    }).filter((entry) => entry.length > 0);
+  }
+
+  /**
+   * Read a structured setting: JSON text in the environment, data in the config file
+   */
+  json(name: string): unknown {
+    const found = this.lookup(name);
+    if (!found) {
+      return getSpec(name, 'json').default;
+    }
+    if (typeof found.value !== 'string') {
+      return found.value;
+    }
+    try {
+      return JSON.parse(found.value);
+    } catch {
+      throw new Error(`Invalid ${name} (from ${found.source}) - must be valid JSON`);
+    }
+  }
+
+  /**
+   * Find the highest-precedence value of a setting and where it came from
+   */
+  private lookup(name: string): { value: unknown; source: string } | null {
+    const envValue = this.env[name];
+    if (envValue !== undefined && envValue !== '') {
+      return { value: envValue, source: 'the environment' };
+    }
+    for (const layer of this.layers) {
+      const value = layer.values[name];
+      if (value !== undefined && value !== null) {
+        return { value, source: layer.source };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Stand-in remote signer: holds the wallet key outside the bot and signs the transactions that pass its policy
+ *
+ * Usage: npm run signer
+ * Reads WALLET_PRIVATE_KEY or WALLET_KEYSTORE and the SIGNER_* settings; run the bot with
+ * SIGNER=remote and REMOTE_SIGNER_URL pointing at SIGNER_LISTEN.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import { LAMPORTS_PER_SOL, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { LogFormat } from './config';
+import { SettingsReader } from './settings';
+import { readClusterConfig } from './cluster';
+import { logger } from './utils/logger';
+import { loadWalletSecretKey } from './utils/keystore';
+import { KeypairSigner } from './utils/signer';
+import {
+  PolicyViolation,
+  SigningPolicy,
+  TransactionSummary,
+  checkSigningPolicy,
+  getDefaultAllowedPrograms,
+} from './utils/signing-policy';
+
+// Largest request body accepted (in bytes)
+const MAX_BODY_BYTES = 16 * 1024;
+
+/**
+ * Where the server listens: a TCP host and port, or a Unix socket path
+ */
+type ListenAddress = { host: string; port: number } | { path: string };
+
+/**
+ * SOL a signed transaction may spend, and when it was signed
+ */
+interface SignedSpend {
+  time: number;
+  lamports: number;
+}
+
+/**
+ * Error answered with a specific HTTP status
+ */
+class SignerError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Compare two secrets in constant time
+ */
+function secretsMatch(given: string, expected: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * Parse SIGNER_LISTEN: a socket path (containing a slash), `host:port` or a port on loopback
+ */
+export function parseListenAddress(value: string): ListenAddress {
+  if (value.includes('/')) {
+    return { path: value };
+  }
+  const match = value.match(/^(?:(.+):)?(\d+)$/);
+  const port = match ? Number(match[2]) : NaN;
+  if (!match || port < 1 || port > 65535) {
+    throw new Error(`Invalid SIGNER_LISTEN "${value}" - must be host:port, a port or a Unix socket path`);
+  }
+  return { host: match[1] ?? '127.0.0.1', port };
+}
+
+/**
+ * HTTP signer service, protected by a bearer token
+ * - GET /public-key: the public key it signs for
+ * - POST /sign { "transaction": base64, "action"?, "simulate"? }: the transaction signed, if the policy allows it
+ * Every signature and refusal is logged. Each signed transaction counts towards the window limit whether or not
+ * it lands, since the signer cannot tell; transactions signed for simulation do not.
+ */
+export class SignerServer {
+  private signer: KeypairSigner;
+  private policy: SigningPolicy;
+  private token: string;
+  private server: http.Server | null = null;
+  private spends: SignedSpend[] = [];
+
+  constructor(signer: KeypairSigner, policy: SigningPolicy, token: string) {
+    this.signer = signer;
+    this.policy = policy;
+    this.token = token;
+  }
+
+  /**
+   * Start listening; a Unix socket is only accessible to its owner
+   */
+  async start(address: ListenAddress): Promise<void> {
+    if ('path' in address && fs.existsSync(address.path)) {
+      if (!fs.statSync(address.path).isSocket()) {
+        throw new Error(`${address.path} exists and is not a socket`);
+      }
+      // Left behind by a previous run
+      fs.rmSync(address.path);
+    }
+
+    const server = http.createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      if ('path' in address) {
+        server.listen(address.path, () => resolve());
+      } else {
+        server.listen(address.port, address.host, () => resolve());
+      }
+    });
+    this.server = server;
+
+    if ('path' in address) {
+      fs.chmodSync(address.path, 0o600);
+    }
+    logger.info(
+      `Signer for ${this.signer.getPublicKey().toBase58()} listening on ` +
+        ('path' in address ? address.path : `${address.host}:${address.port}`)
+    );
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Authenticate and route a request
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const route = `${req.method} ${(req.url || '/').split('?')[0]}`;
+    const header = req.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!token || !secretsMatch(token, this.token)) {
+      logger.warn(`Refused ${route}: missing or wrong token`);
+      this.reply(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      switch (route) {
+        case 'GET /public-key':
+          this.reply(res, 200, { publicKey: this.signer.getPublicKey().toBase58() });
+          return;
+        case 'POST /sign':
+          this.reply(res, 200, await this.sign(await this.readBody(req)));
+          return;
+        default:
+          this.reply(res, 404, { error: 'Not found' });
+      }
+    } catch (error: any) {
+      const status = error instanceof SignerError ? error.status : 500;
+      if (status >= 500) {
+        logger.error(`Signer ${route} failed:`, error.message || error);
+      }
+      this.reply(res, status, { error: error.message || String(error) });
+    }
+  }
+
+  /**
+   * Check a transaction against the policy and sign it
+   */
+  private async sign(body: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const action = typeof body.action === 'string' ? body.action : 'other';
+    if (typeof body.transaction !== 'string') {
+      throw new SignerError(400, '"transaction" must be a base64 string');
+    }
+    const serialized = Buffer.from(body.transaction, 'base64');
+
+    let transaction: VersionedTransaction;
+    try {
+      transaction = VersionedTransaction.deserialize(serialized);
+    } catch {
+      throw new SignerError(400, '"transaction" is not a valid serialized transaction');
+    }
+
+    const simulate = body.simulate === true;
+    let summary: TransactionSummary;
+    try {
+      summary = checkSigningPolicy(transaction.message, this.signer.getPublicKey(), this.policy);
+      if (!simulate) {
+        this.checkWindow(summary.lamports);
+      }
+    } catch (error: any) {
+      if (error instanceof PolicyViolation) {
+        logger.event('warn', 'sign-refused', `Refused to sign ${action} transaction: ${error.message}`, { action });
+        throw new SignerError(403, `Policy violation: ${error.message}`);
+      }
+      throw error;
+    }
+
+    const signed = await this.signer.signTransaction(serialized);
+    if (!simulate) {
+      this.spends.push({ time: Date.now(), lamports: summary.lamports });
+    }
+    logger.event(
+      'info',
+      'signed',
+      `Signed ${simulate ? 'simulated ' : ''}${action} transaction spending up to ` +
+        `${(summary.lamports / LAMPORTS_PER_SOL).toFixed(6)} SOL`,
+      { action, simulate, lamports: summary.lamports, programs: summary.programs }
+    );
+    return { transaction: signed.toString('base64') };
+  }
+
+  /**
+   * Check that a transaction keeps the SOL signed for within the window under its limit
+   * @throws PolicyViolation if it would not
+   */
+  private checkWindow(lamports: number): void {
+    const since = Date.now() - this.policy.windowMs;
+    this.spends = this.spends.filter((spend) => spend.time > since);
+    const spent = this.spends.reduce((total, spend) => total + spend.lamports, 0);
+    if (spent + lamports > this.policy.maxWindowLamports) {
+      throw new PolicyViolation(
+        `Transaction spends up to ${lamports} lamports on top of ${spent} signed within the window, ` +
+          `above the limit of ${this.policy.maxWindowLamports}`
+      );
+    }
+  }
+
+  /**
+   * Read and parse a JSON request body
+   */
+  private async readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new SignerError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new SignerError(400, 'Request body must be JSON');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new SignerError(400, 'Request body must be a JSON object');
+    }
+    return body as Record<string, unknown>;
+  }
+
+  /**
+   * Send a JSON response
+   */
+  private reply(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body) + '\n');
+  }
+}
+
+async function main(): Promise<void> {
+  const settings = new SettingsReader();
+  const key = {
+    privateKey: settings.string('WALLET_PRIVATE_KEY'),
+    keystorePath: settings.string('WALLET_KEYSTORE'),
+    keystorePassphrase: settings.string('WALLET_KEYSTORE_PASSPHRASE'),
+    keystorePassphraseFile: settings.string('WALLET_KEYSTORE_PASSPHRASE_FILE'),
+  };
+  const token = settings.string('SIGNER_TOKEN');
+
+  logger.configure({
+    format: settings.choice<LogFormat>('LOG_FORMAT'),
+    filePath: null,
+    maxFileBytes: 0,
+    maxFiles: 0,
+    secrets: [key.privateKey, key.keystorePassphrase, token].filter((secret): secret is string => secret !== null),
+  });
+
+  if (!key.privateKey === !key.keystorePath) {
+    throw new Error('Set either WALLET_PRIVATE_KEY or WALLET_KEYSTORE for the signer');
+  }
+  if (!token || token.length < 16) {
+    throw new Error('SIGNER_TOKEN of at least 16 characters is required');
+  }
+
+  const allowedPrograms = settings.list('SIGNER_ALLOWED_PROGRAMS').map((address) => {
+    try {
+      return new PublicKey(address);
+    } catch {
+      throw new Error(`Invalid SIGNER_ALLOWED_PROGRAMS entry "${address}" - must be a valid Solana public key`);
+    }
+  });
+  const { programs } = readClusterConfig(settings);
+  const policy: SigningPolicy = {
+    allowedPrograms: allowedPrograms.length > 0 ? allowedPrograms : getDefaultAllowedPrograms(programs),
+    maxLamports: Math.round(settings.number('SIGNER_MAX_SOL') * LAMPORTS_PER_SOL),
+    maxWindowLamports: Math.round(settings.number('SIGNER_WINDOW_MAX_SOL') * LAMPORTS_PER_SOL),
+    windowMs: settings.number('SIGNER_WINDOW_HOURS') * 60 * 60 * 1000,
+    programs,
+  };
+  const address = parseListenAddress(settings.string('SIGNER_LISTEN')!);
+
+  const signer = new KeypairSigner(await loadWalletSecretKey(key));
+  const server = new SignerServer(signer, policy, token);
+  await server.start(address);
+  logger.info(
+    `Policy: ${policy.allowedPrograms.length} allowed programs, at most ` +
+      `${(policy.maxLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL per transaction and ` +
+      `${(policy.maxWindowLamports / LAMPORTS_PER_SOL).toFixed(6)} SOL per ${policy.windowMs / 3_600_000} hours`
+  );
+
+  const shutdown = async () => {
+    logger.info('Shutting down signer...');
+    await server.stop();
+    signer.dispose();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown());
+  process.on('SIGTERM', () => void shutdown());
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.error('Signer failed to start:', error.message || error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+/**
+ * Outcome of an operator action
+ * - ok: the action ran
+ * - rejected: the request was invalid or the bot was busy, nothing ran
+ * - failed: the action ran but did not succeed
+ * - unauthorized: the request did not carry a valid token
+ */
+export type AuditOutcome = 'ok' | 'rejected' | 'failed' | 'unauthorized';
+
+/**
+ * An operator action as stored in the audit log
+ */
+export interface AuditEntry {
+  time: string;
+  action: string;
+  // Where the request came from (e.g. the remote address of an API request)
+  source: string;
+  params?: Record<string, unknown>;
+  outcome: AuditOutcome;
+  detail?: string;
+}
+
+/**
+ * Append-only JSONL log of operator actions
+ */
+export class AuditLog {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Get the absolute path of the audit log file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Record an operator action; failures to write are logged but never thrown
+   */
+  async append(entry: Omit<AuditEntry, 'time'>): Promise<void> {
+    const record: AuditEntry = { time: new Date().toISOString(), ...entry };
+    logger.event(
+      'info',
+      'audit',
+      `Audit: ${record.action} from ${record.source} -> ${record.outcome}` +
+        (record.detail ? ` (${record.detail})` : ''),
+      { action: record.action, source: record.source, params: record.params, outcome: record.outcome }
+    );
+
+    try {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+    } catch (error: any) {
+      logger.error('Failed to write audit log:', error.message || error);
+    }
+  }
+}
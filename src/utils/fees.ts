@@ -0,0 +1,113 @@
+import { Connection, LAMPORTS_PER_SOL, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { BotConfig } from '../config';
+import { logger } from './logger';
+
+// The RPC accepts at most this many accounts in a prioritization fee query
+const MAX_FEE_ACCOUNTS = 128;
+
+/**
+ * Value at a percentile (0-100) of a list of numbers, using the nearest-rank method
+ */
+export function percentile(values: number[], pct: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((pct / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+/**
+ * Writable accounts of a set of instructions, the accounts whose write locks a priority fee competes for
+ */
+export function getWritableAccounts(instructions: TransactionInstruction[]): PublicKey[] {
+  const accounts = new Map<string, PublicKey>();
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable && !key.isSigner) {
+        accounts.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+  }
+  return [...accounts.values()];
+}
+
+/**
+ * Convert a priority fee price into the total SOL it costs for a number of compute units
+ */
+export function priorityFeeToSol(microLamports: number, computeUnits: number): number {
+  return (microLamports * computeUnits) / 1_000_000 / LAMPORTS_PER_SOL;
+}
+
+/**
+ * Estimates the compute unit price (in microlamports) to pay for a transaction
+ * In 'dynamic' mode the price is a percentile of the recent prioritization fees paid for
+ * write locks on the accounts the transaction touches, kept between a floor and a cap.
+ * Retries after a dropped transaction step the price up.
+ */
+export class PriorityFeeEstimator {
+  private connection: Connection;
+  private config: BotConfig;
+
+  constructor(connection: Connection, config: BotConfig) {
+    this.connection = connection;
+    this.config = config;
+  }
+
+  /**
+   * Get the compute unit price for an attempt at sending a transaction
+   * @param accounts - Writable accounts the transaction touches
+   * @param attempt - Attempt number, starting at 1; later attempts pay more
+   * @returns The price in microlamports per compute unit, 0 if priority fees are disabled
+   */
+  async estimate(accounts: PublicKey[], attempt = 1): Promise<number> {
+    if (!this.config.usePriorityFee) {
+      return 0;
+    }
+
+    const base =
+      this.config.priorityFeeMode === 'dynamic'
+        ? await this.getRecentFee(accounts)
+        : this.config.priorityFeeMicroLamports;
+
+    // A fixed fee above the cap is taken as configured; the cap only limits the step-up
+    const cap = Math.max(this.config.priorityFeeMaxMicroLamports, base);
+    const stepped = base * (1 + this.config.priorityFeeRetryStepPct / 100) ** (attempt - 1);
+    const fee = Math.round(Math.min(stepped, cap));
+
+    if (attempt > 1) {
+      logger.info(`Priority fee stepped up to ${fee} microlamports for attempt ${attempt}`);
+    } else {
+      logger.debug(`Priority fee: ${fee} microlamports`);
+    }
+    return fee;
+  }
+
+  /**
+   * Get the configured percentile of recent prioritization fees, clamped to the floor and cap
+   * Falls back to the fixed priority fee if the fees cannot be fetched
+   */
+  private async getRecentFee(accounts: PublicKey[]): Promise<number> {
+    let fee: number;
+    try {
+      const recent = await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: accounts.slice(0, MAX_FEE_ACCOUNTS),
+      });
+      fee = percentile(
+        recent.map((entry) => entry.prioritizationFee),
+        this.config.priorityFeePercentile
+      );
+      logger.debug(
+        `Recent prioritization fees over ${recent.length} slots, p${this.config.priorityFeePercentile}: ${fee} microlamports`
+      );
+    } catch (error: any) {
+      logger.warn('Could not fetch recent prioritization fees, using the fixed priority fee:', error.message || error);
+      fee = this.config.priorityFeeMicroLamports;
+    }
+
+    return Math.min(
+      Math.max(fee, this.config.priorityFeeMinMicroLamports),
+      this.config.priorityFeeMaxMicroLamports
+    );
+  }
+}
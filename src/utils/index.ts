@@ -4,3 +4,9 @@
 
 export * from './wallet';
 export * from './logger';
+export * from './ledger';
+export * from './sender';
+export * from './fees';
+export * from './submission';
+export * from './audit';
+export * from './process-lock';
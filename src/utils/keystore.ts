@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { promisify } from 'util';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { BotConfig } from '../config';
+
+const scrypt = promisify(crypto.scrypt) as (
+  passphrase: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keyLength: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// Version of the keystore file format
+const KEYSTORE_VERSION = 1;
+
+// scrypt cost of new keystores: N = 2^17, r = 8 uses 128 MiB and takes about a second
+const SCRYPT_N = 2 ** 17;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+
+// Most memory scrypt may use when reading a keystore (128 * N * r bytes), so a crafted file cannot exhaust it
+const SCRYPT_MAX_MEMORY = 2 ** 30;
+const SCRYPT_MAX_P = 16;
+
+// Shortest passphrase accepted for new keystores
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+/**
+ * Encrypted keystore file: the 64-byte secret key sealed with AES-256-GCM under a scrypt-derived key
+ * Binary fields are base64. The public key is stored in clear and authenticated with the ciphertext.
+ */
+export interface KeystoreFile {
+  version: number;
+  publicKey: string;
+  kdf: {
+    name: 'scrypt';
+    salt: string;
+    n: number;
+    r: number;
+    p: number;
+  };
+  cipher: {
+    name: 'aes-256-gcm';
+    iv: string;
+    tag: string;
+  };
+  ciphertext: string;
+}
+
+/**
+ * Where a keystore passphrase is read from; the prompt is used when neither is set
+ */
+export interface PassphraseSource {
+  passphrase?: string | null;
+  passphraseFile?: string | null;
+}
+
+/**
+ * Additional authenticated data binding the ciphertext to the stored public key
+ */
+function getAad(keystore: Pick<KeystoreFile, 'version' | 'publicKey'>): Buffer {
+  return Buffer.from(`solana-keystore:${keystore.version}:${keystore.publicKey}`, 'utf8');
+}
+
+/**
+ * Parse a secret key given as base58 or as a JSON byte array (e.g. a solana-keygen file)
+ * The caller owns the returned bytes and should clear them once they are no longer needed.
+ */
+export function parseSecretKey(text: string): Uint8Array {
+  const trimmed = text.trim();
+  let bytes: Uint8Array;
+  if (trimmed.startsWith('[')) {
+    let values: unknown;
+    try {
+      values = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Invalid private key format. Must be base58 encoded or JSON array.');
+    }
+    if (!Array.isArray(values) || values.some((value) => !Number.isInteger(value) || value < 0 || value > 255)) {
+      throw new Error('Invalid private key format. Must be base58 encoded or JSON array.');
+    }
+    bytes = Uint8Array.from(values);
+    values.fill(0);
+  } else {
+    try {
+      bytes = bs58.decode(trimmed);
+    } catch {
+      throw new Error('Invalid private key format. Must be base58 encoded or JSON array.');
+    }
+  }
+
+  if (bytes.length !== 64) {
+    bytes.fill(0);
+    throw new Error('Invalid private key: expected 64 bytes');
+  }
+  return bytes;
+}
+
+/**
+ * Encrypt a 64-byte secret key into a keystore
+ */
+export async function encryptSecretKey(secretKey: Uint8Array, passphrase: string): Promise<KeystoreFile> {
+  const publicKey = Keypair.fromSecretKey(secretKey).publicKey.toBase58();
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const key = await scrypt(passphrase.normalize('NFKC'), salt, 32, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    maxmem: 256 * SCRYPT_N * SCRYPT_R,
+  });
+
+  try {
+    const keystore: Omit<KeystoreFile, 'cipher' | 'ciphertext'> = {
+      version: KEYSTORE_VERSION,
+      publicKey,
+      kdf: { name: 'scrypt', salt: salt.toString('base64'), n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P },
+    };
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(getAad(keystore));
+    const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+    return {
+      ...keystore,
+      cipher: { name: 'aes-256-gcm', iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64') },
+      ciphertext: ciphertext.toString('base64'),
+    };
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Decrypt a keystore's secret key
+ * The caller owns the returned bytes and should clear them once they are no longer needed.
+ */
+export async function decryptKeystore(keystore: KeystoreFile, passphrase: string): Promise<Uint8Array> {
+  const { kdf } = keystore;
+  const key = await scrypt(passphrase.normalize('NFKC'), Buffer.from(kdf.salt, 'base64'), 32, {
+    N: kdf.n,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 256 * kdf.n * kdf.r,
+  });
+
+  let plaintext: Buffer;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.cipher.iv, 'base64'));
+    decipher.setAAD(getAad(keystore));
+    decipher.setAuthTag(Buffer.from(keystore.cipher.tag, 'base64'));
+    const head = decipher.update(Buffer.from(keystore.ciphertext, 'base64'));
+    try {
+      plaintext = Buffer.concat([head, decipher.final()]);
+    } finally {
+      head.fill(0);
+    }
+  } catch {
+    throw new Error('Cannot decrypt keystore - wrong passphrase or corrupted file');
+  } finally {
+    key.fill(0);
+  }
+
+  // Copied out of the Buffer, which may share memory with other data
+  const secretKey = new Uint8Array(plaintext);
+  plaintext.fill(0);
+  if (secretKey.length !== 64 || Keypair.fromSecretKey(secretKey).publicKey.toBase58() !== keystore.publicKey) {
+    secretKey.fill(0);
+    throw new Error('Keystore secret key does not match its public key');
+  }
+  return secretKey;
+}
+
+/**
+ * Read and check the structure of a keystore file
+ */
+export function readKeystore(filePath: string): KeystoreFile {
+  let keystore: KeystoreFile;
+  try {
+    keystore = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Cannot read keystore ${filePath}: ${error.message || error}`);
+  }
+
+  const isBase64 = (value: unknown) => typeof value === 'string' && /^[A-Za-z0-9+/]+={0,2}$/.test(value);
+  const kdf = keystore?.kdf;
+  const cipher = keystore?.cipher;
+  if (
+    keystore?.version !== KEYSTORE_VERSION ||
+    typeof keystore.publicKey !== 'string' ||
+    kdf?.name !== 'scrypt' ||
+    !isBase64(kdf.salt) ||
+    cipher?.name !== 'aes-256-gcm' ||
+    !isBase64(cipher.iv) ||
+    !isBase64(cipher.tag) ||
+    !isBase64(keystore.ciphertext)
+  ) {
+    throw new Error(`Invalid keystore ${filePath} - not a version ${KEYSTORE_VERSION} scrypt/AES-256-GCM keystore`);
+  }
+  if (
+    !Number.isInteger(Math.log2(kdf.n)) ||
+    kdf.n < 2 ** 10 ||
+    !(Number.isInteger(kdf.r) && kdf.r >= 1) ||
+    128 * kdf.n * kdf.r > SCRYPT_MAX_MEMORY ||
+    !(Number.isInteger(kdf.p) && kdf.p >= 1 && kdf.p <= SCRYPT_MAX_P)
+  ) {
+    throw new Error(`Invalid keystore ${filePath} - unsupported scrypt parameters`);
+  }
+  return keystore;
+}
+
+/**
+ * Write a keystore file readable by the owner only
+ * @param overwrite - Replace an existing file instead of failing
+ */
+export function writeKeystore(filePath: string, keystore: KeystoreFile, overwrite = false): void {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(keystore, null, 2) + '\n', {
+    mode: 0o600,
+    flag: overwrite ? 'w' : 'wx',
+  });
+}
+
+/**
+ * Ask for a secret on the terminal without echoing it
+ * The prompt goes to stderr so stdout stays clean for command output.
+ */
+export function promptSecret(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(new Error(`Cannot prompt for input: "${question.trim()}" needs an interactive terminal`));
+  }
+
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) {
+        process.stderr.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+  const prompt = readline.createInterface({ input: process.stdin, output, terminal: true });
+
+  return new Promise((resolve) => {
+    prompt.question(question, (answer) => {
+      prompt.close();
+      process.stderr.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Get a keystore passphrase from the configured value, a file, or else a terminal prompt
+ * @param confirm - Ask twice when prompting (for new keystores)
+ */
+export async function readPassphrase(source: PassphraseSource, question: string, confirm = false): Promise<string> {
+  if (source.passphrase) {
+    return source.passphrase;
+  }
+  if (source.passphraseFile) {
+    try {
+      // Editors and `echo` add a trailing newline that is not part of the passphrase
+      return fs.readFileSync(source.passphraseFile, 'utf8').replace(/\r?\n$/, '');
+    } catch (error: any) {
+      throw new Error(`Cannot read passphrase file ${source.passphraseFile}: ${error.message || error}`);
+    }
+  }
+
+  const passphrase = await promptSecret(question);
+  if (confirm && (await promptSecret('Repeat passphrase: ')) !== passphrase) {
+    throw new Error('Passphrases do not match');
+  }
+  return passphrase;
+}
+
+/**
+ * Load the wallet's secret key from the encrypted keystore, or from WALLET_PRIVATE_KEY when none is configured
+ * The caller owns the returned bytes.
+ */
+export async function loadWalletSecretKey(
+  config: Pick<BotConfig, 'privateKey' | 'keystorePath' | 'keystorePassphrase' | 'keystorePassphraseFile'>
+): Promise<Uint8Array> {
+  if (!config.keystorePath) {
+    return parseSecretKey(config.privateKey!);
+  }
+
+  const keystore = readKeystore(config.keystorePath);
+  const passphrase = await readPassphrase(
+    { passphrase: config.keystorePassphrase, passphraseFile: config.keystorePassphraseFile },
+    `Passphrase for keystore ${config.keystorePath} (${keystore.publicKey}): `
+  );
+  return decryptKeystore(keystore, passphrase);
+}
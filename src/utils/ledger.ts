@@ -0,0 +1,276 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+/**
+ * Outcome of a buyback cycle
+ */
+export type CycleStatus =
+  | 'skipped'
+  | 'no-fees'
+  | 'below-threshold'
+  | 'success'
+  | 'buy-failed'
+  | 'deferred'
+  | 'error';
+
+/**
+ * A claim share handled for a fee allocation rule, as stored in the ledger
+ */
+export interface AllocationRecord {
+  name: string;
+  // Destination address, or null if the share was kept in the wallet
+  destination: string | null;
+  lamports: number;
+  // Transfer signature, or null if kept in the wallet or the transfer failed
+  signature: string | null;
+  // Set when the share was owed from an earlier cycle rather than split from this cycle's claim
+  retry?: boolean;
+}
+
+/**
+ * Buy side of a cycle for one token, stored when several tokens are configured
+ */
+export interface TokenCycleRecord {
+  mint: string;
+  status: CycleStatus;
+  // Part of the cycle's buyback allocation attributed to the token
+  attributedLamports: number;
+  buySignatures: string[];
+  solSpentLamports: number;
+  tokensReceived: string | null;
+  tokensBurned?: string;
+  tokensLocked?: string;
+  postBuybackSignature?: string;
+  failureReason: string | null;
+  guardReason?: string;
+  // The token's pending buyback balance after this cycle
+  pendingLamports: number;
+  // Repurchased tokens still to be burned or moved after a failed attempt (raw units)
+  owedPostBuybackTokens?: string;
+}
+
+/**
+ * A single buyback cycle as stored in the ledger
+ */
+export interface CycleRecord {
+  // Identifier of the cycle, also attached to its log lines (missing on older records)
+  cycleId?: string;
+  startedAt: string;
+  finishedAt: string;
+  status: CycleStatus;
+  claimSignature: string | null;
+  // All claim signatures when both the bonding curve and PumpSwap vaults were claimed
+  claimSignatures?: string[];
+  claimedLamports: number;
+  // Set when fees were worth claiming but a claim transaction failed
+  claimFailed?: boolean;
+  buySignature: string | null;
+  // All buy signatures when the buyback was sliced (TWAP)
+  buySignatures?: string[];
+  solSpentLamports: number;
+  // Raw token units, stored as a string since they can exceed Number.MAX_SAFE_INTEGER
+  tokensReceived: string | null;
+  // Network fees paid by the cycle's transactions (missing on older records)
+  networkFeeLamports?: number;
+  failureReason: string | null;
+  // Fee allocation shares; the non-retry shares plus buybackAllocationLamports add up to claimedLamports
+  allocations?: AllocationRecord[];
+  buybackAllocationLamports?: number;
+  // Allocation shares still owed after failed transfers, by rule name
+  owedAllocations?: Record<string, number>;
+  // Why price guards resized or deferred buys in this cycle
+  guardReason?: string;
+  // Post-buyback burn or lock transfer of the repurchased tokens
+  postBuybackAction?: 'burn' | 'transfer';
+  postBuybackSignature?: string;
+  // Raw token units burned / moved to the lock address
+  tokensBurned?: string;
+  tokensLocked?: string;
+  // Claimed fees not yet spent on a buyback after this cycle
+  // (missing on records written before it was tracked)
+  pendingLamports?: number;
+  // Repurchased tokens still to be burned or moved after a failed attempt (raw units), with a single token
+  owedPostBuybackTokens?: string;
+  // Per-token results when several tokens are configured; token amounts above are then left empty
+  tokens?: TokenCycleRecord[];
+  // Set for dry-run cycles whose transactions were only simulated
+  simulated?: boolean;
+  // Set for operator-triggered records: 'buyback' for a manual buy, 'claim' for a forced claim
+  manual?: 'buyback' | 'claim';
+}
+
+/**
+ * Totals of one token rebuilt from the ledger
+ */
+export interface MintTotals {
+  attributedLamports: number;
+  spentLamports: number;
+  tokensReceived: bigint;
+  tokensBurned: bigint;
+  tokensLocked: bigint;
+}
+
+/**
+ * Totals rebuilt from the ledger
+ */
+export interface LedgerTotals {
+  cycles: number;
+  totalClaimedLamports: number;
+  totalSpentLamports: number;
+  totalNetworkFeeLamports: number;
+  // Claim shares assigned to each allocation rule, by rule name
+  allocatedLamports: Record<string, number>;
+  // Allocation shares actually transferred (including retries)
+  totalTransferredLamports: number;
+  totalTokensReceived: bigint;
+  totalTokensBurned: bigint;
+  totalTokensLocked: bigint;
+  totalBuybacks: number;
+  successfulBuybacks: number;
+  failedBuybacks: number;
+  // Per-token totals from multi-token records, by mint
+  byMint: Record<string, MintTotals>;
+}
+
+/**
+ * Append-only JSONL ledger of buyback cycles
+ * One record per line, so a crash mid-write can only damage the last line
+ */
+export class CycleLedger {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Get the absolute path of the ledger file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append a cycle record to the ledger
+   */
+  async append(record: CycleRecord): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+  }
+
+  /**
+   * Read all cycle records, oldest first
+   */
+  async readAll(): Promise<CycleRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: CycleRecord[] = [];
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line) as CycleRecord);
+      } catch {
+        logger.warn(`Skipping malformed ledger line ${i + 1} in ${this.filePath}`);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Get cycle records started within a date range (both bounds inclusive and optional)
+   */
+  async query(from?: Date, to?: Date): Promise<CycleRecord[]> {
+    const records = await this.readAll();
+    return records.filter((record) => {
+      const startedAt = new Date(record.startedAt).getTime();
+      if (from && startedAt < from.getTime()) {
+        return false;
+      }
+      if (to && startedAt > to.getTime()) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Compute totals over a set of cycle records
+   */
+  static summarize(records: CycleRecord[]): LedgerTotals {
+    const totals: LedgerTotals = {
+      cycles: records.length,
+      totalClaimedLamports: 0,
+      totalSpentLamports: 0,
+      totalNetworkFeeLamports: 0,
+      allocatedLamports: {},
+      totalTransferredLamports: 0,
+      totalTokensReceived: 0n,
+      totalTokensBurned: 0n,
+      totalTokensLocked: 0n,
+      totalBuybacks: 0,
+      successfulBuybacks: 0,
+      failedBuybacks: 0,
+      byMint: {},
+    };
+
+    for (const record of records) {
+      totals.totalClaimedLamports += record.claimedLamports;
+      totals.totalSpentLamports += record.solSpentLamports;
+      totals.totalNetworkFeeLamports += record.networkFeeLamports ?? 0;
+      for (const allocation of record.allocations ?? []) {
+        if (!allocation.retry) {
+          totals.allocatedLamports[allocation.name] =
+            (totals.allocatedLamports[allocation.name] ?? 0) + allocation.lamports;
+        }
+        if (allocation.destination && allocation.signature) {
+          totals.totalTransferredLamports += allocation.lamports;
+        }
+      }
+      if (record.tokensReceived) {
+        totals.totalTokensReceived += BigInt(record.tokensReceived);
+      }
+      if (record.tokensBurned) {
+        totals.totalTokensBurned += BigInt(record.tokensBurned);
+      }
+      if (record.tokensLocked) {
+        totals.totalTokensLocked += BigInt(record.tokensLocked);
+      }
+      for (const token of record.tokens ?? []) {
+        const mintTotals = (totals.byMint[token.mint] ??= {
+          attributedLamports: 0,
+          spentLamports: 0,
+          tokensReceived: 0n,
+          tokensBurned: 0n,
+          tokensLocked: 0n,
+        });
+        mintTotals.attributedLamports += token.attributedLamports;
+        mintTotals.spentLamports += token.solSpentLamports;
+        mintTotals.tokensReceived += BigInt(token.tokensReceived ?? 0);
+        mintTotals.tokensBurned += BigInt(token.tokensBurned ?? 0);
+        mintTotals.tokensLocked += BigInt(token.tokensLocked ?? 0);
+      }
+      if (record.status === 'success') {
+        totals.totalBuybacks++;
+        totals.successfulBuybacks++;
+      } else if (record.status === 'buy-failed' || record.status === 'error') {
+        totals.totalBuybacks++;
+        totals.failedBuybacks++;
+      }
+    }
+
+    return totals;
+  }
+}
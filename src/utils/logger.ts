@@ -1,8 +1,18 @@
 /**
  * Simple logger utility for the buyback bot
- * Provides colored console output with timestamps
+ * Provides colored console output with timestamps, or JSON lines with structured fields,
+ * optionally mirrored to a size-rotated log file. Anything that looks like key material is redacted.
  */
 
+import fs from 'fs';
+import path from 'path';
+import util from 'util';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { LogFormat } from '../config';
+import { CLUSTER_DEFAULTS, formatExplorerTxUrl } from '../cluster';
+
 // ANSI color codes for terminal output
 const colors = {
   reset: '\x1b[0m',
@@ -15,6 +25,132 @@ const colors = {
   white: '\x1b[37m',
 };
 
+/**
+ * Log levels
+ */
+export type LogLevel = 'info' | 'success' | 'warn' | 'error' | 'debug' | 'tx';
+
+/**
+ * Structured fields attached to a log line (e.g. signature, lamports, mint)
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger settings, applied once the configuration is loaded
+ */
+export interface LoggerOptions {
+  format: LogFormat;
+  // File log lines are also appended to, or null for console only
+  filePath: string | null;
+  // Size at which the log file is rotated (in bytes)
+  maxFileBytes: number;
+  // Rotated files kept next to the log file (`<file>.1` is the most recent)
+  maxFiles: number;
+  // Secret values (private key, API tokens, webhook URLs) replaced wherever they appear
+  secrets: string[];
+  // Explorer link of a transaction, with `{signature}` standing for its signature (mainnet Solscan if unset)
+  explorerTxUrl?: string;
+}
+
+/**
+ * Context attached to every line logged while it is active
+ */
+interface LogContext {
+  cycleId?: string;
+}
+
+const levelStyles: Record<LogLevel, { color: string; label: string }> = {
+  info: { color: colors.blue, label: 'INFO' },
+  success: { color: colors.green, label: 'SUCCESS' },
+  warn: { color: colors.yellow, label: 'WARN' },
+  error: { color: colors.red, label: 'ERROR' },
+  debug: { color: colors.magenta, label: 'DEBUG' },
+  tx: { color: colors.cyan, label: 'TX' },
+};
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are always redacted (compared without '-' and '_')
+const SENSITIVE_FIELD = /(privatekey|secretkey|secret|passphrase|password|mnemonic|apikey|authorization|token)$/i;
+
+// Secret keys written out as a JSON or inspected byte array of 64 numbers
+const KEY_ARRAY_PATTERN = /\[\s*\d{1,3}(\s*,\s*\d{1,3}){63}\s*,?\s*\]/g;
+
+// Base58 strings as long as a 64-byte secret key; transaction signatures look the same, see isSecretKey
+const BASE58_KEY_PATTERN = /\b[1-9A-HJ-NP-Za-km-z]{86,88}\b/g;
+
+// Telegram bot tokens, including inside Bot API URLs
+const BOT_TOKEN_PATTERN = /\d{6,12}:[A-Za-z0-9_-]{30,}/g;
+
+// API keys and tokens passed as URL query parameters (e.g. RPC endpoints)
+const QUERY_SECRET_PATTERN = /([?&](?:api[-_]?key|access[-_]?token|token|secret|key)=)[^&\s"']+/gi;
+
+const context = new AsyncLocalStorage<LogContext>();
+
+let format: LogFormat = 'text';
+let secrets: string[] = [];
+let logFile: RotatingFile | null = null;
+let allToStderr = false;
+let explorerTxUrl = CLUSTER_DEFAULTS.mainnet.explorerTxUrl;
+
+/**
+ * Log file that is rotated once it reaches its maximum size
+ */
+class RotatingFile {
+  private filePath: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private size: number;
+  private failed = false;
+
+  constructor(filePath: string, maxBytes: number, maxFiles: number) {
+    this.filePath = path.resolve(filePath);
+    this.maxBytes = maxBytes;
+    this.maxFiles = maxFiles;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+  }
+
+  /**
+   * Append a line, rotating the file first if it would grow past its maximum size
+   * Write failures are reported once on stderr and never thrown
+   */
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line) + 1;
+    try {
+      if (this.size > 0 && this.size + bytes > this.maxBytes) {
+        this.rotate();
+      }
+      fs.appendFileSync(this.filePath, line + '\n', 'utf8');
+      this.size += bytes;
+      this.failed = false;
+    } catch (error: any) {
+      if (!this.failed) {
+        this.failed = true;
+        process.stderr.write(`Failed to write log file ${this.filePath}: ${error.message || error}\n`);
+      }
+    }
+  }
+
+  /**
+   * Shift `<file>.N` to `<file>.N+1`, dropping the oldest, and start a new file
+   */
+  private rotate(): void {
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = `${this.filePath}.${i}`;
+      if (fs.existsSync(from)) {
+        fs.renameSync(from, `${this.filePath}.${i + 1}`);
+      }
+    }
+    if (this.maxFiles > 0) {
+      fs.renameSync(this.filePath, `${this.filePath}.1`);
+    } else {
+      fs.unlinkSync(this.filePath);
+    }
+    this.size = 0;
+  }
+}
+
 /**
  * Get current timestamp in ISO format
  */
@@ -22,87 +158,204 @@ function getTimestamp(): string {
   return new Date().toISOString();
 }
 
+/**
+ * Replace registered secrets and anything that looks like key material
+ */
+function redact(text: string): string {
+  let result = text;
+  for (const secret of secrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result
+    .replace(KEY_ARRAY_PATTERN, REDACTED)
+    .replace(BASE58_KEY_PATTERN, (match) => (isSecretKey(match) ? REDACTED : match))
+    .replace(BOT_TOKEN_PATTERN, REDACTED)
+    .replace(QUERY_SECRET_PATTERN, `$1${REDACTED}`);
+}
+
+/**
+ * Check whether a base58 string is an ed25519 secret key: 64 bytes whose second half is the public key
+ * of the first, which a transaction signature of the same size never is
+ */
+function isSecretKey(candidate: string): boolean {
+  try {
+    const bytes = bs58.decode(candidate);
+    if (bytes.length !== 64) {
+      return false;
+    }
+    // Throws unless the second half is the public key of the first
+    Keypair.fromSecretKey(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Join a message and its arguments the way console.log would
+ */
+function formatMessage(message: string, args: unknown[]): string {
+  return [message, ...args.map((arg) => (typeof arg === 'string' ? arg : util.inspect(arg)))].join(' ');
+}
+
+/**
+ * Serialize a JSON log line; bigints become strings and sensitive fields are redacted
+ */
+function toJsonLine(entry: Record<string, unknown>): string {
+  return JSON.stringify(entry, (key, value) => {
+    if (key && SENSITIVE_FIELD.test(key.replace(/[-_]/g, '')) && value !== null && value !== undefined) {
+      return REDACTED;
+    }
+    return typeof value === 'bigint' ? value.toString() : value;
+  });
+}
+
+/**
+ * Write a line to the console stream of its level and to the log file
+ * Warnings and errors go to stderr, everything else to stdout unless moved with `logger.useStderr()`
+ * @param fileLine - Line written to the log file, if different from the console line (e.g. without colors)
+ */
+function emit(level: LogLevel | null, consoleLine: string, fileLine = consoleLine): void {
+  const stream = allToStderr || level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  stream.write(consoleLine + '\n');
+  logFile?.write(fileLine);
+}
+
+/**
+ * Log a line at a level, with optional event type and structured fields
+ */
+function log(level: LogLevel, message: string, args: unknown[], event?: string, fields?: LogFields): void {
+  if (level === 'debug' && process.env.DEBUG !== 'true') {
+    return;
+  }
+  const timestamp = getTimestamp();
+  const cycleId = context.getStore()?.cycleId;
+
+  if (format === 'json') {
+    const error = args.find((arg): arg is Error => arg instanceof Error);
+    const line = redact(
+      toJsonLine({
+        time: timestamp,
+        level,
+        // Redacted before serializing too, since escaping hides multi-line key arrays
+        msg: redact(formatMessage(message, args.map((arg) => (arg instanceof Error ? arg.message : arg)))),
+        cycleId,
+        event,
+        ...fields,
+        error: error ? { name: error.name, message: error.message, stack: error.stack } : undefined,
+      })
+    );
+    emit(level, line);
+    return;
+  }
+
+  const { color, label } = levelStyles[level];
+  const prefix = `[${timestamp}] [${label}]${cycleId ? ` [cycle ${cycleId}]` : ''}`;
+  const text = redact(formatMessage(message, args));
+  emit(level, `${color}${prefix}${colors.reset} ${text}`, `${prefix} ${text}`);
+}
+
 /**
  * Logger class with different log levels
  */
 export const logger = {
+  /**
+   * Apply the configured format, log file and secrets
+   */
+  configure: (options: LoggerOptions): void => {
+    format = options.format;
+    secrets = options.secrets.filter((secret) => secret.length >= 8);
+    logFile = options.filePath ? new RotatingFile(options.filePath, options.maxFileBytes, options.maxFiles) : null;
+    explorerTxUrl = options.explorerTxUrl ?? CLUSTER_DEFAULTS.mainnet.explorerTxUrl;
+  },
+
+  /**
+   * Write all log lines to stderr, keeping stdout for command output (e.g. CLI --json)
+   */
+  useStderr: (): void => {
+    allToStderr = true;
+  },
+
+  /**
+   * Run a function with context (e.g. the cycle id) attached to every line it logs, across awaits
+   */
+  runWithContext: <T>(values: LogContext, fn: () => T): T => {
+    return context.run({ ...context.getStore(), ...values }, fn);
+  },
+
   /**
    * Log informational messages (blue)
    */
   info: (message: string, ...args: unknown[]): void => {
-    console.log(
-      `${colors.blue}[${getTimestamp()}] [INFO]${colors.reset} ${message}`,
-      ...args
-    );
+    log('info', message, args);
   },
 
   /**
    * Log success messages (green)
    */
   success: (message: string, ...args: unknown[]): void => {
-    console.log(
-      `${colors.green}[${getTimestamp()}] [SUCCESS]${colors.reset} ${message}`,
-      ...args
-    );
+    log('success', message, args);
   },
 
   /**
    * Log warning messages (yellow)
    */
   warn: (message: string, ...args: unknown[]): void => {
-    console.log(
-      `${colors.yellow}[${getTimestamp()}] [WARN]${colors.reset} ${message}`,
-      ...args
-    );
+    log('warn', message, args);
   },
 
   /**
    * Log error messages (red)
    */
   error: (message: string, ...args: unknown[]): void => {
-    console.log(
-      `${colors.red}[${getTimestamp()}] [ERROR]${colors.reset} ${message}`,
-      ...args
-    );
+    log('error', message, args);
   },
 
   /**
    * Log debug messages (magenta) - only shown if DEBUG env var is set
    */
   debug: (message: string, ...args: unknown[]): void => {
-    if (process.env.DEBUG === 'true') {
-      console.log(
-        `${colors.magenta}[${getTimestamp()}] [DEBUG]${colors.reset} ${message}`,
-        ...args
-      );
-    }
+    log('debug', message, args);
+  },
+
+  /**
+   * Log an event with structured fields (e.g. a confirmed claim or buy)
+   * Text output shows the message only; JSON output adds the event type and fields
+   */
+  event: (level: LogLevel, event: string, message: string, fields: LogFields = {}): void => {
+    log(level, message, [], event, fields);
   },
 
   /**
    * Log transaction-related messages (cyan)
    */
-  tx: (message: string, signature?: string): void => {
-    const txLink = signature
-      ? `https://solscan.io/tx/${signature}`
-      : '';
-    console.log(
-      `${colors.cyan}[${getTimestamp()}] [TX]${colors.reset} ${message}`,
-      txLink ? `\n    ${txLink}` : ''
-    );
+  tx: (message: string, signature?: string, fields: LogFields = {}): void => {
+    const txLink = signature ? formatExplorerTxUrl(explorerTxUrl, signature) : '';
+    if (format === 'json') {
+      log('tx', message, [], 'tx', { signature, ...fields });
+      return;
+    }
+    log('tx', message, txLink ? [`\n    ${txLink}`] : []);
   },
 
   /**
-   * Log a separator line for visual clarity
+   * Log a separator line for visual clarity (text format only)
    */
   separator: (): void => {
-    console.log(`${colors.white}${'='.repeat(60)}${colors.reset}`);
+    if (format === 'text') {
+      emit(null, `${colors.white}${'='.repeat(60)}${colors.reset}`, '='.repeat(60));
+    }
   },
 
   /**
-   * Log bot startup banner
+   * Log bot startup banner (console in text format only)
    */
   banner: (): void => {
-    console.log(`
+    if (format !== 'text') {
+      return;
+    }
+    const stream = allToStderr ? process.stderr : process.stdout;
+    stream.write(`
 ${colors.cyan}
 ╔═══════════════════════════════════════════════════════════╗
 ║                                                           ║
@@ -116,6 +369,6 @@ ${colors.cyan}
 ║           Pump.fun Automatic Buyback Bot                  ║
 ║                                                           ║
 ╚═══════════════════════════════════════════════════════════╝
-${colors.reset}`);
+${colors.reset}\n`);
   },
 };
@@ -0,0 +1,509 @@
+import crypto from 'crypto';
+import {
+  AccountMeta,
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { logger } from './logger';
+import type { Signer, SignRequest } from './signer';
+import type { SubmissionAction } from './submission';
+
+// How often a proposal's status is read while waiting for its approval (in milliseconds)
+const PROPOSAL_POLL_INTERVAL_MS = 10_000;
+
+// Prefix of every Squads PDA seed
+const SEED_PREFIX = Buffer.from('multisig');
+
+// Member permission bits; the bot's key needs all three
+const PERMISSION_INITIATE = 1;
+const PERMISSION_VOTE = 2;
+const PERMISSION_EXECUTE = 4;
+
+/**
+ * Status of a Squads proposal, in the order of the on-chain enum
+ */
+type ProposalStatus = 'draft' | 'active' | 'rejected' | 'approved' | 'executing' | 'executed' | 'cancelled';
+const PROPOSAL_STATUSES: ProposalStatus[] = [
+  'draft',
+  'active',
+  'rejected',
+  'approved',
+  'executing',
+  'executed',
+  'cancelled',
+];
+
+/**
+ * Settings of the multisig signer
+ */
+export interface MultisigOptions {
+  // Squads (v4) program the multisig belongs to
+  programId: PublicKey;
+  // Multisig account; its vault at `vaultIndex` is the wallet
+  multisig: PublicKey;
+  vaultIndex: number;
+  // How long to wait for a proposal to be approved (in milliseconds)
+  approvalTimeoutMs: number;
+}
+
+/**
+ * Fields of the multisig account used by the signer
+ */
+interface MultisigAccount {
+  threshold: number;
+  // Delay between approval and execution (in seconds)
+  timeLock: number;
+  // Index of the last transaction created
+  transactionIndex: bigint;
+  members: { key: PublicKey; permissions: number }[];
+}
+
+/**
+ * A proposal created by the signer, with the accounts its execution passes to the program
+ */
+interface Proposal {
+  index: bigint;
+  action: SubmissionAction;
+  accounts: AccountMeta[];
+}
+
+// Proposal statuses from which the proposal can still be approved or executed
+const OPEN_STATUSES: ProposalStatus[] = ['draft', 'active', 'approved'];
+
+/**
+ * Anchor discriminator of a Squads instruction
+ */
+function getDiscriminator(name: string): Buffer {
+  return crypto.createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+}
+
+/**
+ * Encode an unsigned 64-bit integer (little endian)
+ */
+function encodeU64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+/**
+ * Encode bytes with a u32 length prefix (Borsh `Vec<u8>` / `String`)
+ */
+function encodeBytes(bytes: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+/**
+ * Read the fields of a multisig account used by the signer
+ */
+function decodeMultisig(data: Buffer): MultisigAccount {
+  // Discriminator, create key and config authority
+  let offset = 8 + 32 + 32;
+  const threshold = data.readUInt16LE(offset);
+  const timeLock = data.readUInt32LE(offset + 2);
+  const transactionIndex = data.readBigUInt64LE(offset + 6);
+  // Stale transaction index, optional rent collector and bump
+  offset += 2 + 4 + 8 + 8;
+  offset += data[offset] === 1 ? 33 : 1;
+  offset += 1;
+
+  const members: MultisigAccount['members'] = [];
+  const count = data.readUInt32LE(offset);
+  offset += 4;
+  for (let i = 0; i < count; i++, offset += 33) {
+    members.push({ key: new PublicKey(data.subarray(offset, offset + 32)), permissions: data[offset + 32] });
+  }
+  return { threshold, timeLock, transactionIndex, members };
+}
+
+/**
+ * Compile instructions into a Squads vault transaction message paid by the vault
+ * Account keys are ordered signers first (only the vault), then writable and read-only accounts.
+ * Lengths are u8-prefixed except instruction data (u16); no address lookup tables are used.
+ * @returns The message and the accounts its execution passes, in message order
+ */
+export function compileVaultMessage(
+  vault: PublicKey,
+  instructions: TransactionInstruction[]
+): { message: Buffer; accounts: AccountMeta[] } {
+  const metas = new Map<string, AccountMeta>();
+  const add = (pubkey: PublicKey, isSigner: boolean, isWritable: boolean) => {
+    const existing = metas.get(pubkey.toBase58());
+    if (existing) {
+      existing.isSigner ||= isSigner;
+      existing.isWritable ||= isWritable;
+    } else {
+      metas.set(pubkey.toBase58(), { pubkey, isSigner, isWritable });
+    }
+  };
+  add(vault, true, true);
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      add(key.pubkey, key.isSigner, key.isWritable);
+    }
+    add(instruction.programId, false, false);
+  }
+
+  const otherSigners = [...metas.values()].filter((meta) => meta.isSigner && !meta.pubkey.equals(vault));
+  if (otherSigners.length > 0) {
+    throw new Error(
+      `Vault transactions cannot be signed by other accounts (${otherSigners.map((meta) => meta.pubkey.toBase58()).join(', ')})`
+    );
+  }
+  if (metas.size > 255 || instructions.length > 255) {
+    throw new Error('Transaction is too large for a vault transaction');
+  }
+
+  // The sort is stable, so the vault stays first as the payer
+  const rank = (meta: AccountMeta) => (meta.isSigner ? 0 : meta.isWritable ? 1 : 2);
+  const accounts = [...metas.values()].sort((a, b) => rank(a) - rank(b));
+  const indexes = new Map(accounts.map((meta, index) => [meta.pubkey.toBase58(), index]));
+
+  const writableNonSigners = accounts.filter((meta) => !meta.isSigner && meta.isWritable).length;
+  const parts: Buffer[] = [
+    Buffer.from([1, 1, writableNonSigners, accounts.length]),
+    ...accounts.map((meta) => meta.pubkey.toBuffer()),
+    Buffer.from([instructions.length]),
+  ];
+  for (const instruction of instructions) {
+    const dataLength = Buffer.alloc(2);
+    dataLength.writeUInt16LE(instruction.data.length);
+    parts.push(
+      Buffer.from([
+        indexes.get(instruction.programId.toBase58())!,
+        instruction.keys.length,
+        ...instruction.keys.map((key) => indexes.get(key.pubkey.toBase58())!),
+      ]),
+      dataLength,
+      instruction.data
+    );
+  }
+  parts.push(Buffer.from([0]));
+
+  // The vault signs through the program, so no account is passed as a signer
+  return { message: Buffer.concat(parts), accounts: accounts.map((meta) => ({ ...meta, isSigner: false })) };
+}
+
+/**
+ * Signs as a Squads (v4) multisig vault by proposing each transaction to the multisig
+ * The bot's key is a member that creates the proposal and approves it; once the other members
+ * have approved it (and any time lock has passed) the transaction executing it is returned for
+ * broadcast. A transaction signed again after its execution expired reuses the same proposal.
+ * While a proposal is open, no other transaction of the same action is proposed: a retried claim or
+ * buy built from a fresh quote would otherwise become a second proposal that could also execute.
+ */
+export class MultisigSigner implements Signer {
+  readonly kind = 'multisig' as const;
+  private connection: Connection;
+  private member: Signer;
+  private options: MultisigOptions;
+  private vault: PublicKey;
+  // Proposals created by this process, keyed by a hash of their vault transaction message
+  private proposals = new Map<string, Proposal>();
+
+  private constructor(connection: Connection, member: Signer, options: MultisigOptions) {
+    this.connection = connection;
+    this.member = member;
+    this.options = options;
+    this.vault = PublicKey.findProgramAddressSync(
+      [SEED_PREFIX, options.multisig.toBuffer(), Buffer.from('vault'), Buffer.from([options.vaultIndex])],
+      options.programId
+    )[0];
+  }
+
+  /**
+   * Read the multisig and check the member may propose, approve and execute
+   */
+  static async connect(connection: Connection, member: Signer, options: MultisigOptions): Promise<MultisigSigner> {
+    const signer = new MultisigSigner(connection, member, options);
+    const account = await signer.readMultisig();
+
+    const required = PERMISSION_INITIATE | PERMISSION_VOTE | PERMISSION_EXECUTE;
+    const entry = account.members.find((candidate) => candidate.key.equals(member.getPublicKey()));
+    if (!entry || (entry.permissions & required) !== required) {
+      throw new Error(
+        `Wallet ${member.getPublicKey().toBase58()} must be a member of multisig ${options.multisig.toBase58()} ` +
+          'with initiate, vote and execute permissions'
+      );
+    }
+
+    logger.info(
+      `Multisig ${options.multisig.toBase58()} (threshold ${account.threshold} of ${account.members.length}), ` +
+        `vault ${signer.vault.toBase58()}, proposals by ${member.getPublicKey().toBase58()}`
+    );
+    return signer;
+  }
+
+  getPublicKey(): PublicKey {
+    return this.vault;
+  }
+
+  async signTransaction(serialized: Uint8Array, request: SignRequest): Promise<Buffer> {
+    if (request.simulate) {
+      // A proposal needs approval before anything is signed, so simulations run unsigned
+      return Buffer.from(serialized);
+    }
+
+    const { instructions, computeBudget } = await this.decompile(serialized);
+    const { message, accounts } = compileVaultMessage(this.vault, instructions);
+    const key = crypto.createHash('sha256').update(message).digest('hex');
+
+    let proposal = this.proposals.get(key);
+    const status = proposal ? await this.getProposalStatus(proposal.index) : null;
+    if (proposal && status && OPEN_STATUSES.includes(status.status)) {
+      logger.info(`Waiting on multisig proposal #${proposal.index} created earlier for this ${request.action}`);
+    } else {
+      await this.checkNoOpenProposal(request.action);
+      proposal = { index: await this.propose(message, request.action), action: request.action, accounts };
+      this.proposals.set(key, proposal);
+    }
+
+    await this.waitForApproval(proposal.index);
+    return this.buildExecuteTransaction(proposal, computeBudget);
+  }
+
+  dispose(): void {
+    this.member.dispose();
+  }
+
+  /**
+   * Make sure no earlier proposal of an action can still be approved or executed, forgetting closed ones
+   * @throws Error naming the open proposal, which must be executed, rejected or cancelled first
+   */
+  private async checkNoOpenProposal(action: SubmissionAction): Promise<void> {
+    for (const [key, proposal] of this.proposals) {
+      if (proposal.action !== action) {
+        continue;
+      }
+      const status = await this.getProposalStatus(proposal.index);
+      if (status && OPEN_STATUSES.includes(status.status)) {
+        throw new Error(
+          `Multisig proposal #${proposal.index} for an earlier ${action} is still ${status.status}; ` +
+            `execute, reject or cancel it before another ${action} is proposed`
+        );
+      }
+      this.proposals.delete(key);
+    }
+  }
+
+  /**
+   * Read the instructions of a transaction paid by the vault
+   * Compute budget instructions cannot run inside the vault transaction, so they are returned
+   * separately and moved to the transaction executing it.
+   */
+  private async decompile(
+    serialized: Uint8Array
+  ): Promise<{ instructions: TransactionInstruction[]; computeBudget: TransactionInstruction[] }> {
+    const { message } = VersionedTransaction.deserialize(serialized);
+    const lookupTables: AddressLookupTableAccount[] = [];
+    for (const lookup of message.addressTableLookups) {
+      const table = (await this.connection.getAddressLookupTable(lookup.accountKey)).value;
+      if (!table) {
+        throw new Error(`Address lookup table ${lookup.accountKey.toBase58()} not found`);
+      }
+      lookupTables.push(table);
+    }
+
+    const decompiled = TransactionMessage.decompile(message, { addressLookupTableAccounts: lookupTables });
+    if (!decompiled.payerKey.equals(this.vault)) {
+      throw new Error(`Transaction is paid by ${decompiled.payerKey.toBase58()}, not the multisig vault`);
+    }
+    const isBudget = (instruction: TransactionInstruction) => instruction.programId.equals(ComputeBudgetProgram.programId);
+    return {
+      instructions: decompiled.instructions.filter((instruction) => !isBudget(instruction)),
+      computeBudget: decompiled.instructions.filter(isBudget),
+    };
+  }
+
+  /**
+   * Create a vault transaction and a proposal for it, and approve it as the member
+   * @returns Index of the new transaction
+   */
+  private async propose(message: Buffer, action: SubmissionAction): Promise<bigint> {
+    const index = (await this.readMultisig()).transactionIndex + 1n;
+    const member = this.member.getPublicKey();
+
+    // The message can take most of a transaction, so the proposal is created separately
+    await this.sendMemberTransaction(
+      [
+        this.instruction(
+          'vault_transaction_create',
+          [
+            { pubkey: this.options.multisig, isSigner: false, isWritable: true },
+            { pubkey: this.getTransactionPda(index), isSigner: false, isWritable: true },
+            { pubkey: member, isSigner: true, isWritable: false },
+            { pubkey: member, isSigner: true, isWritable: true },
+            { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+          ],
+          Buffer.concat([
+            // Vault index, no ephemeral signers, the message and a memo for the approvers
+            Buffer.from([this.options.vaultIndex, 0]),
+            encodeBytes(message),
+            Buffer.from([1]),
+            encodeBytes(Buffer.from(`Buyback bot ${action}`, 'utf8')),
+          ])
+        ),
+      ],
+      action
+    );
+    await this.sendMemberTransaction(
+      [
+        this.instruction(
+          'proposal_create',
+          [
+            { pubkey: this.options.multisig, isSigner: false, isWritable: false },
+            { pubkey: this.getProposalPda(index), isSigner: false, isWritable: true },
+            { pubkey: member, isSigner: true, isWritable: false },
+            { pubkey: member, isSigner: true, isWritable: true },
+            { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+          ],
+          // Transaction index, not a draft
+          Buffer.concat([encodeU64(index), Buffer.from([0])])
+        ),
+        this.instruction(
+          'proposal_approve',
+          [
+            { pubkey: this.options.multisig, isSigner: false, isWritable: false },
+            { pubkey: member, isSigner: true, isWritable: true },
+            { pubkey: this.getProposalPda(index), isSigner: false, isWritable: true },
+          ],
+          // No memo
+          Buffer.from([0])
+        ),
+      ],
+      action
+    );
+
+    logger.info(`Created multisig proposal #${index} for a ${action}, waiting for approvals`);
+    return index;
+  }
+
+  /**
+   * Wait until a proposal is approved and its time lock has passed
+   */
+  private async waitForApproval(index: bigint): Promise<void> {
+    const deadline = Date.now() + this.options.approvalTimeoutMs;
+    for (;;) {
+      const proposal = await this.getProposalStatus(index);
+      if (proposal?.status === 'approved') {
+        const { timeLock } = await this.readMultisig();
+        if (Date.now() >= (proposal.timestamp + timeLock) * 1000) {
+          return;
+        }
+      } else if (proposal && ['rejected', 'cancelled', 'executing', 'executed'].includes(proposal.status)) {
+        throw new Error(`Multisig proposal #${index} was ${proposal.status} outside the bot`);
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Multisig proposal #${index} was not executable within ${Math.round(this.options.approvalTimeoutMs / 60_000)} minutes`
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, PROPOSAL_POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Build and sign the member's transaction executing an approved proposal
+   */
+  private async buildExecuteTransaction(proposal: Proposal, computeBudget: TransactionInstruction[]): Promise<Buffer> {
+    const member = this.member.getPublicKey();
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    const transaction = new Transaction({ feePayer: member, blockhash, lastValidBlockHeight }).add(
+      ...computeBudget,
+      this.instruction('vault_transaction_execute', [
+        { pubkey: this.options.multisig, isSigner: false, isWritable: false },
+        { pubkey: this.getProposalPda(proposal.index), isSigner: false, isWritable: true },
+        { pubkey: this.getTransactionPda(proposal.index), isSigner: false, isWritable: false },
+        { pubkey: member, isSigner: true, isWritable: false },
+        ...proposal.accounts,
+      ])
+    );
+
+    return this.member.signTransaction(transaction.serialize({ requireAllSignatures: false }), {
+      action: 'other',
+      simulate: false,
+    });
+  }
+
+  /**
+   * Sign a transaction as the member and wait for it to be confirmed
+   */
+  private async sendMemberTransaction(instructions: TransactionInstruction[], action: SubmissionAction): Promise<void> {
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
+    const transaction = new Transaction({ feePayer: this.member.getPublicKey(), blockhash, lastValidBlockHeight }).add(
+      ...instructions
+    );
+    const signed = await this.member.signTransaction(transaction.serialize({ requireAllSignatures: false }), {
+      action,
+      simulate: false,
+    });
+
+    const signature = await this.connection.sendRawTransaction(signed, { preflightCommitment: 'confirmed' });
+    const { value } = await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (value.err) {
+      throw new Error(`Multisig transaction ${signature} failed: ${JSON.stringify(value.err)}`);
+    }
+  }
+
+  /**
+   * Read the multisig account
+   */
+  private async readMultisig(): Promise<MultisigAccount> {
+    const info = await this.connection.getAccountInfo(this.options.multisig);
+    if (!info || !info.owner.equals(this.options.programId)) {
+      throw new Error(
+        `Multisig ${this.options.multisig.toBase58()} not found under program ${this.options.programId.toBase58()}`
+      );
+    }
+    return decodeMultisig(info.data);
+  }
+
+  /**
+   * Read the status of a proposal and when it was last changed (Unix seconds), or null if it does not exist
+   */
+  private async getProposalStatus(index: bigint): Promise<{ status: ProposalStatus; timestamp: number } | null> {
+    const info = await this.connection.getAccountInfo(this.getProposalPda(index));
+    if (!info) {
+      return null;
+    }
+    // Discriminator, multisig and transaction index come before the status
+    const status = PROPOSAL_STATUSES[info.data[48]];
+    const timestamp = status === 'executing' ? 0 : Number(info.data.readBigInt64LE(49));
+    return { status, timestamp };
+  }
+
+  private getTransactionPda(index: bigint): PublicKey {
+    return PublicKey.findProgramAddressSync(
+      [SEED_PREFIX, this.options.multisig.toBuffer(), Buffer.from('transaction'), encodeU64(index)],
+      this.options.programId
+    )[0];
+  }
+
+  private getProposalPda(index: bigint): PublicKey {
+    return PublicKey.findProgramAddressSync(
+      [SEED_PREFIX, this.options.multisig.toBuffer(), Buffer.from('transaction'), encodeU64(index), Buffer.from('proposal')],
+      this.options.programId
+    )[0];
+  }
+
+  /**
+   * Build a Squads instruction
+   */
+  private instruction(name: string, keys: AccountMeta[], args: Buffer = Buffer.alloc(0)): TransactionInstruction {
+    return new TransactionInstruction({
+      programId: this.options.programId,
+      keys,
+      data: Buffer.concat([getDiscriminator(name), args]),
+    });
+  }
+}
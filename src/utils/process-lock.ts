@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './logger';
+
+/**
+ * Lock file holding the PID of the process that claims and buys for the wallet
+ * Keeps the bot and one-off CLI claims and buys from running side by side on the same ledger.
+ * The lock is taken and released synchronously so it can be released from an `exit` handler.
+ */
+export class ProcessLock {
+  private filePath: string;
+  private held = false;
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Get the absolute path of the lock file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Take the lock, replacing a lock left behind by a process that no longer runs
+   * The lock is released when the process exits.
+   * @throws Error naming the holder if another running process holds the lock
+   */
+  acquire(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        fs.writeFileSync(this.filePath, `${process.pid}\n`, { flag: 'wx' });
+        this.held = true;
+        process.once('exit', () => this.release());
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const holder = this.readHolder();
+      if (holder !== null && isProcessRunning(holder)) {
+        throw new Error(`${this.filePath} is held by running process ${holder}`);
+      }
+      logger.warn(`Removing stale lock ${this.filePath}${holder !== null ? ` of process ${holder}` : ''}`);
+      fs.rmSync(this.filePath, { force: true });
+    }
+    throw new Error(`${this.filePath} was taken by another process`);
+  }
+
+  /**
+   * Release the lock if this process holds it
+   */
+  release(): void {
+    if (!this.held) {
+      return;
+    }
+    this.held = false;
+    try {
+      if (this.readHolder() === process.pid) {
+        fs.rmSync(this.filePath, { force: true });
+      }
+    } catch (error: any) {
+      logger.warn(`Could not remove lock ${this.filePath}:`, error.message || error);
+    }
+  }
+
+  /**
+   * Read the PID stored in the lock file, or null if the file is gone or does not hold one
+   */
+  private readHolder(): number | null {
+    try {
+      const pid = Number.parseInt(fs.readFileSync(this.filePath, 'utf8').trim(), 10);
+      return Number.isInteger(pid) && pid > 0 ? pid : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Check whether a process is running, without sending it a signal
+ */
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: the process exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+}
@@ -0,0 +1,280 @@
+import {
+  Connection,
+  Keypair,
+  SendTransactionError,
+  Transaction,
+  TransactionSignature,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { logger } from './logger';
+import { SubmissionBackend } from './submission';
+
+// Give up following a transaction if its expiry cannot be checked for this long (in milliseconds)
+const MAX_FOLLOW_MS = 120_000;
+
+/**
+ * Wire format of a serialized transaction
+ */
+export type TransactionFormat = 'legacy' | 'versioned';
+
+/**
+ * A signed transaction ready to be broadcast
+ */
+export interface SignedTransaction {
+  serialized: Buffer;
+  signature: TransactionSignature;
+  blockhash: string;
+  // Last block height at which the blockhash is valid, if known
+  lastValidBlockHeight?: number;
+}
+
+/**
+ * Builds a freshly signed transaction; called again with the next attempt number
+ * whenever the previous transaction's blockhash expired before it landed
+ */
+export type TransactionFactory = (attempt: number) => Promise<SignedTransaction>;
+
+/**
+ * Final outcome of sending a transaction
+ * - confirmed: the transaction landed without error
+ * - failed: the transaction was rejected in preflight or landed with a program error
+ * - expired: no attempt landed before its blockhash expired
+ */
+export type SendOutcome =
+  | { status: 'confirmed'; signature: string }
+  | { status: 'failed'; signature: string; error: string; logs: string[] }
+  | { status: 'expired'; signature: string; attempts: number };
+
+/**
+ * Options of the transaction sender
+ */
+export interface SenderOptions {
+  // Fresh transactions to try after blockhash expiry, the first one included
+  maxAttempts: number;
+  // How often an unconfirmed transaction is rebroadcast and its status checked (in milliseconds)
+  rebroadcastIntervalMs: number;
+}
+
+/**
+ * Split a serialized transaction into its signatures and message bytes
+ * The message follows the compact-u16 signature count and the 64-byte signatures
+ */
+export function splitTransaction(serialized: Uint8Array): { signatures: Uint8Array[]; message: Uint8Array } {
+  let signatureCount = 0;
+  let offset = 0;
+  for (let shift = 0; ; shift += 7) {
+    const byte = serialized[offset++];
+    signatureCount |= (byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) {
+      break;
+    }
+  }
+
+  const signatures: Uint8Array[] = [];
+  for (let i = 0; i < signatureCount; i++, offset += 64) {
+    signatures.push(serialized.subarray(offset, offset + 64));
+  }
+  if (offset >= serialized.length) {
+    throw new Error('Serialized transaction is truncated');
+  }
+  return { signatures, message: serialized.subarray(offset) };
+}
+
+/**
+ * Tell legacy and versioned transactions apart from their serialized bytes
+ * Versioned messages start with a prefix byte that has the high bit set
+ */
+export function getTransactionFormat(serialized: Uint8Array): TransactionFormat {
+  return (splitTransaction(serialized).message[0] & 0x80) !== 0 ? 'versioned' : 'legacy';
+}
+
+/**
+ * Read the signature and blockhash of a signed serialized transaction
+ */
+export function readSignedTransaction(serialized: Uint8Array): SignedTransaction {
+  // VersionedTransaction deserializes both legacy and v0 messages
+  const transaction = VersionedTransaction.deserialize(serialized);
+  return {
+    serialized: Buffer.from(serialized),
+    signature: bs58.encode(transaction.signatures[0]),
+    blockhash: transaction.message.recentBlockhash,
+  };
+}
+
+/**
+ * Sign a serialized transaction (e.g. from PumpPortal) with the given keypairs, keeping its blockhash
+ * Signatures already present are kept.
+ */
+export function signSerializedTransaction(serialized: Uint8Array, signers: Keypair[]): Buffer {
+  if (getTransactionFormat(serialized) === 'versioned') {
+    const transaction = VersionedTransaction.deserialize(serialized);
+    transaction.sign(signers);
+    return Buffer.from(transaction.serialize());
+  }
+
+  const transaction = Transaction.from(serialized);
+  transaction.partialSign(...signers);
+  return transaction.serialize({ requireAllSignatures: false });
+}
+
+/**
+ * Describe a non-confirmed outcome for logs and error messages
+ */
+export function describeOutcome(outcome: SendOutcome): string {
+  switch (outcome.status) {
+    case 'confirmed':
+      return `confirmed (${outcome.signature})`;
+    case 'failed':
+      return `failed with ${outcome.error}`;
+    case 'expired':
+      return `expired after ${outcome.attempts} attempt(s) without landing`;
+  }
+}
+
+/**
+ * Sends transactions and follows them until they land or their blockhash expires
+ * While a transaction is unconfirmed it is rebroadcast at a fixed interval; once its
+ * blockhash expires a fresh transaction is requested from the factory
+ */
+export class TransactionSender {
+  private connection: Connection;
+  private options: SenderOptions;
+
+  constructor(connection: Connection, options: SenderOptions) {
+    this.connection = connection;
+    this.options = options;
+  }
+
+  /**
+   * Send a transaction built by the factory and wait for its outcome
+   * @param backend - Backend broadcasting the transaction and its rebroadcasts
+   */
+  async send(factory: TransactionFactory, backend: SubmissionBackend): Promise<SendOutcome> {
+    let signature = '';
+
+    for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      const transaction = await factory(attempt);
+      signature = transaction.signature;
+
+      // The first broadcast runs preflight, so program errors surface before anything lands
+      try {
+        await backend.submit(transaction, true);
+        logger.debug(
+          `Sent transaction ${signature} via ${backend.name} (attempt ${attempt}/${this.options.maxAttempts})`
+        );
+      } catch (error: any) {
+        if (error instanceof SendTransactionError) {
+          return this.failed(signature, error.message, error.logs || []);
+        }
+        // A timeout or dropped connection does not tell whether the transaction went out, so follow it anyway
+        logger.warn(
+          `Broadcast of ${signature} via ${backend.name} failed, following it in case it was sent:`,
+          error.message || error
+        );
+      }
+
+      const outcome = await this.followUntilExpiry(transaction, attempt, backend);
+      if (outcome) {
+        return outcome;
+      }
+      logger.warn(`Transaction ${signature} expired before landing (attempt ${attempt}/${this.options.maxAttempts})`);
+    }
+
+    return { status: 'expired', signature, attempts: this.options.maxAttempts };
+  }
+
+  /**
+   * Rebroadcast a sent transaction until it is confirmed or its blockhash expires
+   * @returns The outcome, or null if the blockhash expired first
+   */
+  private async followUntilExpiry(
+    transaction: SignedTransaction,
+    attempt: number,
+    backend: SubmissionBackend
+  ): Promise<SendOutcome | null> {
+    const deadline = Date.now() + MAX_FOLLOW_MS;
+    for (;;) {
+      await this.sleep(this.options.rebroadcastIntervalMs);
+
+      const outcome = await this.getOutcome(transaction.signature);
+      if (outcome) {
+        return outcome;
+      }
+
+      if (await this.isExpired(transaction)) {
+        // The transaction may have landed right before expiry
+        return this.getOutcome(transaction.signature);
+      }
+
+      // Without a confirmed expiry a fresh transaction could land twice, so stop here
+      if (Date.now() > deadline) {
+        logger.warn(`Could not confirm ${transaction.signature} or its expiry, giving up without resending`);
+        return { status: 'expired', signature: transaction.signature, attempts: attempt };
+      }
+
+      try {
+        await backend.submit(transaction, false);
+      } catch (error: any) {
+        logger.debug(`Rebroadcast of ${transaction.signature} failed:`, error.message || error);
+      }
+    }
+  }
+
+  /**
+   * Get the outcome of a confirmed transaction, or null if it has not been confirmed yet
+   */
+  private async getOutcome(signature: string): Promise<SendOutcome | null> {
+    try {
+      const { value } = await this.connection.getSignatureStatuses([signature]);
+      const status = value[0];
+      if (!status || (status.confirmationStatus !== 'confirmed' && status.confirmationStatus !== 'finalized')) {
+        return null;
+      }
+      if (status.err) {
+        return this.failed(signature, JSON.stringify(status.err), []);
+      }
+      return { status: 'confirmed', signature };
+    } catch (error: any) {
+      logger.debug(`Status check of ${signature} failed:`, error.message || error);
+      return null;
+    }
+  }
+
+  /**
+   * Build and log a failed outcome
+   */
+  private failed(signature: string, error: string, logs: string[]): SendOutcome {
+    logger.error(`Transaction ${signature} failed: ${error}`);
+    for (const line of logs) {
+      logger.info(`  ${line}`);
+    }
+    return { status: 'failed', signature, error, logs };
+  }
+
+  /**
+   * Check if a transaction's blockhash can no longer land
+   */
+  private async isExpired(transaction: SignedTransaction): Promise<boolean> {
+    try {
+      if (transaction.lastValidBlockHeight !== undefined) {
+        const blockHeight = await this.connection.getBlockHeight('confirmed');
+        return blockHeight > transaction.lastValidBlockHeight;
+      }
+      const { value } = await this.connection.isBlockhashValid(transaction.blockhash, {
+        commitment: 'confirmed',
+      });
+      return !value;
+    } catch (error: any) {
+      logger.debug('Blockhash expiry check failed:', error.message || error);
+      return false;
+    }
+  }
+
+  /**
+   * Sleep utility function
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import axios, { AxiosInstance } from 'axios';
+import type { BotConfig, SignerKind } from '../config';
+import { logger } from './logger';
+import { loadWalletSecretKey } from './keystore';
+import { signSerializedTransaction, splitTransaction } from './sender';
+import type { SubmissionAction } from './submission';
+import { MultisigSigner } from './multisig';
+
+// Timeout of requests to the remote signer (in milliseconds)
+const REMOTE_SIGNER_TIMEOUT_MS = 30_000;
+
+// DER prefix of an Ed25519 SubjectPublicKeyInfo, followed by the 32-byte public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * What a transaction handed to a signer is for
+ */
+export interface SignRequest {
+  // Action of the transaction, shown to remote signers and multisig approvers
+  action: SubmissionAction;
+  // Set when the transaction is only simulated (dry-run mode)
+  simulate: boolean;
+}
+
+/**
+ * Signs transactions on behalf of the wallet, wherever its key lives
+ * - keypair: the secret key is held in this process
+ * - remote: a signer service holds the key and checks each transaction against its policy
+ * - multisig: the wallet is a Squads vault; transactions become proposals executed once approved
+ */
+export interface Signer {
+  readonly kind: SignerKind;
+
+  /**
+   * Account the bot acts as: the token creator, fee recipient and buyer
+   */
+  getPublicKey(): PublicKey;
+
+  /**
+   * Sign a serialized transaction whose fee payer is the wallet
+   * Returns the transaction to broadcast: usually the same one signed, but a multisig returns the
+   * transaction executing its approved proposal. Signers that cannot sign right away (multisig)
+   * return simulated transactions unsigned.
+   */
+  signTransaction(serialized: Uint8Array, request: SignRequest): Promise<Buffer>;
+
+  /**
+   * Clear any key material held in this process
+   */
+  dispose(): void;
+}
+
+/**
+ * Check that a signature over a message was made by a public key
+ */
+export function verifySignature(message: Uint8Array, signature: Uint8Array, publicKey: PublicKey): boolean {
+  const key = crypto.createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey.toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+  return crypto.verify(null, message, key, signature);
+}
+
+/**
+ * Signs with a secret key held in this process
+ */
+export class KeypairSigner implements Signer {
+  readonly kind = 'keypair' as const;
+  private keypair: Keypair;
+  // Secret key bytes held by the keypair, cleared by dispose()
+  private secretKey: Uint8Array;
+
+  /**
+   * @param secretKey - The 64-byte secret key; the signer takes ownership and clears it on dispose()
+   */
+  constructor(secretKey: Uint8Array) {
+    // The keypair keeps a reference to these bytes rather than a copy
+    this.secretKey = secretKey;
+    try {
+      this.keypair = Keypair.fromSecretKey(secretKey);
+    } catch {
+      secretKey.fill(0);
+      throw new Error('Invalid private key: not a valid ed25519 secret key');
+    }
+  }
+
+  getPublicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction(serialized: Uint8Array): Promise<Buffer> {
+    return signSerializedTransaction(serialized, [this.keypair]);
+  }
+
+  dispose(): void {
+    this.secretKey.fill(0);
+  }
+}
+
+/**
+ * Signs through a signer service over HTTP or a Unix socket (see signer-server.ts)
+ * - GET /public-key: { "publicKey": "..." }
+ * - POST /sign { "transaction": base64, "action", "simulate" }: { "transaction": base64 signed }
+ * The service refuses transactions outside its policy. Signed transactions are checked to carry
+ * the unchanged message and a valid signature before they are used.
+ */
+export class RemoteSigner implements Signer {
+  readonly kind = 'remote' as const;
+  private client: AxiosInstance;
+  private endpoint: string;
+  private publicKey: PublicKey;
+
+  private constructor(client: AxiosInstance, endpoint: string, publicKey: PublicKey) {
+    this.client = client;
+    this.endpoint = endpoint;
+    this.publicKey = publicKey;
+  }
+
+  /**
+   * Connect to a signer service and read the public key it signs for
+   * @param endpoint - http(s) URL, or unix:/path/to/socket
+   * @param expectedPublicKey - Public key the service must sign for, or null to accept the one it reports
+   */
+  static async connect(endpoint: string, token: string, expectedPublicKey: string | null): Promise<RemoteSigner> {
+    const socketPath = endpoint.startsWith('unix:') ? endpoint.slice('unix:'.length) : undefined;
+    const client = axios.create({
+      baseURL: socketPath ? 'http://localhost' : endpoint.replace(/\/+$/, ''),
+      socketPath,
+      headers: { Authorization: `Bearer ${token}` },
+      timeout: REMOTE_SIGNER_TIMEOUT_MS,
+    });
+
+    let publicKey: PublicKey;
+    try {
+      const response = await client.get('/public-key');
+      publicKey = new PublicKey(response.data?.publicKey);
+    } catch (error: any) {
+      throw new Error(`Cannot reach remote signer ${endpoint}: ${describeRemoteError(error)}`);
+    }
+    if (expectedPublicKey && publicKey.toBase58() !== expectedPublicKey) {
+      throw new Error(
+        `Remote signer ${endpoint} signs for ${publicKey.toBase58()}, not REMOTE_SIGNER_PUBLIC_KEY ${expectedPublicKey}`
+      );
+    }
+
+    logger.info(`Remote signer ${endpoint} signs for ${publicKey.toBase58()}`);
+    return new RemoteSigner(client, endpoint, publicKey);
+  }
+
+  getPublicKey(): PublicKey {
+    return this.publicKey;
+  }
+
+  async signTransaction(serialized: Uint8Array, request: SignRequest): Promise<Buffer> {
+    let signed: Buffer;
+    try {
+      const response = await this.client.post('/sign', {
+        transaction: Buffer.from(serialized).toString('base64'),
+        action: request.action,
+        simulate: request.simulate,
+      });
+      signed = Buffer.from(String(response.data?.transaction ?? ''), 'base64');
+    } catch (error: any) {
+      throw new Error(`Remote signer refused the ${request.action} transaction: ${describeRemoteError(error)}`);
+    }
+
+    // The signer must sign exactly the message it was given, as the wallet
+    const original = splitTransaction(serialized);
+    let returned: ReturnType<typeof splitTransaction>;
+    try {
+      returned = splitTransaction(signed);
+    } catch {
+      throw new Error(`Remote signer ${this.endpoint} returned an invalid transaction`);
+    }
+    const signature = returned.signatures[0];
+    if (
+      !Buffer.from(returned.message).equals(Buffer.from(original.message)) ||
+      !signature ||
+      !verifySignature(returned.message, signature, this.publicKey)
+    ) {
+      throw new Error(`Remote signer ${this.endpoint} returned a transaction that does not match the request`);
+    }
+    return signed;
+  }
+
+  dispose(): void {
+    // The key never enters this process
+  }
+}
+
+/**
+ * Describe a failed request to the signer service, preferring the error it answered with
+ */
+function describeRemoteError(error: any): string {
+  return error.response?.data?.error || error.message || String(error);
+}
+
+/**
+ * Create the configured signer, unlocking the keystore or connecting to the signer service
+ * The keystore passphrase may be prompted for on the terminal.
+ */
+export async function createSigner(config: BotConfig): Promise<Signer> {
+  switch (config.signer) {
+    case 'keypair':
+      return new KeypairSigner(await loadWalletSecretKey(config));
+    case 'remote':
+      return RemoteSigner.connect(config.remoteSignerUrl!, config.remoteSignerToken!, config.remoteSignerPublicKey);
+    case 'multisig':
+      // The local key is a member proposing, approving and executing, and pays the network fees
+      return MultisigSigner.connect(
+        new Connection(config.rpcEndpoint, 'confirmed'),
+        new KeypairSigner(await loadWalletSecretKey(config)),
+        {
+          programId: new PublicKey(config.multisigProgramId),
+          multisig: new PublicKey(config.multisigAddress!),
+          vaultIndex: config.multisigVaultIndex,
+          approvalTimeoutMs: config.multisigApprovalTimeoutMinutes * 60_000,
+        }
+      );
+  }
+}
@@ -0,0 +1,228 @@
+import { ComputeBudgetProgram, PublicKey, SystemProgram, VersionedMessage } from '@solana/web3.js';
+import {
+  NATIVE_MINT,
+  NATIVE_MINT_2022,
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { PUMPFUN_CONSTANTS, PUMPSWAP_CONSTANTS } from '../config';
+import type { ClusterPrograms } from '../cluster';
+
+// System program instruction the bot emits: transfer (every other kind is refused)
+const SYSTEM_TRANSFER = 2;
+
+// Token program instructions the bot emits (every other kind is refused)
+const TOKEN_TRANSFER_CHECKED = 12;
+const TOKEN_CLOSE_ACCOUNT = 9;
+const TOKEN_BURN = 8;
+const TOKEN_BURN_CHECKED = 15;
+const TOKEN_SYNC_NATIVE = 17;
+
+/**
+ * Discriminators of the instructions the bot sends to pump.fun or PumpSwap
+ */
+interface PumpInstructions {
+  buy: Buffer;
+  collectCreatorFee: Buffer;
+}
+
+// pump.fun and PumpSwap instructions the bot emits: buys and creator fee claims (others are refused)
+const PUMPFUN_INSTRUCTIONS: PumpInstructions = {
+  buy: PUMPFUN_CONSTANTS.BUY_DISCRIMINATOR,
+  collectCreatorFee: PUMPFUN_CONSTANTS.COLLECT_CREATOR_FEE_DISCRIMINATOR,
+};
+const PUMPSWAP_INSTRUCTIONS: PumpInstructions = {
+  buy: PUMPSWAP_CONSTANTS.BUY_DISCRIMINATOR,
+  collectCreatorFee: PUMPSWAP_CONSTANTS.COLLECT_COIN_CREATOR_FEE_DISCRIMINATOR,
+};
+
+// Associated token program instructions the bot emits: create (also sent without data) and create_idempotent
+const ATA_CREATE = 0;
+const ATA_CREATE_IDEMPOTENT = 1;
+
+// Compute budget instructions: unit limit and unit price (in micro-lamports)
+const COMPUTE_UNIT_LIMIT = 2;
+const COMPUTE_UNIT_PRICE = 3;
+// Most compute units a transaction may use, the limit assumed when it sets none
+const MAX_COMPUTE_UNITS = 1_400_000n;
+
+/**
+ * Rules a signer checks before signing a transaction
+ */
+export interface SigningPolicy {
+  // Programs the transaction may call
+  allowedPrograms: PublicKey[];
+  // Most SOL a single transaction may spend (in lamports)
+  maxLamports: number;
+  // Most SOL the transactions signed within a window may spend together (in lamports), checked by the signer server
+  maxWindowLamports: number;
+  // Length of that window (in milliseconds)
+  windowMs: number;
+  // Programs of the cluster, to recognise pump.fun and PumpSwap buys
+  programs: ClusterPrograms;
+}
+
+/**
+ * What a checked transaction does, as far as the policy is concerned
+ */
+export interface TransactionSummary {
+  programs: string[];
+  // SOL the transaction may spend (in lamports)
+  lamports: number;
+}
+
+/**
+ * A transaction the policy does not allow
+ */
+export class PolicyViolation extends Error {}
+
+/**
+ * Programs the bot's own transactions call: the system, compute budget and token programs,
+ * pump.fun and PumpSwap
+ */
+export function getDefaultAllowedPrograms(programs: ClusterPrograms): PublicKey[] {
+  return [
+    SystemProgram.programId,
+    ComputeBudgetProgram.programId,
+    programs.token,
+    TOKEN_2022_PROGRAM_ID,
+    programs.associatedToken,
+    programs.pumpfun,
+    programs.pumpswap,
+  ];
+}
+
+/**
+ * Check a transaction message against a policy before signing it as `signer`
+ * Spending counts SOL transferred by the signer, wrapped SOL it transfers or burns, the priority fee
+ * and the maximum SOL cost of pump.fun and PumpSwap buys. SOL wrapped into the signer's own WSOL
+ * account only counts beyond what the transaction's buys may spend, and that account may only be
+ * closed back to the signer. System, token, associated token, pump.fun and PumpSwap instructions the
+ * bot never sends are refused. The window limit is left to the caller, which knows what it signed before.
+ * @throws PolicyViolation if the transaction is not allowed
+ */
+export function checkSigningPolicy(
+  message: VersionedMessage,
+  signer: PublicKey,
+  policy: SigningPolicy
+): TransactionSummary {
+  const keys = message.staticAccountKeys;
+  const signerIndex = keys.findIndex((key) => key.equals(signer));
+  if (signerIndex === -1 || signerIndex >= message.header.numRequiredSignatures) {
+    throw new PolicyViolation(`Transaction does not need a signature from ${signer.toBase58()}`);
+  }
+
+  // Accounts loaded from lookup tables are not known here; signers and programs never are
+  const keyAt = (index: number): PublicKey | null => keys[index] ?? null;
+  const { token, associatedToken, pumpfun, pumpswap } = policy.programs;
+  const wrappedSol = getAssociatedTokenAddressSync(NATIVE_MINT, signer, true, token, associatedToken);
+
+  const programs = new Set<string>();
+  let lamports = 0n;
+  let wrappedLamports = 0n;
+  let buyLamports = 0n;
+  let computeUnits = MAX_COMPUTE_UNITS;
+  let microLamportsPerUnit = 0n;
+  for (const instruction of message.compiledInstructions) {
+    const programId = keyAt(instruction.programIdIndex)!;
+    if (!policy.allowedPrograms.some((allowed) => allowed.equals(programId))) {
+      throw new PolicyViolation(`Program ${programId.toBase58()} is not allowed`);
+    }
+    programs.add(programId.toBase58());
+
+    const data = Buffer.from(instruction.data);
+    const accounts = instruction.accountKeyIndexes.map(keyAt);
+    if (programId.equals(SystemProgram.programId)) {
+      if (data.length < 12 || data.readUInt32LE(0) !== SYSTEM_TRANSFER) {
+        throw new PolicyViolation('Only transfers are allowed from the system program');
+      }
+      if (accounts[0]?.equals(signer)) {
+        if (accounts[1]?.equals(wrappedSol)) {
+          wrappedLamports += data.readBigUInt64LE(4);
+        } else {
+          lamports += data.readBigUInt64LE(4);
+        }
+      }
+    } else if (programId.equals(token) || programId.equals(TOKEN_2022_PROGRAM_ID)) {
+      lamports += checkTokenInstruction(data, accounts, signer);
+    } else if (programId.equals(associatedToken)) {
+      if (data.length > 1 || (data.length === 1 && data[0] !== ATA_CREATE && data[0] !== ATA_CREATE_IDEMPOTENT)) {
+        throw new PolicyViolation('Only account creation is allowed from the associated token program');
+      }
+    } else if (programId.equals(ComputeBudgetProgram.programId)) {
+      if (data[0] === COMPUTE_UNIT_LIMIT && data.length >= 5) {
+        computeUnits = BigInt(data.readUInt32LE(1));
+      } else if (data[0] === COMPUTE_UNIT_PRICE && data.length >= 9) {
+        microLamportsPerUnit = data.readBigUInt64LE(1);
+      }
+    } else if (programId.equals(pumpfun)) {
+      buyLamports += checkPumpInstruction(data, 'pump.fun', PUMPFUN_INSTRUCTIONS);
+    } else if (programId.equals(pumpswap)) {
+      buyLamports += checkPumpInstruction(data, 'PumpSwap', PUMPSWAP_INSTRUCTIONS);
+    }
+  }
+  // Wrapped SOL stays in the signer's account unless a buy spends it, which is counted instead
+  lamports += buyLamports + (wrappedLamports > buyLamports ? wrappedLamports - buyLamports : 0n);
+  // Priority fee, rounded up to whole lamports
+  lamports += (computeUnits * microLamportsPerUnit + 999_999n) / 1_000_000n;
+
+  if (lamports > BigInt(policy.maxLamports)) {
+    throw new PolicyViolation(`Transaction spends up to ${lamports} lamports, above the limit of ${policy.maxLamports}`);
+  }
+  return { programs: [...programs], lamports: Number(lamports) };
+}
+
+/**
+ * Check a pump.fun or PumpSwap instruction, returning the maximum SOL cost of a buy
+ */
+function checkPumpInstruction(data: Buffer, name: string, instructions: PumpInstructions): bigint {
+  const discriminator = data.subarray(0, 8);
+  if (discriminator.equals(instructions.buy)) {
+    if (data.length < 24) {
+      throw new PolicyViolation(`${name} buy instruction is too short`);
+    }
+    // Token amount, then the maximum SOL (quote) cost of the buy
+    return data.readBigUInt64LE(16);
+  }
+  if (discriminator.length === 8 && discriminator.equals(instructions.collectCreatorFee)) {
+    return 0n;
+  }
+  throw new PolicyViolation(`${name} instruction ${discriminator.toString('hex')} is not allowed`);
+}
+
+/**
+ * Check a token program instruction, returning the wrapped SOL it moves out of the signer's accounts
+ * Unchecked transfers are refused since their mint, and so whether they move SOL, is not known;
+ * so are the signer's checked transfers and burns whose mint comes from a lookup table.
+ */
+function checkTokenInstruction(data: Buffer, accounts: (PublicKey | null)[], signer: PublicKey): bigint {
+  switch (data[0]) {
+    case TOKEN_SYNC_NATIVE:
+      return 0n;
+    case TOKEN_CLOSE_ACCOUNT:
+      // Closing returns the account's lamports (all of them for wrapped SOL) to the destination
+      if (!accounts[1]?.equals(signer)) {
+        throw new PolicyViolation('Token accounts may only be closed to the signer');
+      }
+      return 0n;
+    case TOKEN_TRANSFER_CHECKED:
+    case TOKEN_BURN:
+    case TOKEN_BURN_CHECKED: {
+      // Transfers: source, mint, destination, authority; burns: account, mint, authority
+      const authority = data[0] === TOKEN_TRANSFER_CHECKED ? accounts[3] : accounts[2];
+      const mint = accounts[1];
+      if (!authority?.equals(signer)) {
+        return 0n;
+      }
+      if (!mint) {
+        throw new PolicyViolation('Mint of a token transfer or burn by the signer is not known');
+      }
+      if (data.length < 9 || !(mint.equals(NATIVE_MINT) || mint.equals(NATIVE_MINT_2022))) {
+        return 0n;
+      }
+      return data.readBigUInt64LE(1);
+    }
+    default:
+      throw new PolicyViolation(`Token instruction ${data[0]} is not allowed`);
+  }
+}
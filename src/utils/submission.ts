@@ -0,0 +1,224 @@
+import {
+  Connection,
+  PublicKey,
+  SendTransactionError,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import axios from 'axios';
+import { BotConfig, SubmissionBackendKind } from '../config';
+import { logger } from './logger';
+import { SignedTransaction } from './sender';
+import type { Signer } from './signer';
+
+// Timeout of requests to send-only RPCs and bundle endpoints (in milliseconds)
+const SUBMISSION_TIMEOUT_MS = 10_000;
+
+/**
+ * Actions whose transactions can be routed to a configured backend; 'other' always uses the RPC
+ */
+export type SubmissionAction = 'claim' | 'buy' | 'other';
+
+/**
+ * Broadcasts signed transactions; the sender follows their status through the main RPC
+ */
+export interface SubmissionBackend {
+  readonly name: SubmissionBackendKind;
+
+  /**
+   * Broadcast a signed transaction
+   * @param preflight - Set on the first broadcast of each attempt; a failed preflight throws a SendTransactionError
+   */
+  submit(transaction: SignedTransaction, preflight: boolean): Promise<void>;
+}
+
+/**
+ * Simulate a transaction on the main RPC, throwing a SendTransactionError like a failed preflight
+ * Used by backends whose endpoints do not run preflight themselves
+ */
+async function simulatePreflight(connection: Connection, transaction: SignedTransaction): Promise<void> {
+  const { value } = await connection.simulateTransaction(
+    VersionedTransaction.deserialize(transaction.serialized),
+    { sigVerify: true, commitment: 'confirmed' }
+  );
+  if (value.err) {
+    throw new SendTransactionError({
+      action: 'simulate',
+      signature: transaction.signature,
+      transactionMessage: JSON.stringify(value.err),
+      logs: value.logs || [],
+    });
+  }
+}
+
+/**
+ * Call a JSON-RPC method over HTTP and return its result
+ */
+async function callJsonRpc<T>(url: string, method: string, params: unknown[]): Promise<T> {
+  const response = await axios.post(
+    url,
+    { jsonrpc: '2.0', id: 1, method, params },
+    {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      timeout: SUBMISSION_TIMEOUT_MS,
+    }
+  );
+  if (response.data.error) {
+    throw new Error(`${method} rejected by ${url}: ${response.data.error.message || JSON.stringify(response.data.error)}`);
+  }
+  return response.data.result as T;
+}
+
+/**
+ * Submits transactions through the main RPC's `sendTransaction`
+ */
+export class RpcBackend implements SubmissionBackend {
+  readonly name = 'rpc' as const;
+  private connection: Connection;
+
+  constructor(connection: Connection) {
+    this.connection = connection;
+  }
+
+  async submit(transaction: SignedTransaction, preflight: boolean): Promise<void> {
+    await this.connection.sendRawTransaction(transaction.serialized, {
+      skipPreflight: !preflight,
+      preflightCommitment: 'confirmed',
+      maxRetries: 0,
+    });
+  }
+}
+
+/**
+ * Submits transactions to a list of send-only RPC endpoints in parallel
+ * Preflight runs once on the main RPC; the submission succeeds if any endpoint accepts the transaction
+ */
+export class FanOutBackend implements SubmissionBackend {
+  readonly name = 'fanout' as const;
+  private connection: Connection;
+  private endpoints: string[];
+
+  constructor(connection: Connection, endpoints: string[]) {
+    this.connection = connection;
+    this.endpoints = endpoints;
+  }
+
+  async submit(transaction: SignedTransaction, preflight: boolean): Promise<void> {
+    if (preflight) {
+      await simulatePreflight(this.connection, transaction);
+    }
+
+    const encoded = transaction.serialized.toString('base64');
+    const results = await Promise.allSettled(
+      this.endpoints.map((url) =>
+        callJsonRpc<string>(url, 'sendTransaction', [
+          encoded,
+          { encoding: 'base64', skipPreflight: true, maxRetries: 0 },
+        ])
+      )
+    );
+
+    const rejections = results
+      .map((result, i) => (result.status === 'rejected' ? `${this.endpoints[i]}: ${result.reason.message || result.reason}` : null))
+      .filter((reason): reason is string => reason !== null);
+    if (rejections.length === this.endpoints.length) {
+      throw new Error(`No send-only endpoint accepted ${transaction.signature} (${rejections.join('; ')})`);
+    }
+    for (const rejection of rejections) {
+      logger.debug(`Send-only endpoint rejected ${transaction.signature}: ${rejection}`);
+    }
+  }
+}
+
+/**
+ * Submits transactions as Jito-style bundles, followed by a tip transfer to a random tip account
+ * The bundle lands atomically, so the tip is only paid if the transaction lands
+ */
+export class BundleBackend implements SubmissionBackend {
+  readonly name = 'bundle' as const;
+  private connection: Connection;
+  private url: string;
+  private payer: Signer;
+  private tipLamports: number;
+  private tipAccounts: PublicKey[];
+  // Signed tip transaction of the last submitted transaction, reused when it is rebroadcast
+  private lastTip: { signature: string; serialized: Buffer } | null = null;
+
+  constructor(connection: Connection, url: string, payer: Signer, tipLamports: number, tipAccounts: PublicKey[]) {
+    this.connection = connection;
+    this.url = url;
+    this.payer = payer;
+    this.tipLamports = tipLamports;
+    this.tipAccounts = tipAccounts;
+  }
+
+  async submit(transaction: SignedTransaction, preflight: boolean): Promise<void> {
+    if (preflight) {
+      await simulatePreflight(this.connection, transaction);
+    }
+
+    const bundleId = await callJsonRpc<string>(this.url, 'sendBundle', [
+      [transaction.serialized.toString('base64'), (await this.getTip(transaction)).toString('base64')],
+      { encoding: 'base64' },
+    ]);
+    logger.debug(`Bundle ${bundleId} submitted for ${transaction.signature}`);
+  }
+
+  /**
+   * Get the signed tip transaction bundled with a transaction, sharing its blockhash
+   */
+  private async getTip(transaction: SignedTransaction): Promise<Buffer> {
+    if (this.lastTip?.signature === transaction.signature) {
+      return this.lastTip.serialized;
+    }
+
+    const tipAccount = this.tipAccounts[Math.floor(Math.random() * this.tipAccounts.length)];
+    const tip = new Transaction({
+      feePayer: this.payer.getPublicKey(),
+      recentBlockhash: transaction.blockhash,
+    }).add(
+      SystemProgram.transfer({
+        fromPubkey: this.payer.getPublicKey(),
+        toPubkey: tipAccount,
+        lamports: this.tipLamports,
+      })
+    );
+    const serialized = await this.payer.signTransaction(tip.serialize({ requireAllSignatures: false }), {
+      action: 'other',
+      simulate: false,
+    });
+
+    this.lastTip = { signature: transaction.signature, serialized };
+    return this.lastTip.serialized;
+  }
+}
+
+/**
+ * Create the submission backend of a configured kind
+ * @param payer - Wallet paying bundle tips
+ */
+export function createSubmissionBackend(
+  kind: SubmissionBackendKind,
+  connection: Connection,
+  payer: Signer,
+  config: BotConfig
+): SubmissionBackend {
+  switch (kind) {
+    case 'rpc':
+      return new RpcBackend(connection);
+    case 'fanout':
+      return new FanOutBackend(connection, config.sendOnlyRpcEndpoints);
+    case 'bundle':
+      return new BundleBackend(
+        connection,
+        // Checked by loadConfig when a backend uses bundles
+        config.bundleEndpoint!,
+        payer,
+        config.bundleTipLamports,
+        config.bundleTipAccounts.map((address) => new PublicKey(address))
+      );
+  }
+}
@@ -4,48 +4,85 @@ import {
   PublicKey,
   LAMPORTS_PER_SOL,
   Transaction,
-  sendAndConfirmTransaction,
   TransactionInstruction,
   ComputeBudgetProgram,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+  TokenBalance,
 } from '@solana/web3.js';
 import bs58 from 'bs58';
 import { BotConfig } from '../config';
+import { logger } from './logger';
+import {
+  TransactionSender,
+  SendOutcome,
+  SignedTransaction,
+  readSignedTransaction,
+  describeOutcome,
+} from './sender';
+import { PriorityFeeEstimator, getWritableAccounts } from './fees';
+import { SubmissionAction, SubmissionBackend, RpcBackend, createSubmissionBackend } from './submission';
+import { Signer, SignRequest } from './signer';
+
+/**
+ * Outcome of simulating a signed transaction instead of sending it
+ */
+export interface SimulationReport {
+  // Signature the transaction would have had if sent
+  signature: string;
+  unitsConsumed: number | null;
+  // Program error, or null if the simulation succeeded
+  error: string | null;
+  logs: string[];
+}
 
 /**
  * Wallet manager class for handling Solana wallet operations
  */
 export class WalletManager {
   private connection: Connection;
-  private keypair: Keypair;
+  private signer: Signer;
   private config: BotConfig;
+  private sender: TransactionSender;
+  private feeEstimator: PriorityFeeEstimator;
+  private backends: Record<SubmissionAction, SubmissionBackend>;
 
-  constructor(config: BotConfig) {
+  /**
+   * @param signer - Signs the wallet's transactions; the manager takes ownership and disposes of it
+   */
+  constructor(config: BotConfig, signer: Signer) {
     this.config = config;
     this.connection = new Connection(config.rpcEndpoint, 'confirmed');
+    this.sender = new TransactionSender(this.connection, {
+      maxAttempts: config.txMaxAttempts,
+      rebroadcastIntervalMs: config.txRebroadcastIntervalMs,
+    });
+    this.feeEstimator = new PriorityFeeEstimator(this.connection, config);
 
-    // Initialize keypair from private key (supports both base58 and array formats)
-    try {
-      // Try parsing as base58 first
-      const privateKeyBytes = bs58.decode(config.privateKey);
-      this.keypair = Keypair.fromSecretKey(privateKeyBytes);
-    } catch {
-      // Try parsing as JSON array
-      try {
-        const privateKeyArray = JSON.parse(config.privateKey);
-        this.keypair = Keypair.fromSecretKey(Uint8Array.from(privateKeyArray));
-      } catch {
-        throw new Error('Invalid private key format. Must be base58 encoded or JSON array.');
-      }
-    }
+    this.signer = signer;
+
+    // Claims and buys go through their configured backends, everything else through the RPC
+    this.backends = {
+      claim: createSubmissionBackend(config.claimSubmission, this.connection, signer, config),
+      buy: createSubmissionBackend(config.buySubmission, this.connection, signer, config),
+      other: new RpcBackend(this.connection),
+    };
 
-    console.log(`Wallet initialized: ${this.keypair.publicKey.toBase58()}`);
+    logger.info(`Wallet initialized: ${signer.getPublicKey().toBase58()} (${signer.kind} signer)`);
+  }
+
+  /**
+   * Clear any key material held by the signer; the wallet cannot sign afterwards
+   */
+  dispose(): void {
+    this.signer.dispose();
   }
 
   /**
    * Get the wallet's public key
    */
   getPublicKey(): PublicKey {
-    return this.keypair.publicKey;
+    return this.signer.getPublicKey();
   }
 
   /**
@@ -56,33 +93,157 @@ export class WalletManager {
   }
 
   /**
-   * Get the keypair for signing transactions
+   * Get the current SOL balance of the wallet
    */
-  getKeypair(): Keypair {
-    return this.keypair;
+  async getBalance(): Promise<number> {
+    const balance = await this.connection.getBalance(this.getPublicKey());
+    return balance / LAMPORTS_PER_SOL;
   }
 
   /**
-   * Get the current SOL balance of the wallet
+   * Get the priority fee (in microlamports per compute unit) for a transaction touching the given accounts
+   * @param attempt - Attempt number of the transaction, later attempts pay more
    */
-  async getBalance(): Promise<number> {
-    const balance = await this.connection.getBalance(this.keypair.publicKey);
-    return balance / LAMPORTS_PER_SOL;
+  async getPriorityFee(accounts: PublicKey[], attempt = 1): Promise<number> {
+    return this.feeEstimator.estimate(accounts, attempt);
   }
 
   /**
-   * Send a transaction with optional priority fee
+   * Send a transaction with optional priority fee and return its signature
+   * Throws if the transaction fails or expires without landing
    */
   async sendTransaction(
     instructions: TransactionInstruction[],
     signers: Keypair[] = []
   ): Promise<string> {
+    const outcome = await this.sendInstructions(instructions, signers);
+    if (outcome.status !== 'confirmed') {
+      throw new Error(`Transaction ${describeOutcome(outcome)}`);
+    }
+    return outcome.signature;
+  }
+
+  /**
+   * Send a transaction with optional priority fee and wait for its outcome
+   * A fresh blockhash and priority fee are fetched for every attempt
+   * @param action - Action of the transaction, selecting its submission backend
+   */
+  async sendInstructions(
+    instructions: TransactionInstruction[],
+    signers: Keypair[] = [],
+    action: SubmissionAction = 'other'
+  ): Promise<SendOutcome> {
+    return this.sender.send(async (attempt): Promise<SignedTransaction> => {
+      const transaction = await this.buildTransaction(instructions, attempt);
+      return this.sign(transaction, signers, { action, simulate: false });
+    }, this.backends[action]);
+  }
+
+  /**
+   * Sign and send serialized transactions (e.g. from PumpPortal) and wait for the outcome
+   * @param fetchTransaction - Returns a fresh unsigned transaction paying the given priority fee
+   *                           (in microlamports per compute unit), called again when the previous one expired
+   * @param feeAccounts - Writable accounts the transaction touches, used to estimate the priority fee
+   * @param action - Action of the transaction, selecting its submission backend
+   */
+  async sendSerializedTransaction(
+    fetchTransaction: (priorityFeeMicroLamports: number, attempt: number) => Promise<Buffer>,
+    feeAccounts: PublicKey[],
+    action: SubmissionAction = 'other'
+  ): Promise<SendOutcome> {
+    return this.sender.send(async (attempt) => {
+      const priorityFee = await this.getPriorityFee(feeAccounts, attempt);
+      const transaction = await fetchTransaction(priorityFee, attempt);
+      return readSignedTransaction(await this.signer.signTransaction(transaction, { action, simulate: false }));
+    }, this.backends[action]);
+  }
+
+  /**
+   * Build and sign a transaction like `sendTransaction`, but simulate it instead of sending it
+   * @param action - Action of the transaction, passed on to the signer
+   */
+  async simulateInstructions(
+    instructions: TransactionInstruction[],
+    signers: Keypair[] = [],
+    action: SubmissionAction = 'other'
+  ): Promise<SimulationReport> {
+    const transaction = await this.buildTransaction(instructions);
+    const signed = await this.sign(transaction, signers, { action, simulate: true });
+    return this.simulate(VersionedTransaction.deserialize(signed.serialized));
+  }
+
+  /**
+   * Sign a serialized transaction (e.g. from PumpPortal) and simulate it instead of sending it
+   * @param action - Action of the transaction, passed on to the signer
+   */
+  async simulateSerializedTransaction(txBuffer: Buffer, action: SubmissionAction = 'other'): Promise<SimulationReport> {
+    const signed = await this.signer.signTransaction(txBuffer, { action, simulate: true });
+    // VersionedTransaction deserializes both legacy and v0 messages
+    return this.simulate(VersionedTransaction.deserialize(signed));
+  }
+
+  /**
+   * Sign a built transaction, first with any extra signers held locally, then through the signer
+   */
+  private async sign(transaction: Transaction, signers: Keypair[], request: SignRequest): Promise<SignedTransaction> {
+    if (signers.length > 0) {
+      transaction.partialSign(...signers);
+    }
+    const signed = readSignedTransaction(
+      await this.signer.signTransaction(transaction.serialize({ requireAllSignatures: false }), request)
+    );
+    // A multisig returns a different transaction, whose blockhash expiry is not known here
+    if (signed.blockhash === transaction.recentBlockhash) {
+      signed.lastValidBlockHeight = transaction.lastValidBlockHeight;
+    }
+    return signed;
+  }
+
+  /**
+   * Simulate a transaction and log the outcome
+   * Transactions left unsigned by the signer (multisig proposals) are simulated without signature checks
+   */
+  private async simulate(transaction: VersionedTransaction): Promise<SimulationReport> {
+    const signed = transaction.signatures.every((signature) => signature.some((byte) => byte !== 0));
+    const { value } = await this.connection.simulateTransaction(transaction, {
+      sigVerify: signed,
+      commitment: 'confirmed',
+    });
+
+    const report: SimulationReport = {
+      signature: bs58.encode(transaction.signatures[0]),
+      unitsConsumed: value.unitsConsumed ?? null,
+      error: value.err ? JSON.stringify(value.err) : null,
+      logs: value.logs || [],
+    };
+
+    if (report.error) {
+      logger.error(`[SIMULATED] Transaction would fail: ${report.error}`);
+      for (const line of report.logs) {
+        logger.info(`  ${line}`);
+      }
+    } else {
+      logger.info(`[SIMULATED] Transaction would succeed using ${report.unitsConsumed ?? '?'} compute units`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Build an unsigned transaction with optional priority fee
+   * @param attempt - Attempt number of the transaction, later attempts pay a higher priority fee
+   */
+  private async buildTransaction(
+    instructions: TransactionInstruction[],
+    attempt = 1
+  ): Promise<Transaction> {
     const transaction = new Transaction();
 
-    // Add priority fee if configured
-    if (this.config.usePriorityFee) {
+    // Add priority fee if configured, estimated from the accounts the instructions write to
+    const priorityFee = await this.getPriorityFee(getWritableAccounts(instructions), attempt);
+    if (priorityFee > 0) {
       const priorityFeeInstruction = ComputeBudgetProgram.setComputeUnitPrice({
-        microLamports: this.config.priorityFeeMicroLamports,
+        microLamports: priorityFee,
       });
       transaction.add(priorityFeeInstruction);
     }
@@ -93,20 +254,30 @@ export class WalletManager {
     }
 
     // Get recent blockhash
-    const { blockhash } = await this.connection.getLatestBlockhash();
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash();
     transaction.recentBlockhash = blockhash;
-    transaction.feePayer = this.keypair.publicKey;
-
-    // Sign and send transaction
-    const allSigners = [this.keypair, ...signers];
-    const signature = await sendAndConfirmTransaction(
-      this.connection,
-      transaction,
-      allSigners,
-      { commitment: 'confirmed' }
-    );
+    transaction.lastValidBlockHeight = lastValidBlockHeight;
+    transaction.feePayer = this.getPublicKey();
 
-    return signature;
+    return transaction;
+  }
+
+  /**
+   * Fetch a confirmed transaction and read its balance changes from the metadata
+   * Retries briefly since the transaction may not be queryable right after confirmation
+   */
+  async getTransactionBalances(signature: string, attempts = 5): Promise<TransactionBalances> {
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const tx = await this.connection.getTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+      if (tx && tx.meta) {
+        return new TransactionBalances(tx, this.getPublicKey());
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+    }
+    throw new Error(`Transaction ${signature} not found after ${attempts} attempts`);
   }
 
   /**
@@ -119,6 +290,69 @@ export class WalletManager {
   }
 }
 
+/**
+ * Balance changes of a confirmed transaction, read from its pre/post balances
+ * All SOL amounts are in lamports
+ */
+export class TransactionBalances {
+  private tx: VersionedTransactionResponse;
+  private wallet: PublicKey;
+  private accountKeys: PublicKey[];
+
+  constructor(tx: VersionedTransactionResponse, wallet: PublicKey) {
+    this.tx = tx;
+    this.wallet = wallet;
+
+    const keys = tx.transaction.message.getAccountKeys({
+      accountKeysFromLookups: tx.meta?.loadedAddresses,
+    });
+    this.accountKeys = [
+      ...keys.staticAccountKeys,
+      ...(keys.accountKeysFromLookups?.writable || []),
+      ...(keys.accountKeysFromLookups?.readonly || []),
+    ];
+  }
+
+  /**
+   * Network fee paid by the transaction (base fee + priority fee)
+   */
+  get fee(): number {
+    return this.tx.meta?.fee ?? 0;
+  }
+
+  /**
+   * Net lamport change of the wallet, excluding the network fee if the wallet paid it
+   * (a multisig vault's transactions are paid for by the executing member)
+   */
+  get walletChange(): number {
+    const fee = this.accountKeys[0]?.equals(this.wallet) ? this.fee : 0;
+    return (this.getLamportChange(this.wallet) ?? 0) + fee;
+  }
+
+  /**
+   * Net lamport change of an account, or null if the transaction did not touch it
+   */
+  getLamportChange(account: PublicKey): number | null {
+    const index = this.accountKeys.findIndex((key) => key.equals(account));
+    if (index === -1 || !this.tx.meta) {
+      return null;
+    }
+    return this.tx.meta.postBalances[index] - this.tx.meta.preBalances[index];
+  }
+
+  /**
+   * Net change of an owner's token balance for a mint (raw token units)
+   */
+  getTokenChange(mint: PublicKey, owner: PublicKey = this.wallet): bigint {
+    const sum = (balances: TokenBalance[] | null | undefined): bigint =>
+      (balances || [])
+        .filter((balance) => balance.mint === mint.toBase58() && balance.owner === owner.toBase58())
+        .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), 0n);
+
+    return sum(this.tx.meta?.postTokenBalances) - sum(this.tx.meta?.preTokenBalances);
+  }
+}
+
 /**
  * Format SOL amount for display
  */
@@ -132,3 +366,11 @@ export function formatSol(lamports: number): string {
 export function solToLamports(sol: number): number {
   return Math.floor(sol * LAMPORTS_PER_SOL);
 }
+
+/**
+ * Convert a SOL amount that was itself computed from lamports back to lamports
+ * Rounds to the nearest lamport so the amount survives the round trip.
+ */
+export function roundSolToLamports(sol: number): number {
+  return Math.round(sol * LAMPORTS_PER_SOL);
+}
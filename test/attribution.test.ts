@@ -0,0 +1,69 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { PUMPFUN_CONSTANTS } from '../src/config';
+import { readCreatorFees } from '../src/services/attribution';
+import { TEST_MINT, loadTestConfig } from './helpers';
+
+const pumpfun = loadTestConfig().network.programs.pumpfun;
+const creator = Keypair.generate().publicKey;
+const other = Keypair.generate().publicKey;
+
+// pump.fun TradeEvent for TEST_MINT paying `creatorFee` lamports to the creator
+const tradeEvent = (creatorFee: number) => {
+  const event = Buffer.alloc(266);
+  PUMPFUN_CONSTANTS.TRADE_EVENT_DISCRIMINATOR.copy(event, 0);
+  TEST_MINT.toBuffer().copy(event, 8);
+  creator.toBuffer().copy(event, 177);
+  event.writeBigUInt64LE(BigInt(creatorFee), 217);
+  return event;
+};
+
+// Successful transaction calling pump.fun and another program, with the given logs and self-CPI events
+const transaction = (logMessages: string[], selfCpiEvents: Buffer[] = []) => {
+  const message = new TransactionMessage({
+    payerKey: Keypair.generate().publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [pumpfun, other].map(
+      (programId) => new TransactionInstruction({ programId, keys: [], data: Buffer.alloc(0) })
+    ),
+  }).compileToV0Message();
+  const pumpfunIndex = message.staticAccountKeys.findIndex((key) => key.equals(pumpfun));
+  const innerInstructions = [
+    {
+      index: 0,
+      instructions: selfCpiEvents.map((event) => ({
+        programIdIndex: pumpfunIndex,
+        accounts: [],
+        data: bs58.encode(Buffer.concat([PUMPFUN_CONSTANTS.EVENT_IX_TAG, event])),
+      })),
+    },
+  ];
+  return {
+    meta: { err: null, logMessages, innerInstructions, loadedAddresses: { writable: [], readonly: [] } },
+    transaction: { message },
+  } as unknown as VersionedTransactionResponse;
+};
+
+const logged = (program: PublicKey, event: Buffer) => [
+  `Program ${program.toBase58()} invoke [1]`,
+  `Program data: ${event.toString('base64')}`,
+  `Program ${program.toBase58()} success`,
+];
+
+test('a trade event emitted through self-CPI and logged is counted once', () => {
+  const event = tradeEvent(5_000);
+  assert.equal(readCreatorFees(transaction(logged(pumpfun, event), [event]), TEST_MINT, creator, pumpfun), 5_000);
+});
+
+test('logged trade events only count inside the pump.fun program', () => {
+  const logs = [...logged(pumpfun, tradeEvent(5_000)), ...logged(other, tradeEvent(7_000))];
+  assert.equal(readCreatorFees(transaction(logs), TEST_MINT, creator, pumpfun), 5_000);
+});
@@ -0,0 +1,105 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, LAMPORTS_PER_SOL, TransactionInstruction } from '@solana/web3.js';
+import { BuybackService } from '../src/services/buyback';
+import { CycleRunner } from '../src/services/cycle-runner';
+import { PumpFunService } from '../src/services/pumpfun';
+import { PumpSwapService } from '../src/services/pumpswap';
+import { TokenBuyback } from '../src/services/token-buyback';
+import { CycleLedger, CycleRecord } from '../src/utils/ledger';
+import { WalletManager } from '../src/utils/wallet';
+import { loadTestConfig } from './helpers';
+
+/**
+ * Buyback service over one token whose buys are recorded instead of sent
+ */
+function manualBuybackService(balanceSol: number) {
+  const config = loadTestConfig();
+  const wallet = { getBalance: async () => balanceSol } as unknown as WalletManager;
+  const token = new TokenBuyback(wallet, config, {} as PumpFunService, {} as PumpSwapService);
+  const buys: number[] = [];
+  token.buyTokens = async (solAmount: number) => {
+    buys.push(solAmount);
+    return { signature: 'sig', solSpent: solAmount, tokensReceived: 1n, networkFee: 0 };
+  };
+  return { service: new BuybackService(wallet, config, [token]), token, buys };
+}
+
+test('a manual buyback fits in the balance left over after the fee buffer', async () => {
+  const { service, buys } = manualBuybackService(1.01);
+  assert.ok(await service.executeBuybackWithAmount(1));
+  assert.deepEqual(buys, [1]);
+});
+
+test('a manual buyback does not spend the pending balance or owed allocation shares', async () => {
+  const { service, token, buys } = manualBuybackService(1.5);
+  token.setPendingLamports(0.3 * LAMPORTS_PER_SOL);
+  service.setOwedAllocations({ treasury: 0.2 * LAMPORTS_PER_SOL });
+
+  assert.equal(await service.executeBuybackWithAmount(1), null);
+  assert.ok(await service.executeBuybackWithAmount(0.99));
+  assert.deepEqual(buys, [0.99]);
+});
+
+/**
+ * Cycle runner over one token whose vault holds `claimableSol` and whose buy step throws
+ * Ledger records are collected instead of written.
+ */
+function failingBuyCycle(claimableSol: number, env: Record<string, string> = {}) {
+  const config = loadTestConfig(env);
+  const transfers: number[] = [];
+  const wallet = {
+    getPublicKey: () => Keypair.generate().publicKey,
+    getBalance: async () => 10,
+    hasSufficientBalance: async () => true,
+    sendTransaction: async (instructions: TransactionInstruction[]) => {
+      transfers.push(Number(instructions[0].data.readBigUInt64LE(4)));
+      return `transfer-sig-${transfers.length}`;
+    },
+    getTransactionBalances: async () => ({ fee: 5_000 }),
+  } as unknown as WalletManager;
+  const pumpfun = {
+    getClaimableFees: async () => claimableSol,
+    claimFees: async (claimable: number) => ({ signature: 'claim-sig', amount: claimable, networkFee: 0.000005 }),
+  } as unknown as PumpFunService;
+  const token = new TokenBuyback(wallet, config, pumpfun, {} as PumpSwapService);
+  token.buyback = async () => {
+    throw new Error('RPC unavailable');
+  };
+  const service = new BuybackService(wallet, config, [token]);
+  const records: CycleRecord[] = [];
+  const ledger = { append: async (record: CycleRecord) => void records.push(record) } as unknown as CycleLedger;
+  return { runner: new CycleRunner(service, ledger, false), service, records, transfers };
+}
+
+test('a cycle failing after its claim keeps the claim in its ledger record', async () => {
+  const { runner, records } = failingBuyCycle(0.5);
+  const record = await runner.runCycle();
+
+  assert.equal(record.status, 'error');
+  assert.equal(record.failureReason, 'RPC unavailable');
+  assert.equal(record.claimSignature, 'claim-sig');
+  assert.equal(record.claimedLamports, 0.5 * LAMPORTS_PER_SOL);
+  assert.equal(record.pendingLamports, 0.5 * LAMPORTS_PER_SOL);
+  assert.deepEqual(records, [record]);
+});
+
+test('allocation shares sent before a failed buy are recorded and no longer owed', async () => {
+  const treasury = Keypair.generate().publicKey.toBase58();
+  const { runner, service, transfers } = failingBuyCycle(1, { FEE_ALLOCATIONS: `treasury:20%:${treasury}` });
+  service.setOwedAllocations({ treasury: 0.1 * LAMPORTS_PER_SOL });
+  const record = await runner.runCycle();
+
+  assert.equal(record.status, 'error');
+  assert.deepEqual(transfers, [0.1 * LAMPORTS_PER_SOL, 0.2 * LAMPORTS_PER_SOL]);
+  assert.deepEqual(
+    record.allocations?.map((allocation) => [allocation.lamports, allocation.signature, allocation.retry]),
+    [
+      [0.1 * LAMPORTS_PER_SOL, 'transfer-sig-1', true],
+      [0.2 * LAMPORTS_PER_SOL, 'transfer-sig-2', undefined],
+    ]
+  );
+  assert.equal(record.owedAllocations, undefined);
+  assert.deepEqual(service.getOwedAllocations(), {});
+  assert.equal(record.pendingLamports, 0.8 * LAMPORTS_PER_SOL);
+});
@@ -0,0 +1,48 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { loadTestConfig } from './helpers';
+
+const twapTokens = (windows: number[]) =>
+  JSON.stringify(
+    windows.map((twapWindowMinutes) => ({ mint: Keypair.generate().publicKey.toBase58(), twapWindowMinutes }))
+  );
+
+test('the TWAP windows of all tokens must fit in one check interval', () => {
+  const env = { EXECUTION_MODE: 'twap', CHECK_INTERVAL_MINUTES: '10' };
+
+  assert.doesNotThrow(() => loadTestConfig({ ...env, TOKENS: twapTokens([4, 5]) }));
+  assert.throws(
+    () => loadTestConfig({ ...env, TOKENS: twapTokens([4, 6]) }),
+    /TWAP windows of all tokens add up to 10 minutes/
+  );
+});
+
+test('tokens bought at market do not count towards the TWAP windows', () => {
+  const tokens = JSON.parse(twapTokens([6, 6]));
+  tokens[1].executionMode = 'market';
+
+  assert.doesNotThrow(() =>
+    loadTestConfig({ EXECUTION_MODE: 'twap', CHECK_INTERVAL_MINUTES: '10', TOKENS: JSON.stringify(tokens) })
+  );
+});
+
+test('API tokens are refused in the config file like the private key', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'buyback-config-'));
+  for (const [key, name] of [
+    ['walletPrivateKey', 'WALLET_PRIVATE_KEY'],
+    ['remoteSignerToken', 'REMOTE_SIGNER_TOKEN'],
+    ['controlApiToken', 'CONTROL_API_TOKEN'],
+    ['telegramBotToken', 'TELEGRAM_BOT_TOKEN'],
+  ]) {
+    const file = path.join(dir, `${key}.yaml`);
+    fs.writeFileSync(file, `${key}: secret-value-0123456789\n`);
+    assert.throws(
+      () => loadTestConfig({ CONFIG_FILE: file }),
+      new RegExp(`${name} cannot be set in .* - keep it in the environment`)
+    );
+  }
+});
@@ -0,0 +1,88 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'net';
+import axios from 'axios';
+import { BuybackService } from '../src/services/buyback';
+import { ControlServer } from '../src/services/control';
+import { CycleRunner } from '../src/services/cycle-runner';
+import { PumpFunService } from '../src/services/pumpfun';
+import { PumpSwapService } from '../src/services/pumpswap';
+import { TokenBuyback } from '../src/services/token-buyback';
+import { AuditEntry, AuditLog } from '../src/utils/audit';
+import { TEST_MINT, loadTestConfig, stubWallet } from './helpers';
+
+const TOKEN = 'control-test-token-0123456789';
+
+const freePort = () =>
+  new Promise<number>((resolve) => {
+    const server = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+
+/**
+ * Run a control server over one token, with manual buybacks recorded instead of run
+ */
+const withControlServer = async (
+  audit: Pick<AuditLog, 'append'>,
+  run: (url: string, token: TokenBuyback, buys: number[]) => Promise<void>
+) => {
+  const port = await freePort();
+  const config = loadTestConfig({ CONTROL_PORT: String(port), CONTROL_API_TOKEN: TOKEN });
+  const wallet = stubWallet();
+  const token = new TokenBuyback(wallet, config, {} as PumpFunService, {} as PumpSwapService);
+  const buys: number[] = [];
+  const runner = {
+    runManualBuyback: async (sol: number) => {
+      buys.push(sol);
+      return { status: 'success' };
+    },
+  } as unknown as CycleRunner;
+  const server = new ControlServer(
+    config,
+    wallet,
+    new BuybackService(wallet, config, [token]),
+    runner,
+    audit as AuditLog,
+    () => ({})
+  );
+  await server.start();
+  try {
+    await run(`http://127.0.0.1:${port}`, token, buys);
+  } finally {
+    await server.stop();
+  }
+};
+
+const post = (url: string, body: unknown, token = TOKEN) =>
+  axios.post(url, body, { headers: { Authorization: `Bearer ${token}` }, validateStatus: () => true });
+
+test('a manual buyback of a paused token is refused with 409', async () => {
+  const entries: Omit<AuditEntry, 'time'>[] = [];
+  await withControlServer({ append: async (entry) => void entries.push(entry) }, async (url, token, buys) => {
+    token.pause('token is migrating to PumpSwap');
+    const paused = await post(`${url}/buyback`, { sol: 0.1, mint: TEST_MINT.toBase58() });
+    assert.equal(paused.status, 409);
+    assert.match(paused.data.error, /paused: token is migrating to PumpSwap/);
+    assert.deepEqual(buys, []);
+    assert.equal(entries[0].outcome, 'rejected');
+
+    token.resume();
+    assert.equal((await post(`${url}/buyback`, { sol: 0.1 })).status, 200);
+    assert.deepEqual(buys, [0.1]);
+  });
+});
+
+test('a failing audit log is answered with 500 instead of crashing the bot', async () => {
+  const audit = {
+    append: async () => {
+      throw new Error('ENOSPC: no space left on device');
+    },
+  };
+  await withControlServer(audit, async (url) => {
+    const unauthorized = await post(`${url}/buyback`, { sol: 0.1 }, 'wrong-token');
+    assert.equal(unauthorized.status, 500);
+    assert.deepEqual(unauthorized.data, { error: 'Internal error' });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Shared fixtures for the unit tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BotConfig, loadConfig } from '../src/config';
+import { SignedTransaction } from '../src/utils/sender';
+import { WalletManager } from '../src/utils/wallet';
+
+// Token mint used by the tests (any valid public key)
+export const TEST_MINT = new PublicKey('7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr');
+
+/**
+ * Load the configuration from the given settings on top of a minimal valid environment
+ * The process environment is restored afterwards.
+ */
+export function loadTestConfig(env: Record<string, string> = {}): BotConfig {
+  const saved = process.env;
+  process.env = {
+    WALLET_PRIVATE_KEY: 'unused-by-loadConfig',
+    TOKEN_MINT_ADDRESS: TEST_MINT.toBase58(),
+    ...env,
+  };
+  try {
+    return loadConfig();
+  } finally {
+    process.env = saved;
+  }
+}
+
+/**
+ * Wallet exposing only a public key (and optionally a connection), for code that builds instructions
+ */
+export function stubWallet(publicKey: PublicKey = Keypair.generate().publicKey, connection?: unknown): WalletManager {
+  return {
+    getPublicKey: () => publicKey,
+    getConnection: () => connection,
+  } as unknown as WalletManager;
+}
+
+/**
+ * A JSON-RPC request received by a stand-in server
+ */
+export interface JsonRpcRequest {
+  method: string;
+  params: any[];
+}
+
+/**
+ * Local HTTP server answering JSON-RPC requests, standing in for RPC and bundle endpoints
+ */
+export interface JsonRpcServer {
+  url: string;
+  requests: JsonRpcRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a stand-in JSON-RPC server on a free local port
+ * @param answer - Returns `{ result }` or `{ error }` for each request
+ */
+export async function startJsonRpcServer(
+  answer: (request: JsonRpcRequest) => { result: unknown } | { error: { code: number; message: string } }
+): Promise<JsonRpcServer> {
+  const requests: JsonRpcRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const request = JSON.parse(body);
+      requests.push({ method: request.method, params: request.params });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, ...answer(request) }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Build a signed SOL transfer from a payer, with a made-up blockhash
+ */
+export function signedTransfer(payer: Keypair = Keypair.generate(), lamports = 1_000): SignedTransaction {
+  const blockhash = Keypair.generate().publicKey.toBase58();
+  const transaction = new Transaction({ feePayer: payer.publicKey, recentBlockhash: blockhash }).add(
+    SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: Keypair.generate().publicKey, lamports })
+  );
+  transaction.sign(payer);
+  return {
+    serialized: transaction.serialize(),
+    signature: bs58.encode(transaction.signature!),
+    blockhash,
+  };
+}
@@ -0,0 +1,22 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { logger } from '../src/utils/logger';
+import { signedTransfer } from './helpers';
+
+test('base58 secret keys are redacted, transaction signatures of the same size are not', () => {
+  const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'buyback-logger-')), 'bot.log');
+  logger.configure({ format: 'text', filePath, maxFileBytes: 1024 * 1024, maxFiles: 0, secrets: [] });
+
+  const secretKey = bs58.encode(Keypair.generate().secretKey);
+  const { signature } = signedTransfer();
+  logger.info(`Loaded key ${secretKey} and sent ${signature}`);
+
+  const line = fs.readFileSync(filePath, 'utf8');
+  assert.ok(!line.includes(secretKey));
+  assert.match(line, new RegExp(`Loaded key \\[REDACTED\\] and sent ${signature}`));
+});
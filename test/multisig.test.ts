@@ -0,0 +1,209 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { MultisigSigner } from '../src/utils/multisig';
+import { KeypairSigner, SignRequest } from '../src/utils/signer';
+
+const SQUADS = new PublicKey('SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf');
+const STATUSES = ['draft', 'active', 'rejected', 'approved', 'executing', 'executed', 'cancelled'];
+
+const discriminator = (name: string) => crypto.createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+const u64 = (value: bigint) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+};
+
+/**
+ * Connection standing in for an RPC node with a Squads multisig whose other members approve on request
+ */
+class FakeSquads {
+  readonly multisig = Keypair.generate().publicKey;
+  transactionIndex = 0n;
+  proposals = new Map<bigint, string>();
+  // Status a proposal gets once the bot's member approves it
+  statusAfterApproval = 'approved';
+
+  constructor(private members: { key: PublicKey; permissions: number }[]) {}
+
+  proposalPda(index: bigint): PublicKey {
+    const seeds = [Buffer.from('transaction'), u64(index), Buffer.from('proposal')];
+    return PublicKey.findProgramAddressSync([Buffer.from('multisig'), this.multisig.toBuffer(), ...seeds], SQUADS)[0];
+  }
+
+  connection(): Connection {
+    return {
+      getAccountInfo: async (address: PublicKey) => {
+        if (address.equals(this.multisig)) {
+          return { owner: SQUADS, data: this.encodeMultisig(), lamports: 1, executable: false };
+        }
+        for (const [index, status] of this.proposals) {
+          if (address.equals(this.proposalPda(index))) {
+            const data = Buffer.alloc(57);
+            data[48] = STATUSES.indexOf(status);
+            return { owner: SQUADS, data, lamports: 1, executable: false };
+          }
+        }
+        return null;
+      },
+      getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1 }),
+      sendRawTransaction: async (raw: Buffer) => {
+        const transaction = Transaction.from(raw);
+        assert.ok(transaction.verifySignatures(), 'member transactions are signed');
+        for (const instruction of transaction.instructions) {
+          const name = instruction.data.subarray(0, 8);
+          if (name.equals(discriminator('vault_transaction_create'))) {
+            this.transactionIndex++;
+          } else if (name.equals(discriminator('proposal_create'))) {
+            this.proposals.set(instruction.data.readBigUInt64LE(8), 'active');
+          } else if (name.equals(discriminator('proposal_approve'))) {
+            this.proposals.set(this.transactionIndex, this.statusAfterApproval);
+          }
+        }
+        return 'member-signature';
+      },
+      confirmTransaction: async () => ({ context: { slot: 1 }, value: { err: null } }),
+    } as unknown as Connection;
+  }
+
+  private encodeMultisig(): Buffer {
+    const header = Buffer.alloc(8 + 32 + 32 + 2 + 4 + 8 + 8 + 1 + 1 + 4);
+    let offset = 8 + 32 + 32;
+    header.writeUInt16LE(2, offset);
+    header.writeUInt32LE(0, offset + 2);
+    header.writeBigUInt64LE(this.transactionIndex, offset + 6);
+    offset += 2 + 4 + 8 + 8;
+    // No rent collector, then the bump
+    offset += 2;
+    header.writeUInt32LE(this.members.length, offset);
+    return Buffer.concat([
+      header,
+      ...this.members.map((member) => Buffer.concat([member.key.toBuffer(), Buffer.from([member.permissions])])),
+    ]);
+  }
+}
+
+const setup = async (approvalTimeoutMs = 60_000) => {
+  const member = Keypair.generate();
+  const squads = new FakeSquads([
+    { key: member.publicKey, permissions: 7 },
+    { key: Keypair.generate().publicKey, permissions: 2 },
+  ]);
+  const signer = await MultisigSigner.connect(squads.connection(), new KeypairSigner(member.secretKey), {
+    programId: SQUADS,
+    multisig: squads.multisig,
+    vaultIndex: 0,
+    approvalTimeoutMs,
+  });
+  return { member, squads, signer };
+};
+
+// A transaction paid by the vault, moving `lamports` with a priority fee
+const vaultTransaction = (vault: PublicKey, lamports: number) =>
+  new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: vault,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000 }),
+        SystemProgram.transfer({ fromPubkey: vault, toPubkey: SystemProgram.programId, lamports }),
+      ],
+    }).compileToV0Message()
+  ).serialize();
+
+const buy: SignRequest = { action: 'buy', simulate: false };
+
+test('the member must be able to propose, approve and execute', async () => {
+  const member = Keypair.generate();
+  const squads = new FakeSquads([{ key: member.publicKey, permissions: 2 }]);
+  await assert.rejects(
+    MultisigSigner.connect(squads.connection(), new KeypairSigner(member.secretKey), {
+      programId: SQUADS,
+      multisig: squads.multisig,
+      vaultIndex: 0,
+      approvalTimeoutMs: 0,
+    }),
+    /initiate, vote and execute permissions/
+  );
+});
+
+test('an approved proposal is executed by the member, with the priority fee moved out of the vault', async () => {
+  const { member, squads, signer } = await setup();
+  const executed = Transaction.from(await signer.signTransaction(vaultTransaction(signer.getPublicKey(), 1_000), buy));
+
+  assert.equal(squads.transactionIndex, 1n);
+  assert.ok(executed.feePayer!.equals(member.publicKey));
+  assert.ok(executed.verifySignatures());
+  assert.ok(executed.instructions[0].programId.equals(ComputeBudgetProgram.programId));
+  const execute = executed.instructions[1];
+  assert.ok(execute.data.equals(discriminator('vault_transaction_execute')));
+  assert.ok(execute.keys[1].pubkey.equals(squads.proposalPda(1n)));
+});
+
+test('a rebroadcast of the same transaction reuses its open proposal', async () => {
+  const { squads, signer } = await setup();
+  const transaction = vaultTransaction(signer.getPublicKey(), 1_000);
+
+  await signer.signTransaction(transaction, buy);
+  await signer.signTransaction(transaction, buy);
+  assert.equal(squads.transactionIndex, 1n);
+});
+
+test('a retried buy is not proposed while the earlier buy proposal is open', async () => {
+  const { squads, signer } = await setup();
+  await signer.signTransaction(vaultTransaction(signer.getPublicKey(), 1_000), buy);
+
+  // Same buy with a fresh quote
+  await assert.rejects(
+    signer.signTransaction(vaultTransaction(signer.getPublicKey(), 1_001), buy),
+    /proposal #1 for an earlier buy is still approved/
+  );
+  assert.equal(squads.transactionIndex, 1n);
+
+  // Other actions are not held up
+  await signer.signTransaction(vaultTransaction(signer.getPublicKey(), 1_002), { action: 'claim', simulate: false });
+  assert.equal(squads.transactionIndex, 2n);
+
+  // Once executed, the next buy is proposed
+  squads.proposals.set(1n, 'executed');
+  await signer.signTransaction(vaultTransaction(signer.getPublicKey(), 1_003), buy);
+  assert.equal(squads.transactionIndex, 3n);
+});
+
+test('a proposal that is not approved in time stays open and blocks the next buy', async () => {
+  const { squads, signer } = await setup(0);
+  squads.statusAfterApproval = 'active';
+
+  await assert.rejects(
+    signer.signTransaction(vaultTransaction(signer.getPublicKey(), 1_000), buy),
+    /proposal #1 was not executable within/
+  );
+  await assert.rejects(
+    signer.signTransaction(vaultTransaction(signer.getPublicKey(), 1_001), buy),
+    /proposal #1 for an earlier buy is still active/
+  );
+
+  squads.proposals.set(1n, 'rejected');
+  squads.statusAfterApproval = 'approved';
+  await signer.signTransaction(vaultTransaction(signer.getPublicKey(), 1_001), buy);
+  assert.equal(squads.transactionIndex, 2n);
+});
+
+test('simulated transactions are returned unsigned without a proposal', async () => {
+  const { squads, signer } = await setup();
+  const transaction = vaultTransaction(signer.getPublicKey(), 1_000);
+
+  const returned = await signer.signTransaction(transaction, { action: 'buy', simulate: true });
+  assert.ok(returned.equals(Buffer.from(transaction)));
+  assert.equal(squads.transactionIndex, 0n);
+});
@@ -0,0 +1,34 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProcessLock } from '../src/utils/process-lock';
+
+const lockPath = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'buyback-lock-')), 'ledger.jsonl.lock');
+
+test('a held lock is refused to other holders until released', () => {
+  const filePath = lockPath();
+  const lock = new ProcessLock(filePath);
+  lock.acquire();
+  assert.equal(fs.readFileSync(filePath, 'utf8').trim(), String(process.pid));
+
+  assert.throws(() => new ProcessLock(filePath).acquire(), /held by running process/);
+
+  lock.release();
+  assert.equal(fs.existsSync(filePath), false);
+  const next = new ProcessLock(filePath);
+  next.acquire();
+  next.release();
+});
+
+test('a lock left by a process that no longer runs is replaced', () => {
+  const filePath = lockPath();
+  // Above the highest PID Linux hands out
+  fs.writeFileSync(filePath, '999999999\n');
+
+  const lock = new ProcessLock(filePath);
+  lock.acquire();
+  assert.equal(fs.readFileSync(filePath, 'utf8').trim(), String(process.pid));
+  lock.release();
+});
@@ -0,0 +1,102 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, PublicKey, SystemProgram } from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { PUMPFUN_CONSTANTS } from '../src/config';
+import { PumpFunService, maxCostWithSlippage } from '../src/services/pumpfun';
+import { TEST_MINT, loadTestConfig, stubWallet } from './helpers';
+
+const PUMPFUN = new PublicKey('6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P');
+const FEE_PROGRAM = new PublicKey('pfeeUxB6jkeY1Hxd7CsFCAjcbHA9rWtchMGdZ6VojVZ');
+
+const pda = (seeds: Buffer[], programId: PublicKey): PublicKey => PublicKey.findProgramAddressSync(seeds, programId)[0];
+
+test('maxCostWithSlippage adds the slippage to the SOL amount in lamports', () => {
+  assert.equal(maxCostWithSlippage(1, 500), 1_050_000_000n);
+  assert.equal(maxCostWithSlippage(0.123456789, 0), 123_456_789n);
+  // Rounded down at both steps
+  assert.equal(maxCostWithSlippage(0.000000001, 9999), 1n);
+});
+
+test('buildBuyInstruction lays out the pump.fun buy accounts and data', () => {
+  const user = Keypair.generate().publicKey;
+  const creator = Keypair.generate().publicKey;
+  const service = new PumpFunService(stubWallet(user), loadTestConfig());
+
+  const instruction = service.buildBuyInstruction(123_456n, 1_050_000_000n, creator);
+
+  const bondingCurve = pda([Buffer.from('bonding-curve'), TEST_MINT.toBuffer()], PUMPFUN);
+  const expected: [PublicKey, boolean, boolean][] = [
+    [new PublicKey('4wTV1YmiEkRvAtNtsSGPtUrqRYQMe5SKy2uB4Jjaxnjf'), false, false],
+    [new PublicKey('CebN5WGQ4jvEPvsVU4EoHEpgzq1VV7AbicfhtW4xC9iM'), false, true],
+    [TEST_MINT, false, false],
+    [bondingCurve, false, true],
+    [getAssociatedTokenAddressSync(TEST_MINT, bondingCurve, true), false, true],
+    [getAssociatedTokenAddressSync(TEST_MINT, user), false, true],
+    [user, true, true],
+    [SystemProgram.programId, false, false],
+    [TOKEN_PROGRAM_ID, false, false],
+    [pda([Buffer.from('creator-vault'), creator.toBuffer()], PUMPFUN), false, true],
+    [pda([Buffer.from('__event_authority')], PUMPFUN), false, false],
+    [PUMPFUN, false, false],
+    [pda([Buffer.from('global_volume_accumulator')], PUMPFUN), false, true],
+    [pda([Buffer.from('user_volume_accumulator'), user.toBuffer()], PUMPFUN), false, true],
+    [pda([Buffer.from('fee_config'), PUMPFUN.toBuffer()], FEE_PROGRAM), false, false],
+    [FEE_PROGRAM, false, false],
+  ];
+
+  assert.ok(instruction.programId.equals(PUMPFUN));
+  assert.deepEqual(
+    instruction.keys.map((key) => [key.pubkey.toBase58(), key.isSigner, key.isWritable]),
+    expected.map(([pubkey, isSigner, isWritable]) => [pubkey.toBase58(), isSigner, isWritable])
+  );
+
+  const data = instruction.data;
+  assert.equal(data.length, 25);
+  assert.deepEqual(data.subarray(0, 8), PUMPFUN_CONSTANTS.BUY_DISCRIMINATOR);
+  assert.equal(data.readBigUInt64LE(8), 123_456n);
+  assert.equal(data.readBigUInt64LE(16), 1_050_000_000n);
+  assert.equal(data.readUInt8(24), 0);
+});
+
+test('getBondingCurveTokenAccount is the curve ATA under the configured token programs', () => {
+  const service = new PumpFunService(stubWallet(), loadTestConfig());
+  const bondingCurve = service.getBondingCurvePDA();
+  const expected = getAssociatedTokenAddressSync(
+    TEST_MINT,
+    bondingCurve,
+    true,
+    TOKEN_PROGRAM_ID,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  assert.ok(service.getBondingCurveTokenAccount().equals(expected));
+});
+
+test('buildBuyInstruction follows program ID overrides', () => {
+  const override = Keypair.generate().publicKey;
+  const config = loadTestConfig({ CLUSTER: 'localnet', BUY_METHOD: 'native', PUMPFUN_PROGRAM_ID: override.toBase58() });
+  const service = new PumpFunService(stubWallet(), config);
+  const instruction = service.buildBuyInstruction(1n, 1n, Keypair.generate().publicKey);
+  assert.ok(instruction.programId.equals(override));
+  assert.ok(instruction.keys[11].pubkey.equals(override));
+});
+
+test('hasGraduated only reports graduation for a complete or missing curve', async () => {
+  const curve = (complete: boolean) => {
+    const data = Buffer.alloc(81);
+    data.writeUInt8(complete ? 1 : 0, 48);
+    return { data };
+  };
+  const serviceWith = (getAccountInfo: () => Promise<unknown>) =>
+    new PumpFunService(stubWallet(undefined, { getAccountInfo }), loadTestConfig());
+
+  assert.equal(await serviceWith(async () => curve(false)).hasGraduated(), false);
+  assert.equal(await serviceWith(async () => curve(true)).hasGraduated(), true);
+  assert.equal(await serviceWith(async () => null).hasGraduated(), true);
+  await assert.rejects(
+    serviceWith(async () => {
+      throw new Error('fetch failed');
+    }).hasGraduated(),
+    /fetch failed/
+  );
+});
@@ -0,0 +1,38 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { ACCOUNT_SIZE, AccountLayout, NATIVE_MINT } from '@solana/spl-token';
+import { PumpSwapService } from '../src/services/pumpswap';
+import { loadTestConfig, stubWallet } from './helpers';
+
+const serviceWith = (getAccountInfo: () => Promise<unknown>) =>
+  new PumpSwapService(stubWallet(undefined, { getAccountInfo }), loadTestConfig());
+
+test('getClaimableFees reads the creator vault balance, and 0 only for a missing vault', async () => {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint: NATIVE_MINT,
+      owner: Keypair.generate().publicKey,
+      amount: 1_500_000_000n,
+      delegateOption: 0,
+      delegate: NATIVE_MINT,
+      state: 1,
+      isNativeOption: 1,
+      isNative: 2_039_280n,
+      delegatedAmount: 0n,
+      closeAuthorityOption: 0,
+      closeAuthority: NATIVE_MINT,
+    },
+    data
+  );
+
+  assert.equal(await serviceWith(async () => ({ data })).getClaimableFees(), 1.5);
+  assert.equal(await serviceWith(async () => null).getClaimableFees(), 0);
+  await assert.rejects(
+    serviceWith(async () => {
+      throw new Error('503 Service Unavailable');
+    }).getClaimableFees(),
+    /503/
+  );
+});
@@ -0,0 +1,37 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection } from '@solana/web3.js';
+import { TransactionSender } from '../src/utils/sender';
+import { SubmissionBackend } from '../src/utils/submission';
+import { signedTransfer } from './helpers';
+
+test('a transaction whose first broadcast throws a network error is followed until it confirms', async () => {
+  const transaction = signedTransfer();
+  const checked: string[][] = [];
+  const connection = {
+    getSignatureStatuses: async (signatures: string[]) => {
+      checked.push(signatures);
+      return {
+        context: { slot: 1 },
+        value: [{ slot: 1, confirmations: 1, err: null, confirmationStatus: 'confirmed' }],
+      };
+    },
+  } as unknown as Connection;
+  let builds = 0;
+  const backend: SubmissionBackend = {
+    name: 'rpc',
+    submit: async () => {
+      throw new Error('socket hang up');
+    },
+  };
+
+  const sender = new TransactionSender(connection, { maxAttempts: 3, rebroadcastIntervalMs: 1 });
+  const outcome = await sender.send(async () => {
+    builds++;
+    return transaction;
+  }, backend);
+
+  assert.deepEqual(outcome, { status: 'confirmed', signature: transaction.signature });
+  assert.equal(builds, 1);
+  assert.deepEqual(checked, [[transaction.signature]]);
+});
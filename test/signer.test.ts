@@ -0,0 +1,147 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { SignerServer } from '../src/signer-server';
+import { KeypairSigner, RemoteSigner, SignRequest, verifySignature } from '../src/utils/signer';
+import { getDefaultAllowedPrograms } from '../src/utils/signing-policy';
+import { loadTestConfig } from './helpers';
+
+const TOKEN = 'signer-test-token-0123456789';
+const request: SignRequest = { action: 'other', simulate: false };
+
+const socketPath = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'buyback-signer-')), 'signer.sock');
+
+// Unsigned transfer paid by `from`
+const transfer = (from: PublicKey, lamports: number) =>
+  new Transaction({
+    feePayer: from,
+    blockhash: Keypair.generate().publicKey.toBase58(),
+    lastValidBlockHeight: 1,
+  })
+    .add(SystemProgram.transfer({ fromPubkey: from, toPubkey: Keypair.generate().publicKey, lamports }))
+    .serialize({ requireAllSignatures: false });
+
+/**
+ * Run a signer service for a new key on a Unix socket
+ */
+const withSignerServer = async (run: (endpoint: string, key: Keypair) => Promise<void>) => {
+  const key = Keypair.generate();
+  const programs = loadTestConfig().network.programs;
+  const server = new SignerServer(
+    new KeypairSigner(Uint8Array.from(key.secretKey)),
+    {
+      allowedPrograms: getDefaultAllowedPrograms(programs),
+      maxLamports: LAMPORTS_PER_SOL,
+      maxWindowLamports: 2 * LAMPORTS_PER_SOL,
+      windowMs: 60 * 60 * 1000,
+      programs,
+    },
+    TOKEN
+  );
+  const address = socketPath();
+  await server.start({ path: address });
+  try {
+    assert.equal(fs.statSync(address).mode & 0o777, 0o600);
+    await run(`unix:${address}`, key);
+  } finally {
+    await server.stop();
+  }
+};
+
+test('the keypair signer signs as its key and clears it on dispose', async () => {
+  const key = Keypair.generate();
+  const secretKey = Uint8Array.from(key.secretKey);
+  const signer = new KeypairSigner(secretKey);
+
+  const signed = VersionedTransaction.deserialize(await signer.signTransaction(transfer(key.publicKey, 1_000)));
+  assert.ok(verifySignature(signed.message.serialize(), signed.signatures[0], key.publicKey));
+
+  signer.dispose();
+  assert.ok(secretKey.every((byte) => byte === 0));
+});
+
+test('the remote signer signs transactions within the service policy', async () => {
+  await withSignerServer(async (endpoint, key) => {
+    const signer = await RemoteSigner.connect(endpoint, TOKEN, key.publicKey.toBase58());
+    assert.ok(signer.getPublicKey().equals(key.publicKey));
+
+    const unsigned = transfer(key.publicKey, 1_000);
+    const signed = VersionedTransaction.deserialize(await signer.signTransaction(unsigned, request));
+    assert.ok(verifySignature(signed.message.serialize(), signed.signatures[0], key.publicKey));
+  });
+});
+
+test('the signer service refuses transactions outside its policy', async () => {
+  await withSignerServer(async (endpoint, key) => {
+    const signer = await RemoteSigner.connect(endpoint, TOKEN, null);
+    await assert.rejects(
+      signer.signTransaction(transfer(key.publicKey, 2 * LAMPORTS_PER_SOL), request),
+      /Remote signer refused the other transaction: Policy violation: .*above the limit/
+    );
+    await assert.rejects(
+      signer.signTransaction(transfer(Keypair.generate().publicKey, 1_000), request),
+      /does not need a signature from/
+    );
+  });
+});
+
+test('the signer service refuses transactions beyond its window limit, not counting simulations', async () => {
+  await withSignerServer(async (endpoint, key) => {
+    const signer = await RemoteSigner.connect(endpoint, TOKEN, null);
+    const sign = (lamports: number, simulate: boolean) =>
+      signer.signTransaction(transfer(key.publicKey, lamports), { action: 'buy', simulate });
+
+    await sign(0.8 * LAMPORTS_PER_SOL, true);
+    await sign(0.8 * LAMPORTS_PER_SOL, false);
+    await sign(0.8 * LAMPORTS_PER_SOL, false);
+    await assert.rejects(sign(0.8 * LAMPORTS_PER_SOL, false), /on top of 1600000000 signed within the window/);
+    await sign(0.4 * LAMPORTS_PER_SOL, false);
+  });
+});
+
+test('the remote signer checks the token and the public key of the service', async () => {
+  await withSignerServer(async (endpoint) => {
+    await assert.rejects(RemoteSigner.connect(endpoint, 'wrong-token-0123456789', null), /Unauthorized/);
+    await assert.rejects(
+      RemoteSigner.connect(endpoint, TOKEN, Keypair.generate().publicKey.toBase58()),
+      /not REMOTE_SIGNER_PUBLIC_KEY/
+    );
+  });
+});
+
+test('the remote signer rejects a signed transaction that differs from the request', async () => {
+  const key = Keypair.generate();
+  // Service signing another transfer than the one it was sent
+  const server = http.createServer((req, res) => {
+    if (req.url === '/public-key') {
+      res.end(JSON.stringify({ publicKey: key.publicKey.toBase58() }));
+      return;
+    }
+    const other = Transaction.from(transfer(key.publicKey, 999));
+    other.sign(key);
+    req.resume();
+    req.on('end', () => res.end(JSON.stringify({ transaction: other.serialize().toString('base64') })));
+  });
+  const address = socketPath();
+  await new Promise<void>((resolve) => server.listen(address, resolve));
+  try {
+    const signer = await RemoteSigner.connect(`unix:${address}`, TOKEN, null);
+    await assert.rejects(
+      signer.signTransaction(transfer(key.publicKey, 1_000), request),
+      /returned a transaction that does not match the request/
+    );
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+});
@@ -0,0 +1,209 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+} from '@solana/web3.js';
+import {
+  NATIVE_MINT,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnCheckedInstruction,
+  createCloseAccountInstruction,
+  createSyncNativeInstruction,
+  createTransferCheckedInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { PUMPFUN_CONSTANTS, PUMPSWAP_CONSTANTS } from '../src/config';
+import {
+  PolicyViolation,
+  SigningPolicy,
+  checkSigningPolicy,
+  getDefaultAllowedPrograms,
+} from '../src/utils/signing-policy';
+import { TEST_MINT, loadTestConfig } from './helpers';
+
+const programs = loadTestConfig().network.programs;
+const policy: SigningPolicy = {
+  allowedPrograms: getDefaultAllowedPrograms(programs),
+  maxLamports: LAMPORTS_PER_SOL,
+  maxWindowLamports: LAMPORTS_PER_SOL,
+  windowMs: 60 * 60 * 1000,
+  programs,
+};
+const signer = Keypair.generate().publicKey;
+const wrappedSol = getAssociatedTokenAddressSync(NATIVE_MINT, signer);
+const stranger = Keypair.generate().publicKey;
+
+const check = (instructions: TransactionInstruction[], lookupTables: AddressLookupTableAccount[] = []) =>
+  checkSigningPolicy(
+    new TransactionMessage({
+      payerKey: signer,
+      recentBlockhash: Keypair.generate().publicKey.toBase58(),
+      instructions,
+    }).compileToV0Message(lookupTables),
+    signer,
+    policy
+  );
+
+// An instruction of `programId` with an Anchor discriminator and two u64 arguments
+const anchorInstruction = (programId: PublicKey, discriminator: number[] | Buffer, first: bigint, second: bigint) => {
+  const data = Buffer.alloc(24);
+  Buffer.from(discriminator).copy(data);
+  data.writeBigUInt64LE(first, 8);
+  data.writeBigUInt64LE(second, 16);
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: signer, isSigner: true, isWritable: true }],
+    data,
+  });
+};
+
+const pumpSwapBuy = (maxQuoteLamports: bigint) =>
+  anchorInstruction(programs.pumpswap, PUMPSWAP_CONSTANTS.BUY_DISCRIMINATOR, 1_000n, maxQuoteLamports);
+
+const wrap = (lamports: number) => [
+  SystemProgram.transfer({ fromPubkey: signer, toPubkey: wrappedSol, lamports }),
+  createSyncNativeInstruction(wrappedSol),
+];
+
+test('a PumpSwap buy counts its maximum quote cost, not the SOL wrapped for it', () => {
+  const summary = check([
+    ...wrap(0.5 * LAMPORTS_PER_SOL),
+    pumpSwapBuy(500_000_000n),
+    createCloseAccountInstruction(wrappedSol, signer, signer),
+  ]);
+  assert.equal(summary.lamports, 500_000_000);
+});
+
+test('SOL wrapped beyond what the transaction\'s buys may spend counts towards the limit', () => {
+  assert.equal(check(wrap(1_000)).lamports, 1_000);
+  assert.equal(check([...wrap(3_000), pumpSwapBuy(1_000n)]).lamports, 3_000);
+  assert.throws(() => check(wrap(2 * LAMPORTS_PER_SOL)), /above the limit/);
+});
+
+test('pump.fun and PumpSwap instructions other than buys and creator fee claims are refused', () => {
+  // PumpSwap `deposit` (LP tokens out, maximum base and quote in) and pump.fun `buy_exact_sol_in`
+  const deposit = anchorInstruction(
+    programs.pumpswap,
+    [242, 35, 198, 137, 82, 225, 242, 182],
+    1n,
+    5n * BigInt(LAMPORTS_PER_SOL)
+  );
+  const buyExactSolIn = anchorInstruction(
+    programs.pumpfun,
+    [56, 252, 116, 8, 158, 223, 205, 95],
+    5n * BigInt(LAMPORTS_PER_SOL),
+    1n
+  );
+  assert.throws(() => check([...wrap(5 * LAMPORTS_PER_SOL), deposit]), /PumpSwap instruction f223c68952e1f2b6 is not/);
+  assert.throws(() => check([buyExactSolIn]), /pump.fun instruction 38fc74089edfcd5f is not allowed/);
+
+  const claim = anchorInstruction(programs.pumpfun, PUMPFUN_CONSTANTS.COLLECT_CREATOR_FEE_DISCRIMINATOR, 0n, 0n);
+  assert.equal(check([claim]).lamports, 0);
+});
+
+test('the associated token program may only create accounts', () => {
+  const create = createAssociatedTokenAccountIdempotentInstruction(signer, wrappedSol, signer, NATIVE_MINT);
+  assert.equal(check([create]).lamports, 0);
+  // recover_nested
+  const recover = new TransactionInstruction({ programId: programs.associatedToken, keys: [], data: Buffer.from([2]) });
+  assert.throws(() => check([recover]), /Only account creation is allowed from the associated token program/);
+});
+
+test('SOL transfers from the signer count towards the limit', () => {
+  const transfer = (lamports: number) => SystemProgram.transfer({ fromPubkey: signer, toPubkey: stranger, lamports });
+  assert.equal(check([transfer(1_000)]).lamports, 1_000);
+  assert.throws(() => check([transfer(2 * LAMPORTS_PER_SOL)]), PolicyViolation);
+});
+
+test('wrapped SOL may only be closed back to the signer', () => {
+  assert.throws(
+    () => check([...wrap(5 * LAMPORTS_PER_SOL), createCloseAccountInstruction(wrappedSol, stranger, signer)]),
+    /only be closed to the signer/
+  );
+});
+
+test('system instructions other than transfers are refused', async () => {
+  const seed = 'buyback';
+  const seededAccount = await PublicKey.createWithSeed(signer, seed, SystemProgram.programId);
+  const shapes = [
+    SystemProgram.createAccountWithSeed({
+      fromPubkey: signer,
+      newAccountPubkey: seededAccount,
+      basePubkey: signer,
+      seed,
+      lamports: 5 * LAMPORTS_PER_SOL,
+      space: 0,
+      programId: SystemProgram.programId,
+    }),
+    SystemProgram.assign({ accountPubkey: signer, programId: stranger }),
+    SystemProgram.createAccount({
+      fromPubkey: signer,
+      newAccountPubkey: stranger,
+      lamports: 5 * LAMPORTS_PER_SOL,
+      space: 0,
+      programId: SystemProgram.programId,
+    }),
+  ];
+  for (const instruction of shapes) {
+    assert.throws(() => check([instruction]), /Only transfers are allowed from the system program/);
+  }
+});
+
+test('unchecked token transfers are refused', () => {
+  const transfer = createTransferInstruction(wrappedSol, stranger, signer, 5 * LAMPORTS_PER_SOL);
+  assert.throws(() => check([...wrap(5 * LAMPORTS_PER_SOL), transfer]), /Token instruction 3 is not allowed/);
+});
+
+test('wrapped SOL transferred or burned by the signer counts towards the limit', () => {
+  const transfer = (amount: number) =>
+    createTransferCheckedInstruction(wrappedSol, NATIVE_MINT, stranger, signer, amount, 9);
+  assert.equal(check([transfer(1_000)]).lamports, 1_000);
+  assert.throws(() => check([...wrap(5 * LAMPORTS_PER_SOL), transfer(5 * LAMPORTS_PER_SOL)]), /above the limit/);
+  assert.throws(
+    () => check([createBurnCheckedInstruction(wrappedSol, NATIVE_MINT, signer, 5 * LAMPORTS_PER_SOL, 9)]),
+    /above the limit/
+  );
+});
+
+test('transfers and burns of the bought token do not spend SOL', () => {
+  const source = getAssociatedTokenAddressSync(TEST_MINT, signer);
+  const summary = check([
+    createTransferCheckedInstruction(source, TEST_MINT, stranger, signer, 10n ** 15n, 6),
+    createBurnCheckedInstruction(source, TEST_MINT, signer, 10n ** 15n, 6),
+  ]);
+  assert.equal(summary.lamports, 0);
+});
+
+test('a token transfer by the signer whose mint comes from a lookup table is refused', () => {
+  const lookupTable = new AddressLookupTableAccount({
+    key: Keypair.generate().publicKey,
+    state: {
+      deactivationSlot: BigInt('18446744073709551615'),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      addresses: [NATIVE_MINT, stranger],
+    },
+  });
+  const transfer = createTransferCheckedInstruction(wrappedSol, NATIVE_MINT, stranger, signer, 5 * LAMPORTS_PER_SOL, 9);
+  assert.throws(() => check([transfer], [lookupTable]), /Mint of a token transfer or burn by the signer is not known/);
+});
+
+test('the priority fee counts towards the limit', () => {
+  const summary = check([
+    ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000_000 }),
+  ]);
+  assert.equal(summary.lamports, 200_000);
+  assert.throws(
+    () => check([ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1_000_000_000 })]),
+    /above the limit/
+  );
+});
@@ -0,0 +1,113 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, Keypair, SendTransactionError, SystemInstruction, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { KeypairSigner } from '../src/utils/signer';
+import { BundleBackend, FanOutBackend } from '../src/utils/submission';
+import { JsonRpcServer, signedTransfer, startJsonRpcServer } from './helpers';
+
+const accept = () => ({ result: 'accepted' });
+const reject = () => ({ error: { code: -32002, message: 'node is behind' } });
+
+// Main RPC whose preflight simulation succeeds, or fails with the given error
+const preflightConnection = (err: unknown = null) =>
+  ({
+    simulateTransaction: async () => ({ context: { slot: 1 }, value: { err, logs: ['Program log: failed'] } }),
+  }) as unknown as Connection;
+
+const withServers = async (
+  answers: Parameters<typeof startJsonRpcServer>[0][],
+  run: (servers: JsonRpcServer[]) => Promise<void>
+) => {
+  const servers = await Promise.all(answers.map((answer) => startJsonRpcServer(answer)));
+  try {
+    await run(servers);
+  } finally {
+    await Promise.all(servers.map((server) => server.close()));
+  }
+};
+
+test('fan-out fails when every send-only endpoint rejects the transaction', async () => {
+  await withServers([reject, reject], async (servers) => {
+    const backend = new FanOutBackend(preflightConnection(), servers.map((server) => server.url));
+    const transaction = signedTransfer();
+
+    await assert.rejects(backend.submit(transaction, false), (error: Error) => {
+      assert.match(error.message, new RegExp(`No send-only endpoint accepted ${transaction.signature}`));
+      assert.match(error.message, /node is behind/);
+      return true;
+    });
+    assert.deepEqual(servers.map((server) => server.requests.length), [1, 1]);
+  });
+});
+
+test('fan-out succeeds when any endpoint accepts, with the others rejecting or unreachable', async () => {
+  await withServers([reject, accept], async (servers) => {
+    const unreachable = 'http://127.0.0.1:1';
+    const backend = new FanOutBackend(preflightConnection(), [unreachable, ...servers.map((server) => server.url)]);
+    const transaction = signedTransfer();
+
+    await backend.submit(transaction, true);
+    for (const server of servers) {
+      assert.equal(server.requests.length, 1);
+      const [encoded, options] = server.requests[0].params;
+      assert.equal(server.requests[0].method, 'sendTransaction');
+      assert.equal(encoded, transaction.serialized.toString('base64'));
+      assert.deepEqual(options, { encoding: 'base64', skipPreflight: true, maxRetries: 0 });
+    }
+  });
+});
+
+test('fan-out does not broadcast a transaction that fails preflight', async () => {
+  await withServers([accept], async ([server]) => {
+    const backend = new FanOutBackend(preflightConnection({ InstructionError: [0, 'Custom'] }), [server.url]);
+
+    await assert.rejects(backend.submit(signedTransfer(), true), SendTransactionError);
+    assert.equal(server.requests.length, 0);
+  });
+});
+
+const rejectBundle = () => ({ error: { code: -32602, message: 'bundle contains an already processed transaction' } });
+
+test('a bundle rejected by the block engine fails the submission', async () => {
+  await withServers([rejectBundle], async ([server]) => {
+    const payer = Keypair.generate();
+    const backend = new BundleBackend(preflightConnection(), server.url, new KeypairSigner(payer.secretKey), 1_000, [
+      Keypair.generate().publicKey,
+    ]);
+
+    await assert.rejects(backend.submit(signedTransfer(payer), false), /sendBundle rejected by .*already processed/);
+    assert.equal(server.requests[0].method, 'sendBundle');
+  });
+});
+
+test('a rebroadcast bundle reuses the tip transaction, a new transaction gets a new tip', async () => {
+  await withServers([() => ({ result: 'bundle-id' })], async ([server]) => {
+    const payer = Keypair.generate();
+    const tipAccounts = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+    const signer = new KeypairSigner(payer.secretKey);
+    const backend = new BundleBackend(preflightConnection(), server.url, signer, 5_000, tipAccounts);
+
+    const first = signedTransfer(payer);
+    await backend.submit(first, true);
+    await backend.submit(first, false);
+    const next = signedTransfer(payer);
+    await backend.submit(next, false);
+
+    const bundles = server.requests.map((request) => request.params[0] as string[]);
+    assert.equal(bundles[0][0], first.serialized.toString('base64'));
+    assert.equal(bundles[1][1], bundles[0][1]);
+    assert.notEqual(bundles[2][1], bundles[0][1]);
+
+    for (const [i, transaction] of [first, first, next].entries()) {
+      const tip = Transaction.from(Buffer.from(bundles[i][1], 'base64'));
+      assert.equal(tip.recentBlockhash, transaction.blockhash);
+      assert.ok(tip.verifySignatures());
+      assert.ok(tip.feePayer!.equals(payer.publicKey));
+      const transfer = SystemInstruction.decodeTransfer(tip.instructions[0]);
+      assert.equal(transfer.lamports, 5_000n);
+      assert.ok(tipAccounts.some((account) => account.equals(transfer.toPubkey)));
+      assert.notEqual(bs58.encode(tip.signature!), transaction.signature);
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { LAMPORTS_PER_SOL, TransactionInstruction } from '@solana/web3.js';
+import { PumpFunService } from '../src/services/pumpfun';
+import { PumpSwapService } from '../src/services/pumpswap';
+import { TokenBuyback } from '../src/services/token-buyback';
+import { loadTestConfig, stubWallet } from './helpers';
+
+const tokenBuyback = (env: Record<string, string>) =>
+  new TokenBuyback(stubWallet(), loadTestConfig(env), {} as PumpFunService, {} as PumpSwapService);
+
+test('dry-run cycles start again from the restored pending balance', () => {
+  const token = tokenBuyback({ DRY_RUN: 'true' });
+  token.setPendingLamports(1_000);
+
+  for (let cycle = 0; cycle < 3; cycle++) {
+    token.resetSimulatedPending();
+    token.addPendingLamports(500);
+    assert.equal(token.getPendingLamports(), 1_500);
+  }
+});
+
+test('live cycles keep accumulating claimed fees', () => {
+  const token = tokenBuyback({});
+  token.setPendingLamports(1_000);
+
+  for (let cycle = 1; cycle <= 3; cycle++) {
+    token.resetSimulatedPending();
+    token.addPendingLamports(500);
+    assert.equal(token.getPendingLamports(), 1_000 + cycle * 500);
+  }
+});
+
+test('repurchased tokens whose burn failed are burned with the next cycle\'s buy', async () => {
+  const burns: bigint[] = [];
+  const wallet = stubWallet();
+  Object.assign(wallet, {
+    sendTransaction: async (instructions: TransactionInstruction[]) => {
+      burns.push(instructions[0].data.readBigUInt64LE(1));
+      if (burns.length === 1) {
+        throw new Error('Transaction expired after 3 attempt(s) without landing');
+      }
+      return 'burn-sig';
+    },
+    getTransactionBalances: async () => ({ fee: 5_000 }),
+  });
+  const pumpfun = { getBondingCurveData: async () => null } as unknown as PumpFunService;
+  const config = loadTestConfig({ POST_BUYBACK_ACTION: 'burn' });
+  const token = new TokenBuyback(wallet, config, pumpfun, {} as PumpSwapService);
+  token.buyTokens = async (solAmount: number) => ({
+    signature: 'buy-sig',
+    solSpent: solAmount,
+    tokensReceived: 1_000n,
+    networkFee: 0,
+  });
+
+  token.setPendingLamports(LAMPORTS_PER_SOL);
+  const failed = await token.buyback();
+  assert.equal(failed.tokensBurned, 0n);
+  assert.equal(token.getOwedPostBuybackTokens(), 1_000n);
+
+  token.setPendingLamports(LAMPORTS_PER_SOL);
+  const retried = await token.buyback();
+  assert.equal(retried.tokensBurned, 2_000n);
+  assert.equal(retried.postBuybackTx, 'burn-sig');
+  assert.equal(token.getOwedPostBuybackTokens(), 0n);
+  assert.deepEqual(burns, [1_000n, 2_000n]);
+});